@@ -1,8 +1,7 @@
 
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { User, LearningCategory, NextVideoInfo, Video, Project, MeetingMessage, OnlineUser, Notification, Song } from './types';
-import { categories as initialCategories, users } from './data';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { User, LearningCategory, LearningPlaylistChanges, NextVideoInfo, Video, Project, MeetingMessage, OnlineUser, Notification, Song, VideoProgress, WatchDay } from './types';
 
 // --- Page Components ---
 import LoginPage from './components/LoginPage';
@@ -25,6 +24,9 @@ import NotificationBanner from './components/NotificationBanner';
 // --- Services ---
 import * as supabaseService from './services/supabaseService';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import { hasPermission } from './utils/permissions';
+import { applyLearningVideoChange, getReorderChanges, withPositions } from './utils/playlistUtils';
+import { getPaceWindowStart, toWatchDay } from './utils/watchStats';
 
 
 const App: React.FC = () => {
@@ -35,9 +37,11 @@ const App: React.FC = () => {
     const [pageData, setPageData] = useState<any>(null);
 
     // --- Data State ---
-    const [categories, setCategories] = useState<LearningCategory[]>(initialCategories);
+    const [categories, setCategories] = useState<LearningCategory[]>([]);
     const [projects, setProjects] = useState<Project[]>([]);
-    const [watchedVideos, setWatchedVideos] = useState<Set<string>>(new Set());
+    const [profiles, setProfiles] = useState<User[]>([]);
+    const [videoProgress, setVideoProgress] = useState<Record<string, VideoProgress>>({});
+    const [watchDays, setWatchDays] = useState<WatchDay[]>([]);
     const [meetingMessages, setMeetingMessages] = useState<MeetingMessage[]>([]);
     const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
     const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
@@ -54,24 +58,40 @@ const App: React.FC = () => {
 
     // --- Supabase Channel Refs ---
     const presenceChannelRef = useRef<RealtimeChannel | null>(null);
+    // Auth events and profile edits replace the user object; the listeners read it from here so they only
+    // restart when a different user signs in.
+    const userRef = useRef<User | null>(user);
+    userRef.current = user;
+    const userId = user?.id;
+    // Number of the last progress save started per video; responses to earlier saves are stale and ignored.
+    const progressSaveRef = useRef<Record<string, number>>({});
+    const progressSaveCountRef = useRef(0);
 
     // --- Effects ---
 
-    // Load saved state from localStorage (runs once on initial load)
+    // Restore the Supabase Auth session and follow sign-in/sign-out events (runs once on initial load)
     useEffect(() => {
-        const savedUser = localStorage.getItem('arc7hive_user');
-        if (savedUser) {
-            const parsedUser = JSON.parse(savedUser);
-            const fullUser = users.find(u => u.name === parsedUser.name) || parsedUser;
-            setUser(fullUser);
-            setAppState('dashboard');
-        }
+        const unsubAuth = supabaseService.onAuthStateChange((authUser, event) => {
+            if (!authUser) {
+                setUser(null);
+                setVideoProgress({});
+                setWatchDays([]);
+                setAppState('login');
+                setPage('dashboard');
+                return;
+            }
+            setUser(authUser);
+            // A restored session skips the welcome screen; a fresh sign-in (password or magic link) shows it.
+            setAppState(prev => {
+                if (event === 'INITIAL_SESSION') return 'dashboard';
+                return prev === 'login' ? 'welcome' : prev;
+            });
+        });
+        return () => unsubAuth();
+    }, []);
 
-        const savedWatched = localStorage.getItem('arc7hive_watchedVideos');
-        if (savedWatched) {
-            setWatchedVideos(new Set(JSON.parse(savedWatched)));
-        }
-        
+    // Load saved state from localStorage (runs once on initial load)
+    useEffect(() => {
         const customStyles = localStorage.getItem('arc7hive_custom_styles');
         if (customStyles) {
             const styleElement = document.createElement('style');
@@ -81,28 +101,61 @@ const App: React.FC = () => {
         }
     }, []);
 
+    // Active tracks from learning_categories, each filled with its videos
+    const loadCategories = useCallback(async () => {
+        const [trackList, videosByCategory] = await Promise.all([
+            supabaseService.getLearningCategories(),
+            supabaseService.getLearningPlaylists(),
+        ]);
+        if (!trackList) return;
+        setCategories(trackList
+            .filter(cat => !cat.archived)
+            .map(cat => ({ ...cat, videos: videosByCategory?.[cat.id] || [] })));
+    }, []);
+
+    // Watch history from before video_progress existed is moved to the database once, then the key is dropped.
+    // The browser may be shared and the key belongs to nobody in particular, so the user is asked first; declining
+    // keeps it for whoever signs in next.
+    const loadVideoProgress = useCallback(async (currentUserId: string) => {
+        const legacyWatched = localStorage.getItem('arc7hive_watchedVideos');
+        if (legacyWatched) {
+            try {
+                const parsed = JSON.parse(legacyWatched);
+                const videoIds = Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+                if (videoIds.length === 0) {
+                    localStorage.removeItem('arc7hive_watchedVideos');
+                } else if (window.confirm(`Este navegador guarda ${videoIds.length} vídeo(s) marcados como assistidos em uma versão anterior. Importar para a sua conta?`)) {
+                    await supabaseService.importWatchedVideos(currentUserId, videoIds);
+                    localStorage.removeItem('arc7hive_watchedVideos');
+                }
+            } catch (error) {
+                console.error("Could not import the saved watch history:", error); // Kept for the next load
+            }
+        }
+        const [progress, days] = await Promise.all([
+            supabaseService.getVideoProgress(currentUserId),
+            supabaseService.getWatchDays(currentUserId, getPaceWindowStart()),
+        ]);
+        setVideoProgress(progress);
+        setWatchDays(days);
+    }, []);
+
     // Supabase Listeners and data fetching that depends on the user
     useEffect(() => {
-        if (!user) return;
+        const user = userRef.current;
+        if (!userId || !user) return;
         
-        const loadPlaylists = async () => {
-            const videosByCategory = await supabaseService.getLearningPlaylists();
-            if (videosByCategory) {
-                 const categoriesWithSavedVideos = initialCategories.map(cat => ({
-                    ...cat,
-                    videos: videosByCategory[cat.id] || cat.videos,
-                }));
-                setCategories(categoriesWithSavedVideos);
-            } else {
-                 setCategories(initialCategories);
-            }
-        };
-
-        loadPlaylists();
+        loadCategories();
+        supabaseService.getProfiles().then(setProfiles);
+        loadVideoProgress(user.id);
 
         // Setup listeners for all real-time data from Supabase
         const unsubMessages = supabaseService.setupMessagesListener(setMeetingMessages, (err) => setMeetingError(supabaseService.formatSupabaseError(err, 'message listener')));
         const unsubProjects = supabaseService.setupProjectsListener(setProjects, (err) => console.error(supabaseService.formatSupabaseError(err, 'project listener')));
+        const unsubLearningPlaylists = supabaseService.setupLearningPlaylistsListener(
+            (change) => setCategories(prev => applyLearningVideoChange(prev, change)),
+            (err) => console.error(supabaseService.formatSupabaseError(err, 'learning playlists listener'))
+        );
         const unsubPlaylist = supabaseService.setupPlaylistListener((data, err) => {
             if (err) setMusicError(supabaseService.formatSupabaseError(err, 'playlist listener'));
             else setPlaylist(data);
@@ -117,10 +170,12 @@ const App: React.FC = () => {
             const currentTypingUsers = new Set<string>();
             
             for (const id in presenceState) {
-                const presences = presenceState[id] as unknown as { user: string, avatarUrl: string, is_typing: boolean }[];
+                const presences = presenceState[id] as unknown as { userId: string, user: string, avatarUrl: string, is_typing: boolean }[];
                 presences.forEach(p => {
-                    currentOnlineUsers.push({ name: p.user, avatarUrl: p.avatarUrl });
-                    if (p.is_typing) {
+                    if (!currentOnlineUsers.some(u => u.id === p.userId)) {
+                        currentOnlineUsers.push({ id: p.userId, name: p.user, avatarUrl: p.avatarUrl });
+                    }
+                    if (p.is_typing && p.userId !== user.id) {
                         currentTypingUsers.add(p.user);
                     }
                 });
@@ -135,12 +190,21 @@ const App: React.FC = () => {
             unsubMessages();
             unsubProjects();
             unsubPlaylist();
+            unsubLearningPlaylists();
             if (presenceChannelRef.current) {
                 supabaseService.leaveMeetingPresence(presenceChannelRef.current);
                 presenceChannelRef.current = null;
             }
         };
-    }, [user]);
+    }, [userId, loadCategories, loadVideoProgress]);
+
+    // Keep the name and avatar shown to the meeting room current without rejoining it
+    useEffect(() => {
+        if (user && presenceChannelRef.current?.state === 'joined') {
+            supabaseService.updateMeetingPresenceUser(presenceChannelRef.current, user);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [user?.name, user?.avatarUrl]);
     
     // Custom notification event listener
     useEffect(() => {
@@ -155,22 +219,16 @@ const App: React.FC = () => {
 
     // --- Handlers ---
 
-    const handleLogin = (loggedInUser: User) => {
-        const fullUser = users.find(u => u.name === loggedInUser.name) || loggedInUser;
-        setUser(fullUser);
-        setAppState('welcome');
-        localStorage.setItem('arc7hive_user', JSON.stringify(fullUser));
-    };
-
-    const handleLogout = () => {
+    const handleLogout = async () => {
         if (presenceChannelRef.current) {
             supabaseService.leaveMeetingPresence(presenceChannelRef.current);
             presenceChannelRef.current = null;
         }
+        await supabaseService.signOut();
+        // The auth listener resets the state, but don't rely on it if sign out failed.
         setUser(null);
         setAppState('login');
         setPage('dashboard');
-        localStorage.removeItem('arc7hive_user');
     };
 
     const handleNavigate = (targetPage: 'videos' | 'projects' | 'meeting' | 'project-viewer' | 'notebook-lm', data?: any) => {
@@ -178,27 +236,75 @@ const App: React.FC = () => {
         setPageData(data);
     };
 
-    const handleToggleVideoWatched = (videoId: string) => {
-        setWatchedVideos(prev => {
-            const newSet = new Set(prev);
-            if (newSet.has(videoId)) {
-                newSet.delete(videoId);
-            } else {
-                newSet.add(videoId);
+    const watchedVideos = useMemo(
+        () => new Set(Object.keys(videoProgress).filter(videoId => videoProgress[videoId].watched)),
+        [videoProgress]
+    );
+
+    // `progressSeconds` is how much further into the video this change got, which counts towards the watch pace.
+    const persistVideoProgress = async (
+        progress: Omit<VideoProgress, 'updated_at'>,
+        { revertState, progressSeconds = 0 }: { revertState?: () => void; progressSeconds?: number } = {}
+    ) => {
+        if (!user) return;
+        const change: VideoProgress = { ...progress, updated_at: new Date().toISOString() };
+        const saveNumber = ++progressSaveCountRef.current;
+        progressSaveRef.current[change.videoId] = saveNumber;
+        const isLatestSave = () => progressSaveRef.current[change.videoId] === saveNumber;
+
+        setVideoProgress(prev => ({ ...prev, [change.videoId]: change }));
+        try {
+            const saved = await supabaseService.saveVideoProgress(change, progressSeconds);
+            if (isLatestSave()) setVideoProgress(prev => ({ ...prev, [saved.videoId]: saved }));
+            if (progressSeconds > 0) {
+                const day = toWatchDay(Date.parse(change.updated_at));
+                setWatchDays(prev => prev.some(d => d.day === day)
+                    ? prev.map(d => (d.day === day ? { ...d, seconds: d.seconds + progressSeconds } : d))
+                    : [...prev, { day, seconds: progressSeconds }]);
             }
-            localStorage.setItem('arc7hive_watchedVideos', JSON.stringify(Array.from(newSet)));
-            return newSet;
-        });
+        } catch (error) {
+            console.error("Failed to save video progress:", error);
+            if (revertState && isLatestSave()) {
+                const message = error instanceof Error ? error.message : 'Falha ao salvar o progresso.';
+                window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'error', message } }));
+                revertState();
+            }
+        }
+    };
+
+    const handleToggleVideoWatched = (videoId: string) => {
+        const originalProgress = videoProgress;
+        const current = videoProgress[videoId];
+        const watched = !current?.watched;
+        persistVideoProgress({
+            videoId,
+            watched,
+            positionSeconds: watched ? 0 : current?.positionSeconds ?? 0,
+            completionPercent: watched ? 100 : current?.completionPercent ?? 0,
+        }, { revertState: () => setVideoProgress(originalProgress) });
+    };
+
+    const handleMarkVideoWatched = (videoId: string) => {
+        if (videoProgress[videoId]?.watched) return;
+        persistVideoProgress({ videoId, watched: true, positionSeconds: 0, completionPercent: 100 });
     };
-    
-    const persistCategories = async (updatedCategories: LearningCategory[], successMessage: string, failureMessage: string, revertState: () => void) => {
-        const videosByCategory = updatedCategories.reduce((acc, cat) => {
-            acc[cat.id] = cat.videos;
-            return acc;
-        }, {} as Record<string, Video[]>);
 
+    const handleVideoProgress = (videoId: string, positionSeconds: number, durationSeconds: number) => {
+        if (!durationSeconds || durationSeconds <= 0) return;
+        const current = videoProgress[videoId];
+        const viewedPercent = Math.min(100, (positionSeconds / durationSeconds) * 100);
+        const previousPercent = current?.completionPercent ?? 0;
+        persistVideoProgress({
+            videoId,
+            watched: current?.watched ?? false,
+            positionSeconds,
+            completionPercent: Math.max(previousPercent, viewedPercent),
+        }, { progressSeconds: (Math.max(0, viewedPercent - previousPercent) / 100) * durationSeconds });
+    };
+    
+    const persistPlaylistChanges = async (categoryId: string, changes: LearningPlaylistChanges, successMessage: string, failureMessage: string, revertState: () => void) => {
         try {
-            await supabaseService.saveLearningPlaylists(videosByCategory);
+            await supabaseService.applyLearningPlaylistChanges(categoryId, changes);
             window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: successMessage } }));
         } catch (error) {
             const message = error instanceof Error ? error.message : failureMessage;
@@ -208,28 +314,27 @@ const App: React.FC = () => {
     };
     
     const handleAddVideos = (categoryId: string, newVideos: Video[]) => {
-        const originalCategories = [...categories];
-        let hasChanges = false;
-        
-        const updatedCategories = categories.map(cat => {
-            if (cat.id === categoryId) {
-                const existingVideoIds = new Set(cat.videos.map(v => v.id));
-                const uniqueNewVideos = newVideos.filter(v => !existingVideoIds.has(v.id));
-                if (uniqueNewVideos.length > 0) {
-                    hasChanges = true;
-                    return { ...cat, videos: [...cat.videos, ...uniqueNewVideos] };
-                }
-            }
-            return cat;
-        });
+        if (!hasPermission(user, 'manage-videos')) return;
+        const category = categories.find(cat => cat.id === categoryId);
+        if (!category) return;
+
+        const existingVideoIds = new Set(category.videos.map(v => v.id));
+        // Positions mirror what the insert trigger assigns, so realtime echoes sort into the same place.
+        const lastPosition = Math.max(-1, ...category.videos.map(v => v.position ?? -1));
+        const uniqueNewVideos = newVideos
+            .filter(v => !existingVideoIds.has(v.id))
+            .map((v, i) => ({ ...v, position: lastPosition + 1 + i }));
+        if (uniqueNewVideos.length === 0) return;
 
-        if (hasChanges) {
-            setCategories(updatedCategories);
-            persistCategories(updatedCategories, 'Playlist atualizada com sucesso!', 'Falha ao salvar a playlist.', () => setCategories(originalCategories));
-        }
+        const originalCategories = [...categories];
+        setCategories(categories.map(cat =>
+            cat.id === categoryId ? { ...cat, videos: [...cat.videos, ...uniqueNewVideos] } : cat
+        ));
+        persistPlaylistChanges(categoryId, { added: uniqueNewVideos }, 'Playlist atualizada com sucesso!', 'Falha ao salvar a playlist.', () => setCategories(originalCategories));
     };
     
     const handleRemoveVideo = (categoryId: string, videoId: string) => {
+        if (!hasPermission(user, 'manage-videos')) return;
         if (!window.confirm("Tem certeza que deseja remover este vídeo da trilha?")) return;
 
         const originalCategories = [...categories];
@@ -242,19 +347,41 @@ const App: React.FC = () => {
         });
 
         setCategories(updatedCategories);
-        persistCategories(updatedCategories, 'Vídeo removido com sucesso!', 'Falha ao remover o vídeo.', () => setCategories(originalCategories));
+        persistPlaylistChanges(categoryId, { removedIds: [videoId] }, 'Vídeo removido com sucesso!', 'Falha ao remover o vídeo.', () => setCategories(originalCategories));
+    };
+    
+    const handleReorderVideos = (categoryId: string, videosInNewOrder: Video[]) => {
+        if (!hasPermission(user, 'manage-videos')) return;
+        const category = categories.find(cat => cat.id === categoryId);
+        if (!category) return;
+
+        const reorderedVideos = withPositions(videosInNewOrder);
+        const originalCategories = [...categories];
+        setCategories(categories.map(cat => (cat.id === categoryId ? { ...cat, videos: reorderedVideos } : cat)));
+        persistPlaylistChanges(categoryId, getReorderChanges(category.videos, reorderedVideos), 'Ordem da trilha salva.', 'Falha ao salvar a ordem da trilha.', () => setCategories(originalCategories));
     };
     
-    const handleUpdateProject = (projectId: string, updates: Partial<Project>) => {
-        supabaseService.updateProject(projectId, updates);
-        // The listener will handle the state update
+    const handleUpdateProject = async (projectId: string, updates: Partial<Project>) => {
+        try {
+            await supabaseService.updateProject(projectId, updates);
+            // The listener will handle the state update
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Falha ao salvar o projeto.';
+            window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'error', message } }));
+        }
     };
 
-    const handleSaveAvatar = (newAvatarUrl: string) => {
+    const handleSaveAvatar = async (newAvatarUrl: string) => {
         if (user) {
-            const updatedUser = { ...user, avatarUrl: newAvatarUrl };
-            setUser(updatedUser);
-            localStorage.setItem('arc7hive_user', JSON.stringify(updatedUser));
+            try {
+                await supabaseService.updateProfile(user.id, { avatarUrl: newAvatarUrl });
+                const updatedUser = { ...user, avatarUrl: newAvatarUrl };
+                setUser(updatedUser);
+                setProfiles(prev => prev.map(p => p.id === user.id ? { ...p, avatarUrl: newAvatarUrl } : p));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Falha ao salvar o avatar.';
+                window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'error', message } }));
+            }
             setIsProfileModalOpen(false);
         }
     };
@@ -265,12 +392,23 @@ const App: React.FC = () => {
         }
     };
 
-    // Calculate next video to watch
+    // Calculate next video to watch: resume the most recent unfinished video, otherwise the first unwatched one.
+    // category.videos is already in the curated order (position), so modules are followed in sequence.
     const nextVideoInfo: NextVideoInfo | null = (() => {
+        const inProgress = Object.keys(videoProgress)
+            .map(videoId => videoProgress[videoId])
+            .filter(progress => !progress.watched && progress.positionSeconds > 0)
+            .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+        for (const progress of inProgress) {
+            for (const category of categories) {
+                const video = category.videos.find(v => v.id === progress.videoId);
+                if (video) return { video, category, progress };
+            }
+        }
         for (const category of categories) {
             for (const video of category.videos) {
                 if (!watchedVideos.has(video.id)) {
-                    return { video, category };
+                    return { video, category, progress: videoProgress[video.id] };
                 }
             }
         }
@@ -280,7 +418,7 @@ const App: React.FC = () => {
     // --- Render Logic ---
 
     if (!user || appState === 'login') {
-        return <LoginPage onLogin={handleLogin} />;
+        return <LoginPage />;
     }
 
     if (appState === 'welcome') {
@@ -291,12 +429,17 @@ const App: React.FC = () => {
         switch (page) {
             case 'videos':
                 return <VideoPlayerPage 
-                            category={pageData.category}
+                            category={categories.find(cat => cat.id === pageData.category.id) ?? pageData.category}
                             initialVideoId={pageData.videoId || null}
                             watchedVideos={watchedVideos} 
+                            videoProgress={videoProgress}
                             onToggleVideoWatched={handleToggleVideoWatched}
+                            onMarkVideoWatched={handleMarkVideoWatched}
+                            onVideoProgress={handleVideoProgress}
                             onAddVideos={handleAddVideos}
                             onRemoveVideo={handleRemoveVideo}
+                            onReorderVideos={handleReorderVideos}
+                            canManageVideos={hasPermission(user, 'manage-videos')}
                             onBack={() => setPage('dashboard')} 
                             allCategories={categories}
                         />;
@@ -304,6 +447,7 @@ const App: React.FC = () => {
                 return <ProjectsPage 
                             user={user} 
                             projects={projects} 
+                            profiles={profiles}
                             onBack={() => setPage('dashboard')} 
                             onViewProject={(project) => handleNavigate('project-viewer', project)}
                             onNavigate={handleNavigate}
@@ -312,6 +456,7 @@ const App: React.FC = () => {
             case 'project-viewer':
                  return <ProjectViewerPage 
                             project={pageData} 
+                            profiles={profiles}
                             onBack={() => setPage('projects')} 
                             onUpdateProject={handleUpdateProject}
                         />
@@ -324,7 +469,7 @@ const App: React.FC = () => {
                             error={meetingError}
                             isAiActive={true} // Simplified for now
                             onToggleAi={() => {}} // Simplified for now
-                            onSendMessage={(text) => supabaseService.sendMessage(user.name, text, user.avatarUrl)}
+                            onSendMessage={(text) => supabaseService.sendMessage(user, text)}
                             onTypingChange={handleTypingChange}
                             onBack={() => setPage('dashboard')}
                         />;
@@ -336,6 +481,8 @@ const App: React.FC = () => {
                             user={user} 
                             categories={categories} 
                             watchedVideos={watchedVideos}
+                            videoProgress={videoProgress}
+                            watchDays={watchDays}
                             nextVideoInfo={nextVideoInfo}
                             onNavigate={handleNavigate} 
                             onLogout={handleLogout}
@@ -351,7 +498,9 @@ const App: React.FC = () => {
         <>
             {renderPage()}
             <Chatbot />
-            <AdminPanel isOpen={isAdminPanelOpen} onClose={() => setIsAdminPanelOpen(false)} />
+            {hasPermission(user, 'open-admin-panel') && (
+                <AdminPanel isOpen={isAdminPanelOpen} onClose={() => setIsAdminPanelOpen(false)} user={user} onCategoriesChanged={loadCategories} />
+            )}
             <ProfileModal isOpen={isProfileModalOpen} onClose={() => setIsProfileModalOpen(false)} currentAvatar={user.avatarUrl} onSave={handleSaveAvatar} />
             <MusicPlayer 
                 isOpen={isMusicPlayerOpen} 
@@ -1,8 +1,16 @@
 // components/AddVideoModal.tsx
-import React, { useState, useMemo } from 'react';
-import type { Video, LearningCategory, YouTubePlaylist } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import type { Video, LearningCategory, YouTubePlaylist, YouTubeChannel } from '../types';
 import Icon from './Icons';
-import { searchYouTubeVideos, getVideosFromPlaylistUrl, searchVideosByAI, searchYouTubePlaylists } from '../services/geminiService';
+import { searchYouTubeVideos, getVideosFromPlaylistUrl, searchYouTubePlaylists, searchYouTubeChannels, getVideosFromChannel, extractYouTubeChannelId } from '../services/geminiService';
+import { formatSeconds } from '../utils/durationUtils';
+import { formatVideoByline } from '../utils/videoMetadata';
+import { parseVideoLink, platformLabels } from '../utils/videoPlatforms';
+import { resolveVideoLink, resolveVideoLinks } from '../services/videoLinkService';
+import { searchVideosSemantically } from '../services/semanticSearch';
+import { parseBulkVideoList } from '../utils/bulkImport';
+import type { ParsedVideoLink } from '../utils/videoPlatforms';
+import VideoImportPreview from './VideoImportPreview';
 
 interface AddVideoModalProps {
     isOpen: boolean;
@@ -14,8 +22,16 @@ interface AddVideoModalProps {
 }
 
 const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVideos, existingVideoIds, allCategories, categoryTitle }) => {
-    const [mode, setMode] = useState<'search' | 'playlist' | 'ai' | 'playlist-search'>('search');
+    const [mode, setMode] = useState<'search' | 'playlist' | 'ai' | 'playlist-search' | 'link' | 'bulk' | 'channel'>('search');
     const [playlistUrl, setPlaylistUrl] = useState('');
+    const [linkUrl, setLinkUrl] = useState('');
+    const [linkResult, setLinkResult] = useState<Video | null>(null);
+    const [bulkText, setBulkText] = useState('');
+    const [channelResults, setChannelResults] = useState<YouTubeChannel[]>([]);
+    const [importChannel, setImportChannel] = useState<YouTubeChannel | null>(null);
+    const [importPreview, setImportPreview] = useState<Video[] | null>(null);
+    const [skippedEntries, setSkippedEntries] = useState<string[]>([]);
+    const [resolveProgress, setResolveProgress] = useState<{ done: number; total: number } | null>(null);
     const [query, setQuery] = useState('');
     const [searchResults, setSearchResults] = useState<Video[]>([]);
     const [playlistResults, setPlaylistResults] = useState<Video[]>([]);
@@ -24,6 +40,9 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
 
+    // Background cache refreshes only apply if the user hasn't started another search since.
+    const latestSearchRef = useRef(0);
+
     const allVideos = useMemo(() => allCategories.flatMap(c => c.videos), [allCategories]);
 
     if (!isOpen) return null;
@@ -31,6 +50,14 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
     const resetState = () => {
         setQuery('');
         setPlaylistUrl('');
+        setLinkUrl('');
+        setLinkResult(null);
+        setBulkText('');
+        setChannelResults([]);
+        setImportChannel(null);
+        setImportPreview(null);
+        setSkippedEntries([]);
+        setResolveProgress(null);
         setSearchResults([]);
         setPlaylistResults([]);
         setSuggestions([]);
@@ -46,8 +73,11 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
         setIsLoading(true);
         setError('');
         setSearchResults([]);
+        const searchId = ++latestSearchRef.current;
         try {
-            const foundVideos = await searchYouTubeVideos(query);
+            const foundVideos = await searchYouTubeVideos(query, (freshVideos) => {
+                if (latestSearchRef.current === searchId) setSearchResults(freshVideos);
+            });
             setSearchResults(foundVideos);
             if (foundVideos.length === 0) {
                 setError("Nenhum vídeo encontrado para esta busca.");
@@ -67,7 +97,7 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
         setError('');
         setSearchResults([]);
         try {
-            const foundVideos = await searchVideosByAI(query, allVideos);
+            const foundVideos = await searchVideosSemantically(query, allVideos);
             setSearchResults(foundVideos);
             if (foundVideos.length === 0) {
                 setError("Nenhum vídeo relevante encontrado em nossas playlists para esta busca.");
@@ -103,12 +133,147 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
         importPlaylist(playlistUrl);
     };
 
+    const handleResolveLink = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!linkUrl.trim()) return;
+
+        setError('');
+        setLinkResult(null);
+        const link = parseVideoLink(linkUrl);
+        if (!link) {
+            setError("Link não reconhecido. Use um vídeo do YouTube, Vimeo, TikTok ou Instagram, ou um arquivo .mp4, .webm ou .m3u8.");
+            return;
+        }
+        setIsLoading(true);
+        try {
+            setLinkResult(await resolveVideoLink(link));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // --- Bulk (CSV/JSON) and channel imports: both end in a preview before anything is added ---
+
+    const handleBulkFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Lets the same file be picked again after editing it
+        if (!file) return;
+        file.text().then(setBulkText).catch(() => setError('Não foi possível ler o arquivo.'));
+    };
+
+    const handleBulkPreview = async () => {
+        setError('');
+        setImportPreview(null);
+        let entries;
+        try {
+            entries = parseBulkVideoList(bulkText);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível ler a lista.');
+            return;
+        }
+
+        const skipped: string[] = [];
+        const seenIds = new Set<string>();
+        const accepted: { link: ParsedVideoLink; title?: string; section?: string }[] = [];
+        for (const entry of entries) {
+            const link = parseVideoLink(entry.url);
+            if (!link) {
+                skipped.push(entry.url);
+            } else if (seenIds.has(link.id)) {
+                skipped.push(`${entry.url} (repetido na lista)`);
+            } else {
+                seenIds.add(link.id);
+                accepted.push({ link, title: entry.title, section: entry.section });
+            }
+        }
+        setSkippedEntries(skipped);
+        if (accepted.length === 0) {
+            setError("Nenhum link de vídeo reconhecido na lista.");
+            return;
+        }
+
+        setIsLoading(true);
+        setResolveProgress({ done: 0, total: accepted.length });
+        try {
+            const videos = await resolveVideoLinks(accepted.map(a => a.link), (done, total) => setResolveProgress({ done, total }));
+            setImportPreview(videos.map((video, i) => ({
+                ...video,
+                title: accepted[i].title || video.title,
+                section: accepted[i].section || video.section,
+            })));
+        } finally {
+            setIsLoading(false);
+            setResolveProgress(null);
+        }
+    };
+
+    const loadChannelVideos = async (channel: YouTubeChannel) => {
+        setIsLoading(true);
+        setError('');
+        setImportChannel(channel);
+        setImportPreview(null);
+        try {
+            const videos = await getVideosFromChannel(channel.id);
+            setImportPreview(videos);
+            if (videos.length === 0) {
+                setError("Nenhum vídeo encontrado neste canal.");
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao carregar os vídeos do canal.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleChannelSearch = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!query.trim()) return;
+
+        setImportChannel(null);
+        setImportPreview(null);
+        const channelId = extractYouTubeChannelId(query);
+        if (channelId) {
+            loadChannelVideos({ id: channelId, name: channelId, thumbnailUrl: '' });
+            return;
+        }
+
+        setIsLoading(true);
+        setError('');
+        setChannelResults([]);
+        const searchId = ++latestSearchRef.current;
+        // "https://www.youtube.com/@canal" and "@canal" are searched by the handle itself.
+        const searchQuery = query.trim().replace(/^https?:\/\/(www\.|m\.)?youtube\.com\//i, '').replace(/^@/, '').split(/[/?#]/)[0];
+        try {
+            const channels = await searchYouTubeChannels(searchQuery, (freshChannels) => {
+                if (latestSearchRef.current === searchId) setChannelResults(freshChannels);
+            });
+            setChannelResults(channels);
+            if (channels.length === 0) {
+                setError("Nenhum canal encontrado para esta busca.");
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Falha ao buscar canais.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleConfirmImport = (videos: Video[]) => {
+        onAddVideos(videos);
+        setImportPreview(null);
+        setSkippedEntries([]);
+        if (mode === 'bulk') setBulkText('');
+    };
+
     const handleSearchPlaylists = async (searchQuery: string) => {
         setIsLoading(true);
         setError('');
         setSuggestions([]);
+        const searchId = ++latestSearchRef.current;
         try {
-            const results = await searchYouTubePlaylists(searchQuery);
+            const results = await searchYouTubePlaylists(searchQuery, (freshPlaylists) => {
+                if (latestSearchRef.current === searchId) setSuggestions(freshPlaylists);
+            });
             setSuggestions(results);
             if (results.length === 0) {
                 setError("Nenhuma playlist encontrada para esta busca.");
@@ -171,7 +336,7 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in" onClick={onClose}>
             <div className="bg-dark border border-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 p-6 flex flex-col h-[80vh]" onClick={e => e.stopPropagation()}>
                 <div className="flex items-center justify-between pb-4 border-b border-gray-800 flex-shrink-0 mb-4">
-                    <h3 className="text-xl font-display tracking-wider text-white">Adicionar Conteúdo do YouTube</h3>
+                    <h3 className="text-xl font-display tracking-wider text-white">Adicionar Conteúdo</h3>
                     <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
                         <Icon name="X" className="w-5 h-5" />
                     </button>
@@ -186,6 +351,11 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
                         <Icon name="Sparkles" className="w-4 h-4"/> Busca IA
                     </button>
                     <button onClick={() => { setMode('playlist'); resetState(); }} className={`py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === 'playlist' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Importar URL</button>
+                    <button onClick={() => { setMode('link'); resetState(); }} className={`py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === 'link' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Outras Plataformas</button>
+                    <button onClick={() => { setMode('bulk'); resetState(); }} className={`py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === 'bulk' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Lista CSV/JSON</button>
+                    <button onClick={() => { setMode('channel'); resetState(); }} className={`py-1.5 text-sm font-semibold rounded-md transition-colors flex items-center justify-center gap-2 ${mode === 'channel' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>
+                        <Icon name="UsersGroup" className="w-4 h-4"/> Canal
+                    </button>
                 </div>
 
                 {mode === 'search' ? (
@@ -211,7 +381,8 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
                                          <img src={video.thumbnailUrl} alt={video.title} className="w-28 h-16 object-cover rounded flex-shrink-0" />
                                          <div className="min-w-0">
                                              <p className="text-sm font-semibold text-white line-clamp-2">{video.title}</p>
-                                             <p className="text-xs text-gray-400">{video.duration}</p>
+                                             <p className="text-xs text-gray-400">{formatSeconds(video.durationSeconds)}</p>
+                                             {formatVideoByline(video) && <p className="text-xs text-gray-500 truncate">{formatVideoByline(video)}</p>}
                                          </div>
                                          <button
                                              onClick={() => handleAddSingleVideo(video)}
@@ -249,7 +420,8 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
                                          <img src={video.thumbnailUrl} alt={video.title} className="w-28 h-16 object-cover rounded flex-shrink-0" />
                                          <div className="min-w-0">
                                              <p className="text-sm font-semibold text-white line-clamp-2">{video.title}</p>
-                                             <p className="text-xs text-gray-400">{video.duration}</p>
+                                             <p className="text-xs text-gray-400">{formatSeconds(video.durationSeconds)}</p>
+                                             {formatVideoByline(video) && <p className="text-xs text-gray-500 truncate">{formatVideoByline(video)}</p>}
                                          </div>
                                          <button
                                              onClick={() => handleAddSingleVideo(video)}
@@ -296,6 +468,123 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
                             )}
                         </div>
                     </>
+                ) : mode === 'bulk' ? (
+                    <>
+                        {importPreview ? (
+                            <>
+                                <button onClick={() => { setImportPreview(null); setError(''); }} className="flex-shrink-0 self-start flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+                                    <Icon name="ChevronLeft" className="w-4 h-4" /> Editar lista
+                                </button>
+                                <VideoImportPreview videos={importPreview} existingVideoIds={existingVideoIds} skippedEntries={skippedEntries} onConfirm={handleConfirmImport} />
+                            </>
+                        ) : (
+                            <div className="flex-grow flex flex-col min-h-0 gap-3">
+                                <textarea
+                                    value={bulkText}
+                                    onChange={e => setBulkText(e.target.value)}
+                                    placeholder={'Cole um link por linha, um CSV (url,titulo,modulo) ou um JSON:\n[{ "url": "https://youtu.be/...", "title": "...", "section": "Básico" }]'}
+                                    className="flex-grow min-h-[12rem] bg-gray-900 border border-gray-700 rounded-md p-3 text-white text-sm font-mono focus:ring-2 focus:ring-brand-red"
+                                />
+                                {error && <p className="text-center text-red-400">{error}</p>}
+                                <div className="flex-shrink-0 flex items-center justify-between gap-2">
+                                    <label className="flex items-center gap-2 text-sm text-gray-300 bg-gray-800 hover:bg-gray-700 py-2 px-3 rounded-md cursor-pointer transition-colors">
+                                        <Icon name="Upload" className="w-4 h-4" /> Carregar arquivo
+                                        <input type="file" accept=".csv,.json,.txt,text/csv,application/json,text/plain" onChange={handleBulkFile} className="hidden" />
+                                    </label>
+                                    <button onClick={handleBulkPreview} disabled={isLoading || !bulkText.trim()} className="flex items-center gap-2 bg-brand-red hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-md text-sm disabled:bg-gray-600">
+                                        {resolveProgress ? `Carregando ${resolveProgress.done}/${resolveProgress.total}...` : 'Pré-visualizar'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </>
+                ) : mode === 'channel' ? (
+                    <>
+                        <form onSubmit={handleChannelSearch} className="relative flex-shrink-0">
+                            <input
+                                type="text"
+                                value={query}
+                                onChange={e => setQuery(e.target.value)}
+                                placeholder="Nome do canal, @handle ou URL do canal no YouTube"
+                                className="w-full bg-gray-900 border border-gray-700 rounded-full py-2 pl-4 pr-12 text-white focus:ring-2 focus:ring-brand-red"
+                            />
+                            <button type="submit" className="absolute right-2 top-1/2 -translate-y-1/2 p-2 text-gray-400 hover:text-brand-red disabled:text-gray-600" disabled={isLoading}>
+                                <Icon name="Search" className="w-5 h-5" />
+                            </button>
+                        </form>
+                        {error && <p className="text-center text-red-400 p-4">{error}</p>}
+                        {importChannel ? (
+                            <>
+                                <div className="flex-shrink-0 flex items-center gap-2 mt-4 text-sm text-gray-300">
+                                    <button onClick={() => { setImportChannel(null); setImportPreview(null); setError(''); }} className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-800" title="Voltar aos canais">
+                                        <Icon name="ChevronLeft" className="w-4 h-4" />
+                                    </button>
+                                    Envios recentes de <span className="font-semibold text-white">{importChannel.name}</span>
+                                </div>
+                                {isLoading ? (
+                                    <p className="text-center text-gray-500 pt-8">Carregando vídeos do canal...</p>
+                                ) : importPreview && importPreview.length > 0 && (
+                                    <VideoImportPreview videos={importPreview} existingVideoIds={existingVideoIds} onConfirm={handleConfirmImport} />
+                                )}
+                            </>
+                        ) : (
+                            <div className="flex-grow overflow-y-auto mt-4 pr-2 space-y-2">
+                                {channelResults.length > 0 ? channelResults.map(channel => (
+                                    <div key={channel.id} onClick={() => loadChannelVideos(channel)} className="flex items-center gap-4 p-2 rounded-lg bg-gray-800/50 hover:bg-gray-700/50 cursor-pointer transition-colors">
+                                        <img src={channel.thumbnailUrl} alt={channel.name} className="w-12 h-12 object-cover rounded-full flex-shrink-0" />
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-white">{channel.name}</p>
+                                            {channel.description && <p className="text-xs text-gray-400 line-clamp-2">{channel.description}</p>}
+                                        </div>
+                                    </div>
+                                )) : !isLoading && !error && (
+                                    <p className="text-center text-gray-500 pt-8">Busque um canal para importar seus vídeos mais recentes.</p>
+                                )}
+                            </div>
+                        )}
+                    </>
+                ) : mode === 'link' ? (
+                    <>
+                        <form onSubmit={handleResolveLink} className="relative flex-shrink-0 flex gap-2">
+                            <input
+                                type="url"
+                                value={linkUrl}
+                                onChange={e => setLinkUrl(e.target.value)}
+                                placeholder="Cole o link do YouTube, Vimeo, TikTok, Instagram ou de um arquivo MP4/HLS"
+                                className="flex-grow bg-gray-900 border border-gray-700 rounded-full py-2 px-4 text-white focus:ring-2 focus:ring-brand-red"
+                            />
+                            <button type="submit" className="flex items-center gap-2 bg-brand-red hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-full text-sm disabled:bg-gray-600" disabled={isLoading}>
+                                {isLoading ? 'Carregando...' : 'Buscar'}
+                            </button>
+                        </form>
+                        <div className="flex-grow overflow-y-auto mt-4 pr-2 space-y-2">
+                            {error && <p className="text-center text-red-400 p-4">{error}</p>}
+                            {linkResult ? (() => {
+                                const isAdded = existingVideoIds.has(linkResult.id);
+                                return (
+                                    <div className="flex items-center gap-4 p-2 rounded-lg bg-gray-800/50">
+                                        <img src={linkResult.thumbnailUrl} alt={linkResult.title} className="w-28 h-16 object-cover rounded flex-shrink-0" />
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-white line-clamp-2">{linkResult.title}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {platformLabels[linkResult.platform]}
+                                                {linkResult.durationSeconds > 0 && ` • ${formatSeconds(linkResult.durationSeconds)}`}
+                                            </p>
+                                            {formatVideoByline(linkResult) && <p className="text-xs text-gray-500 truncate">{formatVideoByline(linkResult)}</p>}
+                                        </div>
+                                        <button
+                                            onClick={() => handleAddSingleVideo(linkResult)}
+                                            disabled={isAdded}
+                                            className="ml-auto flex-shrink-0 flex items-center gap-2 bg-gray-700 hover:bg-brand-red text-white font-semibold py-2 px-3 rounded-md text-sm transition-colors disabled:bg-green-600 disabled:cursor-not-allowed"
+                                        >
+                                            <Icon name={isAdded ? "Check" : "Plus"} className="w-4 h-4" />
+                                            <span>{isAdded ? "Adicionado" : "Adicionar"}</span>
+                                        </button>
+                                    </div>
+                                );
+                            })() : !isLoading && !error && <p className="text-center text-gray-500 pt-8">Cole o link de um vídeo para adicioná-lo à trilha.</p>}
+                        </div>
+                    </>
                 ) : ( // Playlist mode
                      <>
                         <form onSubmit={handleImportPlaylistForm} className="relative flex-shrink-0 flex gap-2">
@@ -343,7 +632,8 @@ const AddVideoModal: React.FC<AddVideoModalProps> = ({ isOpen, onClose, onAddVid
                                      <img src={video.thumbnailUrl} alt={video.title} className="w-28 h-16 object-cover rounded flex-shrink-0" />
                                      <div className="min-w-0">
                                          <p className="text-sm font-semibold text-white line-clamp-2">{video.title}</p>
-                                         <p className="text-xs text-gray-400">{video.duration}</p>
+                                         <p className="text-xs text-gray-400">{formatSeconds(video.durationSeconds)}</p>
+                                         {formatVideoByline(video) && <p className="text-xs text-gray-500 truncate">{formatVideoByline(video)}</p>}
                                      </div>
                                  </div>
                              )) : !isLoading && !error && <p className="text-center text-gray-500 pt-8">Insira uma URL de playlist para importar vídeos.</p>}
@@ -2,17 +2,27 @@
 
 import React, { useState, useEffect } from 'react';
 import Icon from './Icons';
-import type { Song } from '../types';
-import { generateLiveStyles } from '../services/geminiService';
-import { uploadSong, setupPlaylistListener, deleteSong, formatSupabaseError, clearMeetingChat } from '../services/supabaseService';
+import type { ProviderHealth, Song, User, UserRole } from '../types';
+import { generateLiveStyles, getSearchProviderHealth } from '../services/geminiService';
+import { isProviderCoolingDown, resetProviderHealth } from '../services/providerHealth';
+import { uploadSong, setupPlaylistListener, deleteSong, formatSupabaseError, clearMeetingChat, getProfiles, updateUserRole } from '../services/supabaseService';
+import { hasPermission, roleLabels } from '../utils/permissions';
+import CategoryManager from './CategoryManager';
+import CatalogTransfer from './CatalogTransfer';
+import ImporterSettingsManager from './ImporterSettingsManager';
+import ImporterRunControl from './ImporterRunControl';
+import ImporterRunHistory from './ImporterRunHistory';
+import VideoCandidateQueue from './VideoCandidateQueue';
 
 
 interface AdminPanelProps {
     isOpen: boolean;
     onClose: () => void;
+    user: User;
+    onCategoriesChanged: () => void;
 }
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
+const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose, user, onCategoriesChanged }) => {
     const [prompt, setPrompt] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
@@ -24,7 +34,31 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
     const [songTitle, setSongTitle] = useState('');
     const [songArtist, setSongArtist] = useState('');
     const [isUploading, setIsUploading] = useState(false);
+
+    // Team states
+    const [teamMembers, setTeamMembers] = useState<User[]>([]);
+
+    // Search provider health
+    const [providerHealth, setProviderHealth] = useState<ProviderHealth[]>([]);
+
+    // Bumped after a manual importer run so the queue and history reload
+    const [importerRefreshKey, setImporterRefreshKey] = useState(0);
+
+    const canManageStyles = hasPermission(user, 'manage-styles');
+    const canManageMusic = hasPermission(user, 'manage-music');
+    const canManageRoles = hasPermission(user, 'manage-roles');
+    const canManageCategories = hasPermission(user, 'manage-categories');
+    const canClearChat = hasPermission(user, 'clear-meeting-chat');
     
+    useEffect(() => {
+        if (!isOpen || !canManageRoles) return;
+        getProfiles().then(setTeamMembers);
+    }, [isOpen, canManageRoles]);
+
+    useEffect(() => {
+        if (isOpen) setProviderHealth(getSearchProviderHealth());
+    }, [isOpen]);
+
     useEffect(() => {
         if (!isOpen) return; // Don't set up listener if the panel is not open
 
@@ -50,6 +84,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
     };
 
     const handleApplyStyles = async () => {
+        if (!canManageStyles) return;
         if (!prompt.trim()) {
             setError('O prompt não pode estar vazio.');
             return;
@@ -80,6 +115,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
     }
 
     const handleClearChat = async () => {
+        if (!canClearChat) return;
         if (window.confirm("Você tem certeza que deseja apagar TODAS as mensagens do chat da reunião? Esta ação é irreversível.")) {
             try {
                 await clearMeetingChat();
@@ -99,6 +135,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
     }
 
     const handleUploadSong = async () => {
+        if (!canManageMusic) return;
         if (!songFile || !songTitle || !songArtist) {
             setError("Por favor, preencha todos os campos da música.");
             return;
@@ -125,6 +162,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
     }
 
     const handleDeleteSong = async (song: Song) => {
+        if (!canManageMusic) return;
         if (window.confirm(`Tem certeza que deseja apagar a música "${song.title}"?`)) {
             try {
                 await deleteSong(song);
@@ -137,6 +175,42 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
         }
     }
 
+    const showMessage = (text: string) => {
+        setError('');
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const handleResetProviderHealth = () => {
+        resetProviderHealth();
+        setProviderHealth(getSearchProviderHealth());
+        showMessage('Estatísticas dos provedores foram zeradas.');
+    };
+
+    const describeProviderStatus = (health: ProviderHealth): { label: string; className: string } => {
+        if (isProviderCoolingDown(health)) {
+            const seconds = Math.ceil(((health.cooldownUntil ?? 0) - Date.now()) / 1000);
+            return { label: `Pausado (${seconds}s)`, className: 'text-red-400' };
+        }
+        if (health.successes + health.failures === 0) return { label: 'Não testado', className: 'text-gray-500' };
+        if (health.consecutiveFailures > 0) return { label: 'Instável', className: 'text-yellow-400' };
+        return { label: 'Saudável', className: 'text-green-400' };
+    };
+
+    const handleRoleChange = async (member: User, role: UserRole) => {
+        if (!canManageRoles || member.role === role) return;
+        setError('');
+        try {
+            await updateUserRole(member.id, role);
+            setTeamMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m));
+            setMessage(`${member.name} agora é ${roleLabels[role]}.`);
+            setTimeout(() => setMessage(''), 3000);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Falha ao alterar o papel.';
+            setError(errorMessage);
+        }
+    };
+
     if (!isOpen) {
         return null;
     }
@@ -158,6 +232,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                 {/* Content */}
                 <div className="space-y-6 overflow-y-auto pr-2">
                     {/* Style Editor */}
+                    {canManageStyles && (
                      <div>
                         <h4 className="text-lg font-display tracking-wider text-white mb-2">Editor de Estilo (IA)</h4>
                         <textarea
@@ -184,9 +259,11 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                             </button>
                         </div>
                     </div>
+                    )}
 
                     {/* Music Management */}
-                    <div className="border-t border-gray-800 pt-6 mt-6">
+                    {canManageMusic && (
+                    <div className={canManageStyles ? "border-t border-gray-800 pt-6 mt-6" : ""}>
                         <h4 className="text-lg font-display tracking-wider text-white mb-2">Gerenciamento de Músicas</h4>
                         <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-4 space-y-4">
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -212,11 +289,104 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                             ))}
                         </div>
                     </div>
+                    )}
+
+                    {/* Learning Tracks */}
+                    {canManageCategories && (
+                    <div className="border-t border-gray-800 pt-6 mt-6">
+                        <CategoryManager onChanged={onCategoriesChanged} onMessage={showMessage} onError={setError} />
+                    </div>
+                    )}
+
+                    {/* Catalog backup / restore */}
+                    {canManageCategories && (
+                    <div className="border-t border-gray-800 pt-6 mt-6">
+                        <CatalogTransfer onChanged={onCategoriesChanged} onMessage={showMessage} onError={setError} />
+                    </div>
+                    )}
+
+                    {/* Daily importer settings */}
+                    {canManageCategories && (
+                    <div className="border-t border-gray-800 pt-6 mt-6">
+                        <ImporterSettingsManager onMessage={showMessage} onError={setError} />
+                    </div>
+                    )}
+
+                    {/* Manual importer runs, imported videos awaiting review, and what each run did */}
+                    {canManageCategories && (
+                    <div className="border-t border-gray-800 pt-6 mt-6 space-y-6">
+                        <ImporterRunControl onRunFinished={() => setImporterRefreshKey(key => key + 1)} onMessage={showMessage} onError={setError} />
+                        <VideoCandidateQueue refreshKey={importerRefreshKey} onMessage={showMessage} onError={setError} />
+                        <ImporterRunHistory refreshKey={importerRefreshKey} onError={setError} />
+                    </div>
+                    )}
+
+                    {/* Team Roles */}
+                    {canManageRoles && (
+                    <div className="border-t border-gray-800 pt-6 mt-6">
+                        <h4 className="text-lg font-display tracking-wider text-white mb-2">Equipe e Permissões</h4>
+                        <div className="max-h-48 overflow-y-auto space-y-2">
+                            {teamMembers.map(member => (
+                                <div key={member.id} className="flex justify-between items-center bg-gray-800 p-2 rounded-md">
+                                    <p className="font-semibold text-sm">{member.name}{member.id === user.id && <span className="text-xs text-gray-400"> (você)</span>}</p>
+                                    <select
+                                        value={member.role}
+                                        onChange={e => handleRoleChange(member, e.target.value as UserRole)}
+                                        disabled={member.id === user.id}
+                                        className="bg-gray-900 border border-gray-700 rounded-md text-sm p-1.5 focus:ring-1 focus:ring-brand-red disabled:opacity-50"
+                                    >
+                                        {(Object.keys(roleLabels) as UserRole[]).map(role => (
+                                            <option key={role} value={role}>{roleLabels[role]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    )}
                     
+                    {/* Search Provider Health */}
+                    <div className="border-t border-gray-800 pt-6 mt-6">
+                        <div className="flex items-center justify-between mb-2">
+                            <h4 className="text-lg font-display tracking-wider text-white">Saúde dos Provedores de Busca</h4>
+                            <div className="flex gap-2">
+                                <button onClick={() => setProviderHealth(getSearchProviderHealth())} className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-800">Atualizar</button>
+                                <button onClick={handleResetProviderHealth} className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-800">Zerar</button>
+                            </div>
+                        </div>
+                        <div className="max-h-56 overflow-y-auto">
+                            <table className="w-full text-xs">
+                                <thead className="text-gray-500 text-left">
+                                    <tr>
+                                        <th className="py-1 font-semibold">Instância</th>
+                                        <th className="py-1 font-semibold">Status</th>
+                                        <th className="py-1 font-semibold text-right">Sucesso</th>
+                                        <th className="py-1 font-semibold text-right">Latência</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {providerHealth.map(health => {
+                                        const attempts = health.successes + health.failures;
+                                        const status = describeProviderStatus(health);
+                                        return (
+                                            <tr key={health.instance} className="border-t border-gray-800" title={health.lastError ?? undefined}>
+                                                <td className="py-1.5 text-gray-300 font-mono truncate max-w-[12rem]">{new URL(health.instance).hostname}</td>
+                                                <td className={`py-1.5 ${status.className}`}>{status.label}</td>
+                                                <td className="py-1.5 text-right text-gray-300">{attempts > 0 ? `${Math.round((health.successes / attempts) * 100)}% (${attempts})` : '—'}</td>
+                                                <td className="py-1.5 text-right text-gray-300">{health.avgLatencyMs !== null ? `${health.avgLatencyMs} ms` : '—'}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
                     {error && <p className="text-sm text-center text-red-400 mt-2">{error}</p>}
                     {message && <p className="text-sm text-center text-green-400 mt-2">{message}</p>}
 
                     {/* Dangerous Actions */}
+                    {canClearChat && (
                     <div className="border-t border-gray-800 pt-6 mt-6">
                         <h4 className="text-lg font-display tracking-wider text-red-500 mb-2">Ações Perigosas</h4>
                         <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4">
@@ -231,6 +401,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                             </button>
                         </div>
                     </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,174 @@
+// components/CatalogTransfer.tsx
+import React, { useState, useMemo } from 'react';
+import Icon from './Icons';
+import type { CatalogImportMode, LearningCatalogFile, LearningCategory } from '../types';
+import { getLearningCatalog, importLearningCatalog } from '../services/supabaseService';
+import { buildCatalogFile, diffCatalog, getCatalogFileName, parseCatalogFile } from '../utils/catalogTransfer';
+import type { CategoryDiff } from '../utils/catalogTransfer';
+
+interface CatalogTransferProps {
+    onChanged: () => void; // Lets the app reload the dashboard tracks
+    onMessage: (message: string) => void;
+    onError: (error: string) => void;
+}
+
+const statusLabels: Record<CategoryDiff['status'], { label: string; className: string }> = {
+    new: { label: 'Nova', className: 'bg-green-500/20 text-green-300' },
+    updated: { label: 'Alterada', className: 'bg-blue-500/20 text-blue-300' },
+    unchanged: { label: 'Vídeos', className: 'bg-gray-700 text-gray-300' },
+    archived: { label: 'Será arquivada', className: 'bg-yellow-500/20 text-yellow-300' },
+};
+
+const CatalogTransfer: React.FC<CatalogTransferProps> = ({ onChanged, onMessage, onError }) => {
+    const [isExporting, setIsExporting] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [pendingFile, setPendingFile] = useState<{ name: string; catalog: LearningCatalogFile } | null>(null);
+    const [currentCatalog, setCurrentCatalog] = useState<LearningCategory[] | null>(null);
+    const [mode, setMode] = useState<CatalogImportMode>('merge');
+
+    const diff = useMemo(
+        () => (pendingFile && currentCatalog ? diffCatalog(currentCatalog, pendingFile.catalog.categories, mode) : null),
+        [pendingFile, currentCatalog, mode]
+    );
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const catalog = buildCatalogFile(await getLearningCatalog());
+            const blob = new Blob([JSON.stringify(catalog, null, 2)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getCatalogFileName();
+            link.click();
+            URL.revokeObjectURL(url);
+            const videoCount = catalog.categories.reduce((sum, c) => sum + c.videos.length, 0);
+            onMessage(`Catálogo exportado: ${catalog.categories.length} trilhas e ${videoCount} vídeos.`);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao exportar o catálogo.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const catalog = parseCatalogFile(await file.text());
+            // Always diff against a fresh copy; the dashboard only holds the active tracks.
+            setCurrentCatalog(await getLearningCatalog());
+            setPendingFile({ name: file.name, catalog });
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao ler o arquivo do catálogo.');
+        }
+    };
+
+    const handleCancel = () => {
+        setPendingFile(null);
+        setCurrentCatalog(null);
+        setMode('merge');
+    };
+
+    const handleApply = async () => {
+        if (!pendingFile || !diff) return;
+        if (mode === 'replace' && diff.removedVideos > 0 &&
+            !window.confirm(`Substituir o catálogo vai remover ${diff.removedVideos} vídeo(s) que não estão no arquivo. Continuar?`)) return;
+
+        setIsImporting(true);
+        try {
+            await importLearningCatalog(pendingFile.catalog, mode);
+            onMessage(`Catálogo importado: ${diff.addedVideos} vídeo(s) adicionados, ${diff.updatedVideos} atualizados e ${diff.removedVideos} removidos.`);
+            handleCancel();
+            onChanged();
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao importar o catálogo.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-lg font-display tracking-wider text-white">Backup do Catálogo</h4>
+                {!pendingFile && (
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleExport} disabled={isExporting} className="flex items-center gap-1 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-1 px-3 rounded-md transition-colors disabled:opacity-50">
+                            <Icon name="Download" className="w-4 h-4" /> {isExporting ? 'Exportando...' : 'Exportar'}
+                        </button>
+                        <label className="flex items-center gap-1 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-1 px-3 rounded-md transition-colors cursor-pointer">
+                            <Icon name="Upload" className="w-4 h-4" /> Importar
+                            <input type="file" accept=".json,application/json" onChange={handleFileSelected} className="hidden" />
+                        </label>
+                    </div>
+                )}
+            </div>
+
+            {pendingFile && diff ? (
+                <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-4 space-y-4">
+                    <p className="text-sm text-gray-300">
+                        <span className="font-semibold text-white">{pendingFile.name}</span>
+                        {pendingFile.catalog.exportedAt && ` • exportado em ${new Date(pendingFile.catalog.exportedAt).toLocaleString('pt-BR')}`}
+                    </p>
+                    <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-gray-900">
+                        <button onClick={() => setMode('merge')} className={`py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === 'merge' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Mesclar</button>
+                        <button onClick={() => setMode('replace')} className={`py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === 'replace' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Substituir</button>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        {mode === 'merge'
+                            ? 'Adiciona e atualiza as trilhas e vídeos do arquivo. Nada que já existe é removido.'
+                            : 'Deixa o catálogo igual ao arquivo: vídeos fora dele são removidos e trilhas fora dele são arquivadas.'}
+                    </p>
+
+                    <div>
+                        <p className="text-sm font-semibold text-white mb-2">
+                            Simulação: +{diff.addedVideos} novos • {diff.updatedVideos} atualizados • −{diff.removedVideos} removidos
+                        </p>
+                        {diff.categories.length > 0 ? (
+                            <div className="max-h-56 overflow-y-auto space-y-2">
+                                {diff.categories.map(category => (
+                                    <div key={category.id} className="bg-gray-800 p-2 rounded-md text-sm">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <p className="font-semibold truncate">{category.title}</p>
+                                            <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${statusLabels[category.status].className}`}>{statusLabels[category.status].label}</span>
+                                        </div>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            {[
+                                                category.addedVideos.length > 0 && `+${category.addedVideos.length} vídeo(s)`,
+                                                category.updatedVideos.length > 0 && `${category.updatedVideos.length} atualizado(s)`,
+                                                category.removedVideos.length > 0 && `−${category.removedVideos.length} removido(s)`,
+                                                category.reordered && 'nova ordem',
+                                            ].filter(Boolean).join(' • ') || 'Só os dados da trilha mudam'}
+                                        </p>
+                                        {category.removedVideos.length > 0 && (
+                                            <p className="text-xs text-red-300/80 mt-1 line-clamp-2" title={category.removedVideos.map(v => v.title).join('\n')}>
+                                                Remove: {category.removedVideos.map(v => v.title).join(', ')}
+                                            </p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-xs text-gray-400">O catálogo já está igual ao arquivo. Nada será alterado.</p>
+                        )}
+                    </div>
+
+                    <div className="flex gap-4">
+                        <button onClick={handleApply} disabled={isImporting || diff.categories.length === 0} className="w-full bg-brand-red hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600">
+                            {isImporting ? 'Importando...' : 'Aplicar Importação'}
+                        </button>
+                        <button onClick={handleCancel} className="w-full sm:w-auto bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                            Cancelar
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-400">Exporte todas as trilhas e vídeos (com ordem e módulos) para um arquivo JSON, ou restaure um backup.</p>
+            )}
+        </div>
+    );
+};
+
+export default CatalogTransfer;
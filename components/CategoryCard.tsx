@@ -1,10 +1,13 @@
 import React from 'react';
 import type { LearningCategory } from '../types';
 import Icon from './Icons';
+import { formatRuntime, formatEstimatedCompletion } from '../utils/watchStats';
+import type { RuntimeStats } from '../utils/watchStats';
 
 interface CategoryCardProps {
     category: LearningCategory;
     progress: number;
+    stats: RuntimeStats;
     onClick: () => void;
     style?: React.CSSProperties;
 }
@@ -33,7 +36,7 @@ const progressColorMap = {
     rose: 'bg-rose-500',
 };
 
-const CategoryCard: React.FC<CategoryCardProps> = ({ category, progress, onClick, style }) => {
+const CategoryCard: React.FC<CategoryCardProps> = ({ category, progress, stats, onClick, style }) => {
     const { title, icon, color } = category;
     const colorClass = colorMap[color as ColorKey] || colorMap.red;
     const progressColorClass = progressColorMap[color as ColorKey] || progressColorMap.red;
@@ -56,6 +59,12 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, progress, onClick
                 <div className="w-full bg-black/30 rounded-full h-1.5">
                     <div className={`h-1.5 rounded-full ${progressColorClass} transition-all duration-500`} style={{ width: `${progress}%` }}></div>
                 </div>
+                {stats.totalSeconds > 0 && (
+                    <div className="mt-2 text-xs text-gray-400 space-y-0.5">
+                        <p>{formatRuntime(stats.totalSeconds)} no total • {stats.remainingSeconds > 0 ? `${formatRuntime(stats.remainingSeconds)} restantes` : 'concluída'}</p>
+                        {stats.estimatedCompletion && <p>Previsão de conclusão: {formatEstimatedCompletion(stats.estimatedCompletion)}</p>}
+                    </div>
+                )}
             </div>
             {/* Neon glow effect */}
             <div className="absolute -inset-px rounded-lg border-2 border-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" style={{ boxShadow: `0 0 15px var(--tw-shadow-color)` }}></div>
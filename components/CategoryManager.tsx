@@ -0,0 +1,209 @@
+// components/CategoryManager.tsx
+import React, { useState, useEffect } from 'react';
+import Icon from './Icons';
+import type { CategoryColor, IconName, LearningCategory } from '../types';
+import { getLearningCategories, createLearningCategory, updateLearningCategory, setLearningCategoryArchived } from '../services/supabaseService';
+
+interface CategoryManagerProps {
+    onChanged: () => void; // Lets the app reload the dashboard tracks
+    onMessage: (message: string) => void;
+    onError: (error: string) => void;
+}
+
+type CategoryDraft = Omit<LearningCategory, 'videos' | 'archived'>;
+
+const iconOptions: IconName[] = [
+    'Fire', 'Chart', 'Heart', 'Dollar', 'Cart', 'Wrench', 'Dumbbell', 'Brain', 'BookOpen',
+    'Film', 'Sparkles', 'UsersGroup', 'Gear', 'Search', 'Info', 'Play',
+];
+
+const colorSwatches: Record<CategoryColor, string> = {
+    red: 'bg-red-500',
+    orange: 'bg-orange-500',
+    green: 'bg-green-500',
+    cyan: 'bg-cyan-500',
+    blue: 'bg-blue-500',
+    indigo: 'bg-indigo-500',
+    yellow: 'bg-yellow-500',
+    rose: 'bg-rose-500',
+};
+
+const emptyDraft: CategoryDraft = { id: '', title: '', description: '', icon: 'BookOpen', color: 'red' };
+
+// "Inteligência Artificial" -> "inteligencia-artificial"
+const slugify = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ onChanged, onMessage, onError }) => {
+    const [tracks, setTracks] = useState<LearningCategory[]>([]);
+    const [draft, setDraft] = useState<CategoryDraft | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadTracks = async () => {
+        const data = await getLearningCategories();
+        if (data) setTracks(data);
+    };
+
+    useEffect(() => {
+        loadTracks();
+    }, []);
+
+    const startCreate = () => {
+        setDraft(emptyDraft);
+        setIsNew(true);
+    };
+
+    const startEdit = (track: LearningCategory) => {
+        setDraft({ id: track.id, title: track.title, description: track.description, icon: track.icon, color: track.color });
+        setIsNew(false);
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const title = draft.title.trim();
+        const id = isNew ? slugify(draft.id || title) : draft.id;
+        if (!title || !id) {
+            onError('Informe um título para a trilha.');
+            return;
+        }
+        if (isNew && tracks.some(t => t.id === id)) {
+            onError(`Já existe uma trilha com o identificador "${id}".`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const values = { ...draft, id, title, description: draft.description.trim() };
+            if (isNew) {
+                await createLearningCategory(values, tracks.length);
+            } else {
+                await updateLearningCategory(id, { title: values.title, description: values.description, icon: values.icon, color: values.color });
+            }
+            onMessage(isNew ? `Trilha "${title}" criada.` : `Trilha "${title}" atualizada.`);
+            setDraft(null);
+            await loadTracks();
+            onChanged();
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao salvar a trilha.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleArchived = async (track: LearningCategory) => {
+        const archiving = !track.archived;
+        if (archiving && !window.confirm(`Arquivar a trilha "${track.title}"? Ela deixará de aparecer no painel, mas os vídeos serão mantidos.`)) return;
+        try {
+            await setLearningCategoryArchived(track.id, archiving);
+            setTracks(prev => prev.map(t => (t.id === track.id ? { ...t, archived: archiving } : t)));
+            onMessage(archiving ? `Trilha "${track.title}" arquivada.` : `Trilha "${track.title}" restaurada.`);
+            onChanged();
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao arquivar a trilha.');
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-lg font-display tracking-wider text-white">Trilhas de Aprendizado</h4>
+                {!draft && (
+                    <button onClick={startCreate} className="flex items-center gap-1 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-1 px-3 rounded-md transition-colors">
+                        <Icon name="Plus" className="w-4 h-4" /> Nova trilha
+                    </button>
+                )}
+            </div>
+
+            {draft ? (
+                <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-4 space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} placeholder="Título da trilha" className="bg-gray-800 border border-gray-700 rounded-md p-2 text-white" />
+                        <input
+                            type="text"
+                            value={draft.id}
+                            onChange={e => setDraft({ ...draft, id: e.target.value })}
+                            disabled={!isNew}
+                            placeholder={slugify(draft.title) || 'identificador-da-trilha'}
+                            title="Identificador usado nas URLs e no banco; não pode ser alterado depois"
+                            className="bg-gray-800 border border-gray-700 rounded-md p-2 text-white font-mono text-sm disabled:opacity-50"
+                        />
+                    </div>
+                    <textarea rows={2} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} placeholder="Descrição" className="w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white" />
+                    <div>
+                        <p className="text-xs text-gray-400 mb-2">Ícone</p>
+                        <div className="flex flex-wrap gap-2">
+                            {iconOptions.map(iconName => (
+                                <button
+                                    key={iconName}
+                                    onClick={() => setDraft({ ...draft, icon: iconName })}
+                                    className={`p-2 rounded-md border transition-colors ${draft.icon === iconName ? 'border-brand-red bg-brand-red/20 text-white' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}
+                                    title={iconName}
+                                    aria-label={iconName}
+                                >
+                                    <Icon name={iconName} className="w-5 h-5" />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-xs text-gray-400 mb-2">Cor</p>
+                        <div className="flex flex-wrap gap-2">
+                            {(Object.keys(colorSwatches) as CategoryColor[]).map(color => (
+                                <button
+                                    key={color}
+                                    onClick={() => setDraft({ ...draft, color })}
+                                    className={`w-7 h-7 rounded-full ${colorSwatches[color]} ${draft.color === color ? 'ring-2 ring-offset-2 ring-offset-dark ring-white' : 'opacity-70 hover:opacity-100'}`}
+                                    title={color}
+                                    aria-label={color}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex gap-4">
+                        <button onClick={handleSave} disabled={isSaving} className="w-full bg-brand-red hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600">
+                            {isSaving ? 'Salvando...' : isNew ? 'Criar Trilha' : 'Salvar Alterações'}
+                        </button>
+                        <button onClick={() => setDraft(null)} className="w-full sm:w-auto bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                            Cancelar
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="max-h-56 overflow-y-auto space-y-2">
+                    {tracks.map(track => (
+                        <div key={track.id} className={`flex justify-between items-center bg-gray-800 p-2 rounded-md ${track.archived ? 'opacity-50' : ''}`}>
+                            <div className="flex items-center gap-3 min-w-0">
+                                <span className={`p-1.5 rounded-md ${colorSwatches[track.color] ?? colorSwatches.red}`}>
+                                    <Icon name={track.icon} className="w-4 h-4 text-white" />
+                                </span>
+                                <p className="font-semibold text-sm truncate">
+                                    {track.title}
+                                    {track.archived && <span className="text-xs text-gray-400"> (arquivada)</span>}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                <button onClick={() => startEdit(track)} className="p-2 text-gray-400 hover:text-white rounded-full" title="Editar trilha" aria-label="Editar trilha">
+                                    <Icon name="Pencil" className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => handleToggleArchived(track)}
+                                    className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-700"
+                                >
+                                    {track.archived ? 'Restaurar' : 'Arquivar'}
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CategoryManager;
@@ -1,6 +1,7 @@
 import React from 'react';
 import type { NextVideoInfo } from '../types';
 import Icon from './Icons';
+import { formatSeconds } from '../utils/durationUtils';
 
 interface ContinueLearningCardProps {
   nextVideoInfo: NextVideoInfo;
@@ -8,7 +9,8 @@ interface ContinueLearningCardProps {
 }
 
 const ContinueLearningCard: React.FC<ContinueLearningCardProps> = ({ nextVideoInfo, onClick }) => {
-  const { video, category } = nextVideoInfo;
+  const { video, category, progress } = nextVideoInfo;
+  const resumeAt = progress && !progress.watched ? progress.positionSeconds : 0;
 
   return (
     <div 
@@ -21,8 +23,13 @@ const ContinueLearningCard: React.FC<ContinueLearningCardProps> = ({ nextVideoIn
       </div>
       
       <div className="relative flex flex-col md:flex-row items-center gap-6 p-4 w-full">
-        <div className="flex-shrink-0 w-full md:w-1/3 aspect-video rounded-lg overflow-hidden shadow-lg">
+        <div className="relative flex-shrink-0 w-full md:w-1/3 aspect-video rounded-lg overflow-hidden shadow-lg">
            <img src={video.thumbnailUrl} alt={video.title} className="w-full h-full object-cover" />
+           {progress && progress.completionPercent > 0 && (
+             <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/50">
+               <div className="h-1 bg-brand-red" style={{ width: `${progress.completionPercent}%` }}></div>
+             </div>
+           )}
         </div>
         <div className="flex-grow">
           <p className="font-semibold text-xs uppercase tracking-wider text-brand-red mb-1">{category.title}</p>
@@ -32,6 +39,9 @@ const ContinueLearningCard: React.FC<ContinueLearningCardProps> = ({ nextVideoIn
               <Icon name="Play" className="w-5 h-5" />
               <span>Continuar</span>
             </button>
+            {resumeAt > 0 && (
+              <span className="text-xs text-gray-400">de {formatSeconds(resumeAt)} • {Math.round(progress!.completionPercent)}% assistido</span>
+            )}
           </div>
         </div>
       </div>
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import Icon from './Icons';
-import type { User, ProjectGenerationConfig } from '../types';
+import type { User, ProjectGenerationConfig, EbookAudienceLevel, EbookLanguage, EbookTone } from '../types';
+import {
+    DEFAULT_EBOOK_CHAPTERS, DEFAULT_WORDS_PER_CHAPTER, MAX_EBOOK_CHAPTERS, MAX_WORDS_PER_CHAPTER, MIN_EBOOK_CHAPTERS, MIN_WORDS_PER_CHAPTER,
+    ebookAudienceLevels, ebookLanguages, ebookTones, parseOutline,
+} from '../utils/ebookOptions';
 
 interface CreateProjectModalProps {
     isOpen: boolean;
@@ -11,25 +15,54 @@ interface CreateProjectModalProps {
 
 const CreateProjectModal: React.FC<CreateProjectModalProps> = ({ isOpen, onClose, onStartGeneration }) => {
     const [topic, setTopic] = useState('');
+    const [chapters, setChapters] = useState(String(DEFAULT_EBOOK_CHAPTERS));
+    const [wordsPerChapter, setWordsPerChapter] = useState(String(DEFAULT_WORDS_PER_CHAPTER));
+    const [tone, setTone] = useState<EbookTone>('didactic');
+    const [audience, setAudience] = useState<EbookAudienceLevel>('beginner');
+    const [language, setLanguage] = useState<EbookLanguage>('pt-BR');
+    const [outlineText, setOutlineText] = useState('');
     const [error, setError] = useState('');
     
     if (!isOpen) return null;
 
+    const outline = parseOutline(outlineText);
+
     const handleStart = (e: React.FormEvent) => {
         e.preventDefault();
         if (!topic.trim()) {
             setError('Por favor, insira um tópico para o projeto.');
             return;
         }
+        // An outline decides the chapter count on its own.
+        const chapterCount = outline.length > 0 ? outline.length : parseInt(chapters, 10);
+        if (!Number.isInteger(chapterCount) || chapterCount < MIN_EBOOK_CHAPTERS || chapterCount > MAX_EBOOK_CHAPTERS) {
+            setError(`O ebook deve ter entre ${MIN_EBOOK_CHAPTERS} e ${MAX_EBOOK_CHAPTERS} capítulos.`);
+            return;
+        }
+        const words = parseInt(wordsPerChapter, 10);
+        if (!Number.isInteger(words) || words < MIN_WORDS_PER_CHAPTER || words > MAX_WORDS_PER_CHAPTER) {
+            setError(`A extensão deve ficar entre ${MIN_WORDS_PER_CHAPTER} e ${MAX_WORDS_PER_CHAPTER} palavras por capítulo.`);
+            return;
+        }
         setError('');
-        onStartGeneration({ topic, chapters: 10 }); // Always generate a detailed ebook
+        onStartGeneration({
+            topic: topic.trim(),
+            chapters: chapterCount,
+            wordsPerChapter: words,
+            tone,
+            audience,
+            language,
+            outline: outline.length > 0 ? outline : undefined,
+        });
     }
 
+    const fieldClassName = "w-full bg-gray-900 border border-gray-700 rounded-md py-2 px-3 text-white focus:ring-2 focus:ring-brand-red focus:border-brand-red transition";
+
     return (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in" onClick={onClose}>
             <form 
                 onSubmit={handleStart}
-                className="bg-dark border border-gray-800 rounded-lg shadow-2xl w-full max-w-lg mx-4 p-8 flex flex-col" 
+                className="bg-dark border border-gray-800 rounded-lg shadow-2xl w-full max-w-lg mx-4 p-8 flex flex-col max-h-[90vh] overflow-y-auto" 
                 onClick={e => e.stopPropagation()}
             >
                 <div className="flex items-center gap-3 mb-4">
@@ -50,10 +83,67 @@ const CreateProjectModal: React.FC<CreateProjectModalProps> = ({ isOpen, onClose
                            className="w-full bg-gray-900 border border-gray-700 rounded-md py-2 px-4 text-white focus:ring-2 focus:ring-brand-red focus:border-brand-red transition"
                        />
                     </div>
-                </div>
-
-                <div className="text-xs text-gray-500 mt-4 p-3 bg-gray-900/50 rounded-md border border-gray-800">
-                    <strong>Nota:</strong> A IA agora criará um ebook mais completo, com 10 a 12 capítulos, para garantir um conteúdo mais aprofundado.
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="chapters" className="text-sm font-medium text-gray-300 block mb-2">Capítulos</label>
+                            <input
+                                id="chapters"
+                                type="number"
+                                min={MIN_EBOOK_CHAPTERS}
+                                max={MAX_EBOOK_CHAPTERS}
+                                value={outline.length > 0 ? outline.length : chapters}
+                                onChange={(e) => setChapters(e.target.value)}
+                                disabled={outline.length > 0}
+                                title={outline.length > 0 ? 'Definido pelo roteiro abaixo' : undefined}
+                                className={`${fieldClassName} disabled:opacity-50`}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="words" className="text-sm font-medium text-gray-300 block mb-2">Palavras por capítulo</label>
+                            <input
+                                id="words"
+                                type="number"
+                                min={MIN_WORDS_PER_CHAPTER}
+                                max={MAX_WORDS_PER_CHAPTER}
+                                step={100}
+                                value={wordsPerChapter}
+                                onChange={(e) => setWordsPerChapter(e.target.value)}
+                                className={fieldClassName}
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="tone" className="text-sm font-medium text-gray-300 block mb-2">Tom</label>
+                            <select id="tone" value={tone} onChange={(e) => setTone(e.target.value as EbookTone)} className={fieldClassName}>
+                                {(Object.keys(ebookTones) as EbookTone[]).map(key => <option key={key} value={key}>{ebookTones[key].label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="audience" className="text-sm font-medium text-gray-300 block mb-2">Nível</label>
+                            <select id="audience" value={audience} onChange={(e) => setAudience(e.target.value as EbookAudienceLevel)} className={fieldClassName}>
+                                {(Object.keys(ebookAudienceLevels) as EbookAudienceLevel[]).map(key => <option key={key} value={key}>{ebookAudienceLevels[key].label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="language" className="text-sm font-medium text-gray-300 block mb-2">Idioma</label>
+                            <select id="language" value={language} onChange={(e) => setLanguage(e.target.value as EbookLanguage)} className={fieldClassName}>
+                                {(Object.keys(ebookLanguages) as EbookLanguage[]).map(key => <option key={key} value={key}>{ebookLanguages[key].label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="outline" className="text-sm font-medium text-gray-300 block mb-2">Roteiro (opcional)</label>
+                        <textarea
+                            id="outline"
+                            rows={4}
+                            value={outlineText}
+                            onChange={(e) => setOutlineText(e.target.value)}
+                            placeholder={'Um título de capítulo por linha\nEx: Criando um perfil profissional'}
+                            className={fieldClassName}
+                        />
+                        {outline.length > 0 && <p className="text-xs text-gray-500 mt-1">A IA vai seguir estes {outline.length} capítulos, nesta ordem.</p>}
+                    </div>
                 </div>
 
                 {error && <p className="text-sm text-center text-red-400 mt-4">{error}</p>}
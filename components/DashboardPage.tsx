@@ -1,15 +1,21 @@
-import React from 'react';
-import type { User, LearningCategory, NextVideoInfo } from '../types';
+import React, { useMemo } from 'react';
+import type { User, LearningCategory, NextVideoInfo, VideoProgress, WatchDay } from '../types';
 import Icon from './Icons';
 import Avatar from './Avatar';
 import Section from './Section';
 import ContinueLearningCard from './ContinueLearningCard';
 import CategoryCard from './CategoryCard';
+import GlobalSearchBar from './GlobalSearchBar';
+import { hasPermission } from '../utils/permissions';
+import { getWatchPace, getRuntimeStats, formatRuntime, formatEstimatedCompletion } from '../utils/watchStats';
+import type { RuntimeStats } from '../utils/watchStats';
 
 interface DashboardPageProps {
   user: User;
   categories: LearningCategory[];
   watchedVideos: Set<string>;
+  videoProgress: Record<string, VideoProgress>;
+  watchDays: WatchDay[];
   nextVideoInfo: NextVideoInfo | null;
   onNavigate: (page: 'videos' | 'projects' | 'meeting', data?: any) => void;
   onLogout: () => void;
@@ -19,6 +25,36 @@ interface DashboardPageProps {
   nowPlaying: { title: string; artist: string } | null;
 }
 
+// Overall figures across every track
+const ProgressSummary: React.FC<{ stats: RuntimeStats; secondsPerDay: number }> = ({ stats, secondsPerDay }) => {
+    const items = [
+        { label: 'Vídeos concluídos', value: `${stats.watchedCount} de ${stats.totalCount}` },
+        { label: 'Duração total', value: formatRuntime(stats.totalSeconds) },
+        { label: 'Tempo restante', value: formatRuntime(stats.remainingSeconds) },
+        {
+            label: 'Previsão de conclusão',
+            value: stats.remainingSeconds === 0 ? 'Tudo concluído' : stats.estimatedCompletion ? formatEstimatedCompletion(stats.estimatedCompletion) : 'Sem ritmo recente',
+        },
+    ];
+    return (
+        <div>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {items.map(item => (
+                    <div key={item.label} className="bg-dark/50 border border-gray-800 rounded-lg p-4">
+                        <p className="text-xs uppercase tracking-wider text-gray-400">{item.label}</p>
+                        <p className="text-xl font-bold text-white mt-1">{item.value}</p>
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+                {secondsPerDay > 0
+                    ? `Estimativa baseada no seu ritmo das últimas duas semanas: cerca de ${formatRuntime(secondsPerDay)} por dia.`
+                    : 'Assista a alguns vídeos para calcularmos uma previsão de conclusão.'}
+            </p>
+        </div>
+    );
+};
+
 // Header as a sub-component
 const DashboardHeader: React.FC<Pick<DashboardPageProps, 'user' | 'onLogout' | 'onOpenProfile' | 'onOpenAdminPanel' | 'onOpenMusicPlayer' | 'nowPlaying'>> = ({ user, onLogout, onOpenProfile, onOpenAdminPanel, onOpenMusicPlayer, nowPlaying }) => {
     return (
@@ -39,9 +75,11 @@ const DashboardHeader: React.FC<Pick<DashboardPageProps, 'user' | 'onLogout' | '
                         </button>
                     </div>
                     <div className="flex items-center gap-4">
-                        <button onClick={onOpenAdminPanel} className="p-2 rounded-full hover:bg-gray-800 transition-colors" title="Modo Desenvolvedor">
-                           <Icon name="Gear" className="w-6 h-6" />
-                        </button>
+                        {hasPermission(user, 'open-admin-panel') && (
+                            <button onClick={onOpenAdminPanel} className="p-2 rounded-full hover:bg-gray-800 transition-colors" title="Modo Desenvolvedor">
+                               <Icon name="Gear" className="w-6 h-6" />
+                            </button>
+                        )}
                         <button onClick={onLogout} className="p-2 rounded-full hover:bg-gray-800 transition-colors" title="Sair">
                            <Icon name="X" className="w-6 h-6" />
                         </button>
@@ -55,7 +93,7 @@ const DashboardHeader: React.FC<Pick<DashboardPageProps, 'user' | 'onLogout' | '
     );
 };
 
-const DashboardPage: React.FC<DashboardPageProps> = ({ user, categories, watchedVideos, nextVideoInfo, onNavigate, onLogout, onOpenProfile, onOpenAdminPanel, onOpenMusicPlayer, nowPlaying }) => {
+const DashboardPage: React.FC<DashboardPageProps> = ({ user, categories, watchedVideos, videoProgress, watchDays, nextVideoInfo, onNavigate, onLogout, onOpenProfile, onOpenAdminPanel, onOpenMusicPlayer, nowPlaying }) => {
     
     const calculateCategoryProgress = (category: LearningCategory): number => {
         const totalVideos = category.videos.length;
@@ -63,6 +101,10 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user, categories, watched
         const watchedCount = category.videos.filter(v => watchedVideos.has(v.id)).length;
         return (watchedCount / totalVideos) * 100;
     };
+
+    const allVideos = useMemo(() => categories.flatMap(c => c.videos), [categories]);
+    const secondsPerDay = useMemo(() => getWatchPace(watchDays), [watchDays]);
+    const overallStats = useMemo(() => getRuntimeStats(allVideos, videoProgress, secondsPerDay), [allVideos, videoProgress, secondsPerDay]);
     
     return (
         <div className="min-h-screen bg-darker text-white font-sans">
@@ -70,6 +112,8 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user, categories, watched
 
             <main className="container mx-auto px-4 sm:px-6 py-8">
                 <h2 className="text-4xl font-display tracking-wider text-white mb-8">Bem-vindo, <span className="text-brand-red">{user.name}</span>.</h2>
+
+                <GlobalSearchBar categories={categories} onSelect={({ category, video }) => onNavigate('videos', { category, videoId: video.id })} />
                 
                 {nextVideoInfo && (
                     <Section title="Continue de Onde Parou">
@@ -77,6 +121,12 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user, categories, watched
                     </Section>
                 )}
                 
+                {overallStats.totalCount > 0 && (
+                    <Section title="Seu Progresso">
+                        <ProgressSummary stats={overallStats} secondsPerDay={secondsPerDay} />
+                    </Section>
+                )}
+
                 <Section title="Trilhas de Conhecimento">
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                         {categories.map((category, index) => (
@@ -84,6 +134,7 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user, categories, watched
                                 key={category.id}
                                 category={category}
                                 progress={calculateCategoryProgress(category)}
+                                stats={getRuntimeStats(category.videos, videoProgress, secondsPerDay)}
                                 onClick={() => onNavigate('videos', { category })}
                                 style={{ animationDelay: `${index * 50}ms` }}
                             />
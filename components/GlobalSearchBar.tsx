@@ -0,0 +1,103 @@
+// components/GlobalSearchBar.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import type { LearningCategory } from '../types';
+import Icon from './Icons';
+import { searchCatalog } from '../services/semanticSearch';
+import type { CatalogSearchResult } from '../services/semanticSearch';
+import { formatSeconds } from '../utils/durationUtils';
+
+interface GlobalSearchBarProps {
+    categories: LearningCategory[];
+    onSelect: (result: CatalogSearchResult) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+const GlobalSearchBar: React.FC<GlobalSearchBarProps> = ({ categories, onSelect }) => {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<CatalogSearchResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [isOpen, setIsOpen] = useState(false);
+    const latestSearchRef = useRef(0);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const trimmed = query.trim();
+        if (trimmed.length < 2) {
+            setResults([]);
+            setIsSearching(false);
+            return;
+        }
+        const searchId = ++latestSearchRef.current;
+        setIsSearching(true);
+        const timer = window.setTimeout(() => {
+            searchCatalog(trimmed, categories)
+                .then(found => {
+                    if (latestSearchRef.current === searchId) setResults(found);
+                })
+                .catch(e => console.error("Catalog search failed:", e))
+                .finally(() => {
+                    if (latestSearchRef.current === searchId) setIsSearching(false);
+                });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [query, categories]);
+
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const handleSelect = (result: CatalogSearchResult) => {
+        setIsOpen(false);
+        setQuery('');
+        onSelect(result);
+    };
+
+    const showDropdown = isOpen && query.trim().length >= 2;
+
+    return (
+        <div ref={containerRef} className="relative mb-10">
+            <Icon name="Search" className="w-5 h-5 text-gray-500 absolute left-4 top-1/2 -translate-y-1/2 pointer-events-none" />
+            <input
+                type="search"
+                value={query}
+                onChange={e => { setQuery(e.target.value); setIsOpen(true); }}
+                onFocus={() => setIsOpen(true)}
+                onKeyDown={e => {
+                    if (e.key === 'Escape') setIsOpen(false);
+                    if (e.key === 'Enter' && results[0]) handleSelect(results[0]);
+                }}
+                placeholder="Busque por assunto em todas as trilhas..."
+                className="w-full bg-dark/60 border border-gray-800 rounded-full py-3 pl-12 pr-4 text-white placeholder-gray-500 focus:ring-2 focus:ring-brand-red focus:border-transparent"
+            />
+            {showDropdown && (
+                <div className="absolute left-0 right-0 mt-2 bg-dark border border-gray-800 rounded-lg shadow-2xl z-20 max-h-96 overflow-y-auto p-2">
+                    {results.length > 0 ? results.map(result => (
+                        <button
+                            key={result.video.id}
+                            onClick={() => handleSelect(result)}
+                            className="w-full flex items-center gap-3 p-2 rounded-md text-left hover:bg-gray-800 transition-colors"
+                        >
+                            <img src={result.video.thumbnailUrl} alt="" className="w-20 aspect-video object-cover rounded flex-shrink-0" />
+                            <div className="min-w-0">
+                                <p className="text-sm font-semibold text-white line-clamp-2">{result.video.title}</p>
+                                <p className="text-xs text-gray-400">
+                                    {result.category.title}
+                                    {result.video.durationSeconds > 0 && ` • ${formatSeconds(result.video.durationSeconds)}`}
+                                </p>
+                            </div>
+                        </button>
+                    )) : (
+                        <p className="text-sm text-gray-500 p-2">{isSearching ? 'Buscando...' : 'Nenhum vídeo encontrado.'}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GlobalSearchBar;
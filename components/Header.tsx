@@ -75,7 +75,8 @@ const MeetingPage: React.FC<MeetingPageProps> = ({
         }, 2000);
     };
 
-    const isCurrentUser = (messageUser: string) => user.name === messageUser;
+    // Messages sent before accounts existed have no userId until the sender's profile claims them by name.
+    const isCurrentUser = (msg: MeetingMessage) => (msg.userId ? msg.userId === user.id : msg.user === user.name);
     
     const typingNames = Array.from(typingUsers).filter(name => name !== user.name);
 
@@ -101,7 +102,7 @@ const MeetingPage: React.FC<MeetingPageProps> = ({
                                         {onlineUsers.length} online
                                         <div className="flex items-center -space-x-2 ml-2">
                                             {onlineUsers.map(onlineUser => (
-                                                <Avatar key={onlineUser.name} src={onlineUser.avatarUrl} name={onlineUser.name} size="sm" className="border-2 border-dark" />
+                                                <Avatar key={onlineUser.id} src={onlineUser.avatarUrl} name={onlineUser.name} size="sm" className="border-2 border-dark" />
                                             ))}
                                         </div>
                                     </div>
@@ -137,15 +138,15 @@ const MeetingPage: React.FC<MeetingPageProps> = ({
                     ) : (
                         <>
                             {messages.map((msg) => (
-                                <div key={msg.id} className={`flex items-end gap-2 animate-message-in ${isCurrentUser(msg.user) ? 'justify-end' : 'justify-start'}`}>
-                                    {!isCurrentUser(msg.user) && (
+                                <div key={msg.id} className={`flex items-end gap-2 animate-message-in ${isCurrentUser(msg) ? 'justify-end' : 'justify-start'}`}>
+                                    {!isCurrentUser(msg) && (
                                         <Avatar src={msg.avatarUrl} name={msg.user} size="sm" className="self-end" />
                                     )}
                                     <div className={`max-w-[70%]`}>
-                                        {!isCurrentUser(msg.user) && (
+                                        {!isCurrentUser(msg) && (
                                              <p className="text-xs text-gray-400 mb-1 ml-2">{msg.user}</p>
                                         )}
-                                        <div className={`p-3 rounded-xl ${isCurrentUser(msg.user) ? 'bg-brand-red text-white rounded-br-none' : 'bg-gray-800 text-gray-200 rounded-bl-none'}`}>
+                                        <div className={`p-3 rounded-xl ${isCurrentUser(msg) ? 'bg-brand-red text-white rounded-br-none' : 'bg-gray-800 text-gray-200 rounded-bl-none'}`}>
                                             <p className="text-sm" style={{ whiteSpace: 'pre-wrap' }}>{msg.text}</p>
                                         </div>
                                     </div>
@@ -0,0 +1,100 @@
+// components/ImporterRunControl.tsx
+import React, { useState, useEffect } from 'react';
+import Icon from './Icons';
+import type { ImporterRunResult } from '../types';
+import { getLearningCategories, runDailyImporter } from '../services/supabaseService';
+import { formatSeconds } from '../utils/durationUtils';
+import { formatVideoByline } from '../utils/videoMetadata';
+
+interface ImporterRunControlProps {
+    onRunFinished: () => void; // Lets the panel reload the review queue and run history
+    onMessage: (message: string) => void;
+    onError: (error: string) => void;
+}
+
+const ImporterRunControl: React.FC<ImporterRunControlProps> = ({ onRunFinished, onMessage, onError }) => {
+    const [runningMode, setRunningMode] = useState<'run' | 'dry-run' | null>(null);
+    const [preview, setPreview] = useState<ImporterRunResult | null>(null);
+    const [trackTitles, setTrackTitles] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        getLearningCategories().then(categories => {
+            setTrackTitles(Object.fromEntries((categories ?? []).map(c => [c.id, c.title])));
+        });
+    }, []);
+
+    const handleRun = async (dryRun: boolean) => {
+        if (!dryRun && !window.confirm('Executar o importador agora? Os vídeos encontrados vão para a fila de revisão.')) return;
+        setRunningMode(dryRun ? 'dry-run' : 'run');
+        setPreview(null);
+        try {
+            const result = await runDailyImporter(dryRun);
+            const failedQueries = result.queries.filter(q => q.error).length;
+            const failures = failedQueries > 0 ? ` ${failedQueries} busca(s) falharam.` : '';
+            if (dryRun) {
+                setPreview(result);
+                onMessage(`Simulação concluída: ${result.candidates.length} vídeo(s) seriam enviados para revisão.${failures}`);
+            } else {
+                onMessage(`Importador executado: ${result.candidates.length} vídeo(s) enviados para revisão.${failures}`);
+                onRunFinished();
+            }
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao executar o importador.');
+            if (!dryRun) onRunFinished(); // A failed run is still logged
+        } finally {
+            setRunningMode(null);
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-lg font-display tracking-wider text-white">Executar Importador</h4>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => handleRun(true)} disabled={runningMode !== null} className="flex items-center gap-1 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-1 px-3 rounded-md transition-colors disabled:opacity-50">
+                        <Icon name="Search" className="w-4 h-4" /> {runningMode === 'dry-run' ? 'Simulando...' : 'Simular'}
+                    </button>
+                    <button onClick={() => handleRun(false)} disabled={runningMode !== null} className="flex items-center gap-1 text-sm bg-brand-red hover:bg-red-700 text-white font-semibold py-1 px-3 rounded-md transition-colors disabled:opacity-50">
+                        <Icon name="Play" className="w-4 h-4" /> {runningMode === 'run' ? 'Executando...' : 'Executar agora'}
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-gray-400">
+                O importador roda todo dia às 03:00 (horário de Brasília). A simulação mostra o que seria encontrado sem gravar nada.
+                {runningMode && ' Isso pode levar alguns minutos.'}
+            </p>
+
+            {preview && (
+                <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-4 mt-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm font-semibold text-white">Simulação: {preview.candidates.length} vídeo(s) em {preview.queries.length} busca(s)</p>
+                        <button onClick={() => setPreview(null)} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="Fechar simulação">
+                            <Icon name="X" className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="max-h-72 overflow-y-auto space-y-2">
+                        {preview.candidates.map(({ categoryId, query, video }) => (
+                            <div key={`${categoryId}:${video.id}`} className="flex items-center gap-3 bg-gray-800 p-2 rounded-md">
+                                <img src={video.thumbnailUrl} alt="" className="w-20 aspect-video object-cover rounded flex-shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold line-clamp-2">{video.title}</p>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        {trackTitles[categoryId] ?? categoryId}
+                                        {video.durationSeconds > 0 && ` • ${formatSeconds(video.durationSeconds)}`}
+                                        {formatVideoByline(video) && ` • ${formatVideoByline(video)}`}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">Busca: "{query}"</p>
+                                </div>
+                            </div>
+                        ))}
+                        {preview.queries.filter(q => q.error).map((q, i) => (
+                            <p key={i} className="text-xs text-red-300">"{q.query}": {q.error}</p>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImporterRunControl;
@@ -0,0 +1,98 @@
+// components/ImporterRunHistory.tsx
+import React, { useState, useEffect } from 'react';
+import type { ImporterRun } from '../types';
+import { getImporterRuns } from '../services/supabaseService';
+
+interface ImporterRunHistoryProps {
+    refreshKey: number; // Changes after a manual importer run
+    onError: (error: string) => void;
+}
+
+const statusLabels: Record<ImporterRun['status'], { label: string; className: string }> = {
+    running: { label: 'Em andamento', className: 'bg-blue-500/20 text-blue-300' },
+    succeeded: { label: 'Concluída', className: 'bg-green-500/20 text-green-300' },
+    failed: { label: 'Falhou', className: 'bg-red-500/20 text-red-300' },
+};
+
+// "https://yewtu.be" -> "yewtu.be"
+const formatProvider = (instance: string | null): string => {
+    if (!instance) return 'nenhum provedor';
+    try {
+        return new URL(instance).host;
+    } catch {
+        return instance;
+    }
+};
+
+const ImporterRunHistory: React.FC<ImporterRunHistoryProps> = ({ refreshKey, onError }) => {
+    const [runs, setRuns] = useState<ImporterRun[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+
+    const loadRuns = async () => {
+        setIsLoading(true);
+        try {
+            setRuns(await getImporterRuns());
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao carregar o histórico do importador.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadRuns();
+    }, [refreshKey]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-lg font-display tracking-wider text-white">Histórico do Importador</h4>
+                <button onClick={loadRuns} disabled={isLoading} className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-700 disabled:opacity-50">
+                    {isLoading ? 'Carregando...' : 'Atualizar'}
+                </button>
+            </div>
+
+            {runs.length === 0 ? (
+                <p className="text-xs text-gray-400">{isLoading ? 'Carregando...' : 'O importador ainda não foi executado.'}</p>
+            ) : (
+                <div className="max-h-72 overflow-y-auto space-y-2">
+                    {runs.map(run => {
+                        const isExpanded = expandedRunId === run.id;
+                        const failedQueries = run.queries.filter(q => q.error).length;
+                        return (
+                            <div key={run.id} className="bg-gray-800 rounded-md text-sm">
+                                <button onClick={() => setExpandedRunId(isExpanded ? null : run.id)} className="w-full flex items-center justify-between gap-2 p-2 text-left">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold">{new Date(run.startedAt).toLocaleString('pt-BR')}</p>
+                                        <p className="text-xs text-gray-400">
+                                            {run.queries.length} busca(s) • {run.foundCount} encontrados • {run.insertedCount} na fila
+                                            {failedQueries > 0 && <span className="text-red-300"> • {failedQueries} com erro</span>}
+                                        </p>
+                                    </div>
+                                    <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${statusLabels[run.status].className}`}>{statusLabels[run.status].label}</span>
+                                </button>
+                                {isExpanded && (
+                                    <div className="border-t border-gray-700 p-2 space-y-1">
+                                        {run.error && <p className="text-xs text-red-300">{run.error}</p>}
+                                        {run.queries.map((query, i) => (
+                                            <div key={i} className="text-xs">
+                                                <p className="text-gray-300 truncate" title={query.query}>"{query.query}"</p>
+                                                <p className={query.error ? 'text-red-300' : 'text-gray-500'}>
+                                                    {query.error ?? `${formatProvider(query.provider)} • ${query.foundCount} encontrados • ${query.insertedCount} na fila`}
+                                                </p>
+                                            </div>
+                                        ))}
+                                        {run.queries.length === 0 && !run.error && <p className="text-xs text-gray-500">Nenhuma busca registrada.</p>}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImporterRunHistory;
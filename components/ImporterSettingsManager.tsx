@@ -0,0 +1,165 @@
+// components/ImporterSettingsManager.tsx
+import React, { useState, useEffect } from 'react';
+import type { ImporterSettings, LearningCategory } from '../types';
+import { getImporterSettings, getLearningCategories, saveImporterSettings } from '../services/supabaseService';
+import { DEFAULT_SEARCH_QUERY, MAX_NEW_VIDEOS_LIMIT, getDefaultImporterSettings, getSearchQueries } from '../supabase/functions/_shared/importerSettings';
+
+interface ImporterSettingsManagerProps {
+    onMessage: (message: string) => void;
+    onError: (error: string) => void;
+}
+
+// The form keeps raw text so half-typed values don't get reformatted under the cursor.
+interface SettingsDraft {
+    searchQueries: string; // One per line
+    maxNewVideos: string;
+    minDurationMinutes: string;
+    maxDurationMinutes: string;
+    blockedChannels: string; // One per line
+    requiredKeywords: string; // Comma-separated
+}
+
+const toDraft = (settings: ImporterSettings): SettingsDraft => ({
+    searchQueries: settings.searchQueries.join('\n'),
+    maxNewVideos: String(settings.maxNewVideos),
+    minDurationMinutes: settings.minDurationSeconds !== null ? String(settings.minDurationSeconds / 60) : '',
+    maxDurationMinutes: settings.maxDurationSeconds !== null ? String(settings.maxDurationSeconds / 60) : '',
+    blockedChannels: settings.blockedChannels.join('\n'),
+    requiredKeywords: settings.requiredKeywords.join(', '),
+});
+
+const splitList = (text: string, separator: RegExp): string[] =>
+    [...new Set(text.split(separator).map(item => item.trim()).filter(Boolean))];
+
+const parseMinutes = (text: string): number | null => {
+    const minutes = parseFloat(text.replace(',', '.'));
+    return text.trim() && isFinite(minutes) && minutes >= 0 ? Math.round(minutes * 60) : null;
+};
+
+// Throws with a user-facing message when the draft can't be saved.
+const fromDraft = (categoryId: string, draft: SettingsDraft): ImporterSettings => {
+    const maxNewVideos = parseInt(draft.maxNewVideos, 10);
+    if (!Number.isInteger(maxNewVideos) || maxNewVideos < 0 || maxNewVideos > MAX_NEW_VIDEOS_LIMIT) {
+        throw new Error(`O máximo de vídeos por execução deve ficar entre 0 e ${MAX_NEW_VIDEOS_LIMIT}.`);
+    }
+    const minDurationSeconds = parseMinutes(draft.minDurationMinutes);
+    const maxDurationSeconds = parseMinutes(draft.maxDurationMinutes);
+    if (minDurationSeconds !== null && maxDurationSeconds !== null && minDurationSeconds > maxDurationSeconds) {
+        throw new Error('A duração mínima não pode ser maior que a máxima.');
+    }
+    return {
+        categoryId,
+        searchQueries: splitList(draft.searchQueries, /\n/),
+        maxNewVideos,
+        minDurationSeconds,
+        maxDurationSeconds,
+        blockedChannels: splitList(draft.blockedChannels, /\n/),
+        requiredKeywords: splitList(draft.requiredKeywords, /[,\n]/),
+    };
+};
+
+const inputClassName = 'w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white text-sm';
+
+const ImporterSettingsManager: React.FC<ImporterSettingsManagerProps> = ({ onMessage, onError }) => {
+    const [tracks, setTracks] = useState<LearningCategory[]>([]);
+    const [savedSettings, setSavedSettings] = useState<Record<string, ImporterSettings>>({});
+    const [selectedId, setSelectedId] = useState('');
+    const [draft, setDraft] = useState<SettingsDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        Promise.all([getLearningCategories(), getImporterSettings()])
+            .then(([categories, settings]) => {
+                setTracks((categories ?? []).filter(c => !c.archived)); // The importer skips archived tracks
+                setSavedSettings(settings);
+            })
+            .catch(err => onError(err instanceof Error ? err.message : 'Falha ao carregar as configurações do importador.'));
+    }, []);
+
+    const selectTrack = (categoryId: string) => {
+        setSelectedId(categoryId);
+        setDraft(categoryId ? toDraft(savedSettings[categoryId] ?? getDefaultImporterSettings(categoryId)) : null);
+    };
+
+    const handleSave = async () => {
+        if (!draft || !selectedId) return;
+        setIsSaving(true);
+        try {
+            const settings = fromDraft(selectedId, draft);
+            await saveImporterSettings(settings);
+            setSavedSettings(prev => ({ ...prev, [selectedId]: settings }));
+            setDraft(toDraft(settings));
+            onMessage(`Configurações do importador salvas para "${tracks.find(t => t.id === selectedId)?.title ?? selectedId}".`);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao salvar as configurações do importador.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const selectedTrack = tracks.find(t => t.id === selectedId);
+    const previewQueries = draft && selectedTrack
+        ? getSearchQueries({ ...getDefaultImporterSettings(selectedId), searchQueries: splitList(draft.searchQueries, /\n/) }, selectedTrack.title)
+        : [];
+
+    return (
+        <div>
+            <h4 className="text-lg font-display tracking-wider text-white mb-2">Importador Diário</h4>
+            <select value={selectedId} onChange={e => selectTrack(e.target.value)} className={`${inputClassName} mb-3`}>
+                <option value="">Escolha uma trilha...</option>
+                {tracks.map(track => (
+                    <option key={track.id} value={track.id}>
+                        {track.title}{savedSettings[track.id] ? '' : ' (padrão)'}
+                    </option>
+                ))}
+            </select>
+
+            {draft ? (
+                <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-4 space-y-4">
+                    <label className="block">
+                        <span className="text-xs text-gray-400">Buscas (uma por linha; use {'{categoria}'} e {'{ano}'})</span>
+                        <textarea rows={3} value={draft.searchQueries} onChange={e => setDraft({ ...draft, searchQueries: e.target.value })} placeholder={DEFAULT_SEARCH_QUERY} className={`${inputClassName} mt-1 font-mono`} />
+                        <span className="text-xs text-gray-500">Vai buscar: {previewQueries.map(q => `"${q}"`).join(', ')}</span>
+                    </label>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <label className="block">
+                            <span className="text-xs text-gray-400">Novos vídeos por execução</span>
+                            <input type="number" min={0} max={MAX_NEW_VIDEOS_LIMIT} value={draft.maxNewVideos} onChange={e => setDraft({ ...draft, maxNewVideos: e.target.value })} className={`${inputClassName} mt-1`} />
+                        </label>
+                        <label className="block">
+                            <span className="text-xs text-gray-400">Duração mínima (min)</span>
+                            <input type="number" min={0} step="any" value={draft.minDurationMinutes} onChange={e => setDraft({ ...draft, minDurationMinutes: e.target.value })} placeholder="Sem limite" className={`${inputClassName} mt-1`} />
+                        </label>
+                        <label className="block">
+                            <span className="text-xs text-gray-400">Duração máxima (min)</span>
+                            <input type="number" min={0} step="any" value={draft.maxDurationMinutes} onChange={e => setDraft({ ...draft, maxDurationMinutes: e.target.value })} placeholder="Sem limite" className={`${inputClassName} mt-1`} />
+                        </label>
+                    </div>
+                    <label className="block">
+                        <span className="text-xs text-gray-400">Canais bloqueados (um por linha)</span>
+                        <textarea rows={2} value={draft.blockedChannels} onChange={e => setDraft({ ...draft, blockedChannels: e.target.value })} className={`${inputClassName} mt-1`} />
+                    </label>
+                    <label className="block">
+                        <span className="text-xs text-gray-400">Palavras-chave no título (separadas por vírgula; basta uma)</span>
+                        <input type="text" value={draft.requiredKeywords} onChange={e => setDraft({ ...draft, requiredKeywords: e.target.value })} placeholder="Qualquer título" className={`${inputClassName} mt-1`} />
+                    </label>
+                    {(draft.minDurationMinutes.trim() || draft.maxDurationMinutes.trim()) && (
+                        <p className="text-xs text-gray-500">Vídeos sem duração conhecida (como transmissões ao vivo) são ignorados quando há limite de duração.</p>
+                    )}
+                    <div className="flex gap-4">
+                        <button onClick={handleSave} disabled={isSaving} className="w-full bg-brand-red hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600">
+                            {isSaving ? 'Salvando...' : 'Salvar Configurações'}
+                        </button>
+                        <button onClick={() => selectTrack('')} className="w-full sm:w-auto bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                            Cancelar
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-400">Defina por trilha as buscas, a quantidade de vídeos e os filtros que o importador diário usa.</p>
+            )}
+        </div>
+    );
+};
+
+export default ImporterSettingsManager;
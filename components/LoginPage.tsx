@@ -1,34 +1,66 @@
 import React, { useState } from 'react';
-import { users } from '../data';
-import type { User } from '../types';
-import Icon from './Icons';
+import { signInWithPassword, sendMagicLink, signUp } from '../services/supabaseService';
 
-interface LoginPageProps {
-    onLogin: (user: User) => void;
-}
+type AuthMode = 'password' | 'magic-link' | 'signup';
 
-const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
-    const [selectedUser, setSelectedUser] = useState<string>(users[0].name);
+const LoginPage: React.FC = () => {
+    const [mode, setMode] = useState<AuthMode>('password');
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const switchMode = (newMode: AuthMode) => {
+        setMode(newMode);
+        setError('');
+        setMessage('');
+        setPassword('');
+    };
+
+    // A successful sign-in is picked up by the auth listener in App.tsx, so there's nothing to hand back here.
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        const user = users.find(u => u.name === selectedUser);
-        if (user && user.password === password) {
-            setError('');
-            onLogin(user);
-        } else {
-            setError('ACESSO NEGADO: Senha inválida.');
+        setIsLoading(true);
+        setError('');
+        setMessage('');
+        try {
+            if (mode === 'password') {
+                await signInWithPassword(email.trim(), password);
+            } else if (mode === 'magic-link') {
+                await sendMagicLink(email.trim());
+                setMessage('Link de acesso enviado. Verifique seu e-mail.');
+            } else {
+                if (!name.trim()) {
+                    setError('Informe seu nome de agente.');
+                    return;
+                }
+                const createdUser = await signUp(name.trim(), email.trim(), password);
+                if (!createdUser) {
+                    setMessage('Conta criada! Confirme seu e-mail para ativar o acesso.');
+                }
+            }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Falha na autenticação.';
+            setError(`ACESSO NEGADO: ${errorMessage}`);
+        } finally {
+            setIsLoading(false);
         }
     };
-    
+
     const clearSession = () => {
         localStorage.clear();
         sessionStorage.clear();
         window.location.reload();
     }
 
+    const submitLabel = mode === 'password'
+        ? '[ EXECUTAR LOGIN ]'
+        : mode === 'magic-link'
+            ? '[ ENVIAR LINK DE ACESSO ]'
+            : '[ CRIAR CONTA ]';
+
     return (
         <div className="min-h-screen bg-darker flex items-center justify-center font-mono p-4">
             <div className="w-full max-w-lg mx-auto">
@@ -40,53 +72,74 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                         <p className="text-brand-red mt-2 animate-fade-in" style={{ animationDelay: '0.5s' }}>// AUTENTICAÇÃO NECESSÁRIA</p>
                     </div>
 
+                    <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-gray-900 mb-6 animate-fade-in" style={{ animationDelay: '0.8s' }}>
+                        <button type="button" onClick={() => switchMode('password')} className={`py-1.5 text-xs font-semibold rounded-md transition-colors ${mode === 'password' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Senha</button>
+                        <button type="button" onClick={() => switchMode('magic-link')} className={`py-1.5 text-xs font-semibold rounded-md transition-colors ${mode === 'magic-link' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Link Mágico</button>
+                        <button type="button" onClick={() => switchMode('signup')} className={`py-1.5 text-xs font-semibold rounded-md transition-colors ${mode === 'signup' ? 'text-white bg-brand-red' : 'text-gray-400 hover:bg-gray-800'}`}>Criar Conta</button>
+                    </div>
+
                     <form onSubmit={handleSubmit} className="space-y-6 animate-fade-in" style={{ animationDelay: '0.8s' }}>
-                        <div>
-                            <label htmlFor="user" className="text-sm font-medium text-gray-400 flex items-center">
-                                <span className="text-brand-red mr-2">&gt;</span> Selecionar Agente:
-                            </label>
-                            <div className="relative mt-2">
-                                <select
-                                    id="user"
-                                    value={selectedUser}
-                                    onChange={(e) => setSelectedUser(e.target.value)}
-                                    className="w-full appearance-none pl-4 pr-10 py-2 bg-dark/80 border border-gray-700 rounded-md text-white focus:ring-1 focus:ring-brand-red focus:border-brand-red transition"
-                                >
-                                    {users.map(user => (
-                                        <option key={user.name} value={user.name}>{user.name}</option>
-                                    ))}
-                                </select>
-                                <Icon name="ChevronLeft" className="w-5 h-5 text-gray-500 absolute right-3 top-1/2 -translate-y-1/2 transform rotate-[-90deg] pointer-events-none" />
-                            </div>
-                        </div>
-                        <div>
-                            <label htmlFor="password-input" className="text-sm font-medium text-gray-400 flex items-center">
-                                <span className="text-brand-red mr-2">&gt;</span> Inserir Senha (4 dígitos):
-                            </label>
-                            <div className="relative mt-2">
+                        {mode === 'signup' && (
+                            <div>
+                                <label htmlFor="name-input" className="text-sm font-medium text-gray-400 flex items-center">
+                                    <span className="text-brand-red mr-2">&gt;</span> Nome do Agente:
+                                </label>
                                 <input
-                                    id="password-input"
-                                    type="password"
-                                    value={password}
-                                    onChange={(e) => setPassword(e.target.value)}
-                                    maxLength={4}
-                                    pattern="[0-9]{4}"
-                                    title="A senha deve conter 4 dígitos numéricos."
+                                    id="name-input"
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
                                     required
-                                    className="w-full p-2 bg-dark/80 border border-gray-700 rounded-md text-center text-2xl tracking-[0.5em] focus:ring-1 focus:ring-brand-red focus:border-brand-red transition font-mono"
-                                    placeholder="----"
+                                    className="w-full mt-2 p-2 bg-dark/80 border border-gray-700 rounded-md text-white focus:ring-1 focus:ring-brand-red focus:border-brand-red transition"
+                                    placeholder="Seu nome"
                                 />
-                                <span className="absolute right-3 top-1/2 -translate-y-1/2 h-6 w-1 bg-brand-red animate-blinking-cursor"></span>
                             </div>
+                        )}
+                        <div>
+                            <label htmlFor="email-input" className="text-sm font-medium text-gray-400 flex items-center">
+                                <span className="text-brand-red mr-2">&gt;</span> E-mail:
+                            </label>
+                            <input
+                                id="email-input"
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                required
+                                autoComplete="email"
+                                className="w-full mt-2 p-2 bg-dark/80 border border-gray-700 rounded-md text-white focus:ring-1 focus:ring-brand-red focus:border-brand-red transition"
+                                placeholder="agente@arc7hive.com"
+                            />
                         </div>
+                        {mode !== 'magic-link' && (
+                            <div>
+                                <label htmlFor="password-input" className="text-sm font-medium text-gray-400 flex items-center">
+                                    <span className="text-brand-red mr-2">&gt;</span> {mode === 'signup' ? 'Definir Senha (mín. 6 caracteres):' : 'Inserir Senha:'}
+                                </label>
+                                <div className="relative mt-2">
+                                    <input
+                                        id="password-input"
+                                        type="password"
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                        minLength={6}
+                                        required
+                                        autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                                        className="w-full p-2 bg-dark/80 border border-gray-700 rounded-md text-white focus:ring-1 focus:ring-brand-red focus:border-brand-red transition font-mono"
+                                        placeholder="••••••"
+                                    />
+                                    <span className="absolute right-3 top-1/2 -translate-y-1/2 h-6 w-1 bg-brand-red animate-blinking-cursor"></span>
+                                </div>
+                            </div>
+                        )}
 
                         {error && <p className="text-sm text-center text-red-400 font-mono animate-fast-fade-in">{error}</p>}
+                        {message && <p className="text-sm text-center text-green-400 font-mono animate-fast-fade-in">{message}</p>}
 
-                        <button type="submit" className="w-full bg-brand-red/80 hover:bg-brand-red text-white font-bold py-3 px-4 rounded-md transition-all transform hover:scale-105 hover:shadow-lg hover:shadow-brand-red/30 border border-brand-red">
-                            [ EXECUTAR LOGIN ]
+                        <button type="submit" disabled={isLoading} className="w-full bg-brand-red/80 hover:bg-brand-red text-white font-bold py-3 px-4 rounded-md transition-all transform hover:scale-105 hover:shadow-lg hover:shadow-brand-red/30 border border-brand-red disabled:opacity-50 disabled:scale-100 disabled:cursor-wait">
+                            {isLoading ? '[ PROCESSANDO... ]' : submitLabel}
                         </button>
                     </form>
-                    
+
                     <div className="text-center mt-6">
                         <button onClick={clearSession} className="text-xs text-gray-600 hover:text-gray-400 transition-colors">// Limpar sessão</button>
                     </div>
@@ -96,4 +149,4 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
     );
 };
 
-export default LoginPage;
\ No newline at end of file
+export default LoginPage;
@@ -111,6 +111,7 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ user, playlist, error, onTrac
     const lastVolume = useRef(volume);
     const isMyUpdate = useRef(false);
     const intentToPlayYoutube = useRef(false);
+    const latestSearchRef = useRef(0); // Ignores background cache refreshes for superseded searches
 
     const currentPlaylistTrackId = radioState?.current_track_id;
     const currentPlaylistTrack = playlist.find(s => s.id === currentPlaylistTrackId);
@@ -304,8 +305,11 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ user, playlist, error, onTrac
         if(!searchQuery.trim()) return;
         setIsSearching(true);
         setSearchError('');
+        const searchId = ++latestSearchRef.current;
         try {
-            setSearchResults(await searchYouTubeMusic(searchQuery));
+            setSearchResults(await searchYouTubeMusic(searchQuery, (freshTracks) => {
+                if (latestSearchRef.current === searchId) setSearchResults(freshTracks);
+            }));
         } catch(err) {
             setSearchError(err instanceof Error ? err.message : "Erro desconhecido");
         } finally {
@@ -0,0 +1,74 @@
+// components/NativeVideoPlayer.tsx
+import React, { useEffect, useRef } from 'react';
+import { loadScript } from '../utils/scriptLoader';
+import { isHlsSource } from '../utils/videoPlatforms';
+
+interface NativeVideoPlayerProps {
+    src: string; // MP4/WebM file or HLS (.m3u8) playlist
+    startSeconds: number;
+    onReady: (element: HTMLVideoElement) => void;
+    onPlay: () => void;
+    onPause: () => void;
+    onEnd: () => void;
+}
+
+interface HlsInstance {
+    loadSource: (src: string) => void;
+    attachMedia: (element: HTMLVideoElement) => void;
+    destroy: () => void;
+}
+
+declare global {
+    interface Window {
+        Hls?: { new (): HlsInstance; isSupported: () => boolean };
+    }
+}
+
+const HLS_SCRIPT = 'https://cdn.jsdelivr.net/npm/hls.js@1/dist/hls.min.js';
+
+const NativeVideoPlayer: React.FC<NativeVideoPlayerProps> = ({ src, startSeconds, onReady, onPlay, onPause, onEnd }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        const element = videoRef.current;
+        if (!element) return;
+        onReady(element);
+
+        // Safari plays HLS natively; elsewhere hls.js feeds the playlist through Media Source Extensions.
+        if (!isHlsSource(src) || element.canPlayType('application/vnd.apple.mpegurl')) {
+            element.src = src;
+            return;
+        }
+        let hls: HlsInstance | null = null;
+        let cancelled = false;
+        loadScript(HLS_SCRIPT)
+            .then(() => {
+                if (cancelled || !window.Hls?.isSupported()) return;
+                hls = new window.Hls();
+                hls.loadSource(src);
+                hls.attachMedia(element);
+            })
+            .catch(e => console.error("Could not load hls.js:", e));
+        return () => {
+            cancelled = true;
+            hls?.destroy();
+        };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [src]);
+
+    return (
+        <video
+            ref={videoRef}
+            className="w-full h-full bg-black"
+            controls
+            autoPlay
+            playsInline
+            onLoadedMetadata={(e) => { if (startSeconds > 0) e.currentTarget.currentTime = startSeconds; }}
+            onPlay={onPlay}
+            onPause={onPause}
+            onEnded={onEnd}
+        />
+    );
+};
+
+export default NativeVideoPlayer;
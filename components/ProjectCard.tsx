@@ -4,17 +4,17 @@ import React from 'react';
 import type { Project } from '../types';
 import Icon from './Icons';
 import Avatar from './Avatar';
-import { users } from '../data';
 
 interface ProjectCardProps {
     project: Project;
+    ownerAvatarUrl?: string;
     onClick: () => void;
     style?: React.CSSProperties;
 }
 
-const ProjectCard: React.FC<ProjectCardProps> = ({ project, onClick, style }) => {
+const ProjectCard: React.FC<ProjectCardProps> = ({ project, ownerAvatarUrl, onClick, style }) => {
     const creationDate = new Date(project.created_at).toLocaleDateString('pt-BR');
-    const avatarUrl = project.avatarUrl || users.find(u => u.name === project.createdBy)?.avatarUrl || '';
+    const avatarUrl = project.avatarUrl || ownerAvatarUrl || '';
 
     return (
         <div
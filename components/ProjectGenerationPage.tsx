@@ -1,106 +1,383 @@
-import React, { useState, useEffect } from 'react';
-import type { ProjectGenerationConfig, Project, Chapter, User, IconName } from '../types';
-import { generateEbookProjectStream } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import type { ProjectGenerationConfig, Project, User, EbookOutline, EbookSection, EbookGenerationState } from '../types';
+import { generateEbookOutline, generateEbookSectionStream } from '../services/geminiService';
+import { createProject, updateProject } from '../services/supabaseService';
+import { formatChapterTitle } from '../utils/ebookParser';
+import { MAX_EBOOK_CHAPTERS, MIN_EBOOK_CHAPTERS } from '../utils/ebookOptions';
 import Icon from './Icons';
 
 interface ProjectGenerationPageProps {
     user: User;
     config: ProjectGenerationConfig;
-    onGenerationComplete: (newProject: Omit<Project, 'id' | 'created_at'>) => void;
+    resumeProject?: Project; // A draft with generationState to continue instead of planning a new ebook
+    onGenerationComplete: (project: Project) => void; // The saved project, already complete
     onCancel: () => void;
 }
 
-const ProjectGenerationPage: React.FC<ProjectGenerationPageProps> = ({ user, config, onGenerationComplete, onCancel }) => {
-    const [status, setStatus] = useState('Gerando texto do ebook...');
-    const [streamedText, setStreamedText] = useState('');
-    const [projectTitle, setProjectTitle] = useState('');
+interface SectionProgress {
+    section: EbookSection;
+    status: 'pending' | 'writing' | 'done' | 'error';
+    content: string;
+    error?: string;
+}
+
+// Introduction, every chapter of the outline, then the conclusion, in writing order.
+const buildSections = (outline: EbookOutline): SectionProgress[] => [
+    { kind: 'introduction' } as EbookSection,
+    ...outline.chapters.map((_, index): EbookSection => ({ kind: 'chapter', index })),
+    { kind: 'conclusion' } as EbookSection,
+].map(section => ({ section, status: 'pending', content: '' }));
+
+// Rebuilds the progress of an interrupted generation from what the draft already holds. Chapters are found through
+// the outline indices saved with them, so a title edited in the viewer doesn't make the chapter be written again.
+const sectionsFromProject = (project: Project, { outline, chapterIndices }: EbookGenerationState): SectionProgress[] =>
+    buildSections(outline).map(progress => {
+        const { section } = progress;
+        const content = section.kind === 'introduction'
+            ? project.introduction
+            : section.kind === 'conclusion'
+                ? project.conclusion
+                : project.chapters[chapterIndices.indexOf(section.index)]?.content;
+        return content ? { ...progress, status: 'done', content } : progress;
+    });
+
+const ProjectGenerationPage: React.FC<ProjectGenerationPageProps> = ({ user, config, resumeProject, onGenerationComplete, onCancel }) => {
+    const [phase, setPhase] = useState<'outlining' | 'reviewing' | 'writing'>('outlining');
+    const [outline, setOutline] = useState<EbookOutline | null>(null);
+    const [sections, setSections] = useState<SectionProgress[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null); // The last draft save failed; the draft is behind the page
+    // The writing loop reads these between awaits, so they are kept in refs alongside the state.
+    const sectionsRef = useRef<SectionProgress[]>([]);
+    const draftIdRef = useRef<string | null>(null);
+    const isCompleteRef = useRef(false); // A retry can finish the last section while the main loop is still running
+    // Every draft save waits for the previous one, so a slow save can't land after a newer one and undo it.
+    const saveChainRef = useRef<Promise<unknown>>(Promise.resolve());
+    // Aborted on cancel and on unmount, which stops the request in flight and every loop below.
+    const abortRef = useRef(new AbortController());
+
+    const loadOutline = async () => {
+        const { signal } = abortRef.current;
+        setPhase('outlining');
+        setError(null);
+        try {
+            const generated = await generateEbookOutline(config, signal);
+            if (signal.aborted) return;
+            if (generated.chapters.length === 0) {
+                throw new Error("A IA não retornou um roteiro válido. Tente novamente com um tópico mais claro.");
+            }
+            setOutline(generated);
+            setPhase('reviewing');
+        } catch (err) {
+            if (signal.aborted) return;
+            console.error("Outline generation failed:", err);
+            setError(err instanceof Error ? err.message : 'Falha ao gerar o roteiro.');
+        }
+    };
 
     useEffect(() => {
-        const generateProject = async () => {
-            try {
-                // Step 1: Generate Ebook Text Stream
-                let fullText = '';
-                const stream = generateEbookProjectStream(config.topic, config.chapters);
-                for await (const chunk of stream) {
-                    fullText += chunk;
-                    setStreamedText(fullText);
-                }
-
-                // Step 2: Parse the generated text
-                setStatus('Analisando o conteúdo gerado...');
-                const titleMatch = fullText.match(/^#\s*(.*)/);
-                const title = titleMatch ? titleMatch[1] : config.topic;
-                setProjectTitle(title);
-
-                const introMatch = fullText.match(/\[INTRODUÇÃO\]([\s\S]*?)(\[CAPÍTULO 1:|\n\n\[CAPÍTULO 1:)/);
-                const introduction = introMatch ? introMatch[1].trim() : '';
-
-                const conclusionMatch = fullText.match(/\[CONCLUSÃO\]([\s\S]*)/);
-                const conclusion = conclusionMatch ? conclusionMatch[1].trim() : '';
-
-                const chapters: Chapter[] = [];
-                const chapterRegex = /\[CAPÍTULO (\d+):\s*([^\]]+)\]\[ÍCONE:\s*([^\]]+)\]([\s\S]*?)(?=\[CAPÍTULO|\[CONCLUSÃO\]|$)/g;
-                let match;
-                while ((match = chapterRegex.exec(fullText)) !== null) {
-                    chapters.push({
-                        title: `Capítulo ${match[1]}: ${match[2].trim()}`,
-                        icon: match[3].trim() as IconName,
-                        content: match[4].trim(),
-                    });
-                }
-
-                if (chapters.length === 0) {
-                    throw new Error("A IA não conseguiu estruturar o conteúdo em capítulos. Tente novamente com um tópico mais claro.");
-                }
-
-                const newProjectData: Omit<Project, 'id' | 'created_at'> = {
-                    name: title,
-                    introduction,
-                    chapters,
-                    conclusion,
-                    createdBy: user.name,
-                    avatarUrl: user.avatarUrl,
-                };
-                
-                setStatus('Finalizando...');
-                onGenerationComplete(newProjectData);
+        abortRef.current = new AbortController();
+        if (resumeProject?.generationState) {
+            const { outline: savedOutline } = resumeProject.generationState;
+            draftIdRef.current = resumeProject.id;
+            setOutline(savedOutline);
+            sectionsRef.current = sectionsFromProject(resumeProject, resumeProject.generationState);
+            setSections(sectionsRef.current);
+            setPhase('writing');
+            writePendingSections(savedOutline);
+        } else {
+            loadOutline();
+        }
+        return () => abortRef.current.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [config, resumeProject]);
+
+    const updateSection = (index: number, changes: Partial<SectionProgress>) => {
+        sectionsRef.current = sectionsRef.current.map((s, i) => (i === index ? { ...s, ...changes } : s));
+        if (!abortRef.current.signal.aborted) setSections(sectionsRef.current);
+    };
+
+    // Only finished sections go into the draft; unfinished chapters are left out rather than saved half-written.
+    const buildProjectFields = (approved: EbookOutline) => {
+        const contentOf = (predicate: (section: EbookSection) => boolean) =>
+            sectionsRef.current.find(s => predicate(s.section) && s.status === 'done')?.content ?? '';
+        const written = approved.chapters.flatMap((chapter, index) => {
+            const content = contentOf(s => s.kind === 'chapter' && s.index === index);
+            return content ? [{ index, chapter: { title: formatChapterTitle(chapter.title, index), icon: chapter.icon, content } }] : [];
+        });
+        return {
+            name: approved.title,
+            introduction: contentOf(s => s.kind === 'introduction'),
+            chapters: written.map(w => w.chapter),
+            conclusion: contentOf(s => s.kind === 'conclusion'),
+            generationState: { config, outline: approved, chapterIndices: written.map(w => w.index) },
+        };
+    };
+
+    const writeSection = async (approved: EbookOutline, index: number): Promise<boolean> => {
+        const { signal } = abortRef.current;
+        updateSection(index, { status: 'writing', content: '', error: undefined });
+        let content = '';
+        try {
+            for await (const chunk of generateEbookSectionStream(config, approved, sectionsRef.current[index].section, signal)) {
+                if (signal.aborted) break; // Leaving the loop also closes the generator
+                content += chunk;
+                updateSection(index, { content });
+            }
+            if (signal.aborted) return false; // The half-written section is dropped; a resume writes it again
+            if (!content.trim()) throw new Error('A IA não retornou texto para esta seção.');
+            updateSection(index, { status: 'done', content: content.trim() });
+        } catch (err) {
+            if (signal.aborted) return false;
+            console.error("Section generation failed:", err);
+            updateSection(index, { status: 'error', error: err instanceof Error ? err.message : 'Falha ao gerar a seção.' });
+            return false;
+        }
 
+        await saveDraft(approved);
+        return true;
+    };
+
+    // Queues a save of every finished section, read when the save actually runs. Resolves to false when it failed,
+    // which is shown on the page; a later save writes the same sections again.
+    const saveDraft = (approved: EbookOutline, changes: Partial<Project> = {}): Promise<boolean> => {
+        const save = saveChainRef.current.then(async () => {
+            if (!draftIdRef.current) return false;
+            try {
+                await updateProject(draftIdRef.current, { ...buildProjectFields(approved), ...changes });
+                if (!abortRef.current.signal.aborted) setSaveError(null);
+                return true;
             } catch (err) {
-                const message = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido durante a geração.';
-                console.error("Project Generation Failed:", err);
-                setError(message);
+                console.error("Failed to save the draft:", err);
+                if (!abortRef.current.signal.aborted) setSaveError(err instanceof Error ? err.message : 'Falha ao salvar o rascunho.');
+                return false;
             }
+        });
+        saveChainRef.current = save;
+        return save;
+    };
+
+    const finishIfComplete = async (approved: EbookOutline) => {
+        if (isCompleteRef.current || !draftIdRef.current || !sectionsRef.current.every(s => s.status === 'done')) return;
+        isCompleteRef.current = true;
+        // The whole ebook goes in the same update that clears generationState, so a failure leaves a resumable draft.
+        if (!(await saveDraft(approved, { generationState: null }))) {
+            isCompleteRef.current = false;
+            return;
+        }
+        onGenerationComplete({
+            ...buildProjectFields(approved),
+            id: draftIdRef.current,
+            created_at: resumeProject?.created_at ?? new Date().toISOString(),
+            createdBy: user.name,
+            ownerId: user.id,
+            avatarUrl: user.avatarUrl,
+            status: 'draft',
+            generationState: null,
+        });
+    };
+
+    // Sections already done (on a resume) are skipped; a failed one is left for the user to retry while the rest carry on.
+    const writePendingSections = async (approved: EbookOutline) => {
+        const { signal } = abortRef.current;
+        for (let i = 0; i < sectionsRef.current.length; i++) {
+            if (signal.aborted) return;
+            if (sectionsRef.current[i].status === 'done') continue;
+            await writeSection(approved, i);
+        }
+        await finishIfComplete(approved);
+    };
+
+    const handleApprove = async () => {
+        if (!outline) return;
+        const approved: EbookOutline = {
+            title: outline.title.trim() || config.topic,
+            chapters: outline.chapters.map(c => ({ ...c, title: c.title.trim(), summary: c.summary.trim() })).filter(c => c.title),
         };
+        if (approved.chapters.length < MIN_EBOOK_CHAPTERS || approved.chapters.length > MAX_EBOOK_CHAPTERS) {
+            window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'error', message: `O roteiro deve ter entre ${MIN_EBOOK_CHAPTERS} e ${MAX_EBOOK_CHAPTERS} capítulos com título.` }}));
+            return;
+        }
 
-        generateProject();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [config, user]);
+        setOutline(approved);
+        sectionsRef.current = buildSections(approved);
+        setSections(sectionsRef.current);
+        setPhase('writing');
 
+        // Saved up front so every finished section can be written into it.
+        try {
+            const draft = await createProject({
+                ...buildProjectFields(approved),
+                createdBy: user.name,
+                ownerId: user.id,
+                avatarUrl: user.avatarUrl,
+                status: 'draft',
+            });
+            draftIdRef.current = draft.id;
+        } catch (err) {
+            console.error("Failed to save the draft:", err);
+            if (!abortRef.current.signal.aborted) setError(err instanceof Error ? err.message : 'Falha ao salvar o rascunho.');
+            return;
+        }
 
-    const renderContent = (text: string) => {
-        return text.split('\n').map((line, i) => {
-            if (line.startsWith('# ')) return <h1 key={i} className="text-2xl font-bold mb-4">{line.substring(2)}</h1>;
-            if (line.startsWith('[CAPÍTULO')) return <h2 key={i} className="text-lg font-bold mt-4 mb-2">{line}</h2>;
-            if (line.startsWith('[INTRODUÇÃO]') || line.startsWith('[CONCLUSÃO]')) return <h2 key={i} className="text-lg font-bold mt-4 mb-2">{line}</h2>;
-            return <p key={i} className="text-sm">{line}</p>;
-        });
+        await writePendingSections(approved);
+    };
+
+    const handleRetry = async (index: number) => {
+        if (!outline) return;
+        if (await writeSection(outline, index)) await finishIfComplete(outline);
+    };
+
+    const handleRetrySave = async () => {
+        if (!outline) return;
+        if (sectionsRef.current.every(s => s.status === 'done')) await finishIfComplete(outline);
+        else await saveDraft(outline);
     };
 
+    // Stops whatever is being generated. Finished sections are already in the draft, which can be resumed from ProjectsPage.
+    const handleLeave = () => {
+        abortRef.current.abort();
+        if (draftIdRef.current && !isCompleteRef.current) {
+            const message = saveError
+                ? 'Geração interrompida. As últimas seções não foram salvas; o rascunho em "Seus Projetos" pode ser continuado depois.'
+                : 'Geração interrompida. O rascunho foi salvo em "Seus Projetos" e pode ser continuado depois.';
+            window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message }}));
+        }
+        onCancel();
+    };
+
+    // --- Outline editing ---
+
+    const updateOutlineChapter = (index: number, changes: Partial<EbookOutline['chapters'][number]>) => {
+        if (!outline) return;
+        setOutline({ ...outline, chapters: outline.chapters.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+    };
+
+    const moveOutlineChapter = (index: number, offset: -1 | 1) => {
+        if (!outline) return;
+        const chapters = [...outline.chapters];
+        [chapters[index], chapters[index + offset]] = [chapters[index + offset], chapters[index]];
+        setOutline({ ...outline, chapters });
+    };
+
+    const removeOutlineChapter = (index: number) => {
+        if (!outline) return;
+        setOutline({ ...outline, chapters: outline.chapters.filter((_, i) => i !== index) });
+    };
+
+    const addOutlineChapter = () => {
+        if (!outline) return;
+        setOutline({ ...outline, chapters: [...outline.chapters, { title: '', summary: '', icon: 'BookOpen' }] });
+    };
+
+    const sectionTitle = (section: EbookSection): string => {
+        if (section.kind === 'introduction') return 'Introdução';
+        if (section.kind === 'conclusion') return 'Conclusão';
+        return outline ? formatChapterTitle(outline.chapters[section.index].title, section.index) : '';
+    };
+
+    const renderOutlineEditor = (draft: EbookOutline) => (
+        <div className="space-y-3">
+            <p className="text-sm text-gray-400">Revise o roteiro antes de escrever. Cada capítulo será gerado separadamente e salvo como rascunho assim que ficar pronto.</p>
+            <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setOutline({ ...draft, title: e.target.value })}
+                placeholder="Título do ebook"
+                className="w-full bg-gray-900 border border-gray-700 rounded-md py-2 px-3 text-white text-lg font-bold focus:ring-2 focus:ring-brand-red focus:border-brand-red"
+            />
+            {draft.chapters.map((chapter, i) => (
+                <div key={i} className="flex gap-2 bg-gray-900/50 border border-gray-800 rounded-md p-3">
+                    <span className="text-sm text-gray-500 font-bold w-6 pt-2 flex-shrink-0">{i + 1}.</span>
+                    <div className="flex-grow space-y-2 min-w-0">
+                        <input
+                            type="text"
+                            value={chapter.title}
+                            onChange={(e) => updateOutlineChapter(i, { title: e.target.value })}
+                            placeholder="Título do capítulo"
+                            className="w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white text-sm"
+                        />
+                        <textarea
+                            rows={2}
+                            value={chapter.summary}
+                            onChange={(e) => updateOutlineChapter(i, { summary: e.target.value })}
+                            placeholder="O que este capítulo deve cobrir"
+                            className="w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-gray-300 text-xs"
+                        />
+                    </div>
+                    <div className="flex flex-col gap-1 flex-shrink-0">
+                        <button onClick={() => moveOutlineChapter(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-white rounded disabled:opacity-30" aria-label="Mover para cima">
+                            <Icon name="ChevronLeft" className="w-4 h-4 transform rotate-90" />
+                        </button>
+                        <button onClick={() => moveOutlineChapter(i, 1)} disabled={i === draft.chapters.length - 1} className="p-1 text-gray-400 hover:text-white rounded disabled:opacity-30" aria-label="Mover para baixo">
+                            <Icon name="ChevronLeft" className="w-4 h-4 transform -rotate-90" />
+                        </button>
+                        <button onClick={() => removeOutlineChapter(i)} disabled={draft.chapters.length <= MIN_EBOOK_CHAPTERS} className="p-1 text-gray-400 hover:text-red-400 rounded disabled:opacity-30" aria-label="Remover capítulo">
+                            <Icon name="Trash" className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            ))}
+            {draft.chapters.length < MAX_EBOOK_CHAPTERS && (
+                <button onClick={addOutlineChapter} className="flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+                    <Icon name="Plus" className="w-4 h-4" /> Adicionar capítulo
+                </button>
+            )}
+        </div>
+    );
+
+    const renderProgress = () => (
+        <div className="space-y-3">
+            {sections.map((progress, i) => (
+                <div key={i} className="bg-gray-900/50 border border-gray-800 rounded-md p-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <h4 className="text-sm font-bold text-white truncate">{sectionTitle(progress.section)}</h4>
+                        {progress.status === 'pending' && <span className="text-xs text-gray-500 flex-shrink-0">Na fila</span>}
+                        {progress.status === 'writing' && <span className="text-xs text-yellow-400 flex-shrink-0">Escrevendo...</span>}
+                        {progress.status === 'done' && <span className="text-xs text-green-400 flex-shrink-0">Concluído</span>}
+                        {progress.status === 'error' && (
+                            <button onClick={() => handleRetry(i)} className="text-xs bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1 px-2 rounded-md flex-shrink-0">
+                                Tentar novamente
+                            </button>
+                        )}
+                    </div>
+                    {progress.error && <p className="text-xs text-red-300 mt-1">{progress.error}</p>}
+                    {progress.content && (
+                        <p className={`text-xs text-gray-400 font-mono whitespace-pre-wrap mt-2 ${progress.status === 'done' ? 'line-clamp-3' : ''}`}>{progress.content}</p>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+
+    const doneCount = sections.filter(s => s.status === 'done').length;
+    const isWriting = sections.some(s => s.status === 'writing');
+    const hasFailures = sections.some(s => s.status === 'error');
+    const status = phase === 'outlining'
+        ? 'Planejando os capítulos...'
+        : phase === 'reviewing'
+            ? 'Aguardando aprovação do roteiro'
+            : `${doneCount} de ${sections.length} seções prontas`;
+
     return (
         <div className="fixed inset-0 bg-darker text-white z-50 flex flex-col items-center justify-center p-4 animate-fade-in">
             <div className="bg-dark border border-gray-800 rounded-lg shadow-2xl w-full max-w-4xl h-[90vh] flex flex-col p-6">
                 <div className="flex items-center justify-between pb-4 border-b border-gray-800 flex-shrink-0 mb-4">
-                     <div className="flex items-center gap-3">
-                        <Icon name="Brain" className="w-6 h-6 text-brand-red animate-pulse" />
-                        <h3 className="text-xl font-display tracking-wider text-white">
-                            {error ? 'Erro na Geração' : `Gerando: ${projectTitle || config.topic}`}
+                     <div className="flex items-center gap-3 min-w-0">
+                        <Icon name="Brain" className={`w-6 h-6 text-brand-red flex-shrink-0 ${isWriting || phase === 'outlining' ? 'animate-pulse' : ''}`} />
+                        <h3 className="text-xl font-display tracking-wider text-white truncate">
+                            {error ? 'Erro na Geração' : `Gerando: ${outline?.title || config.topic}`}
                         </h3>
                     </div>
                     {!error && (
-                        <div className="text-sm text-yellow-400 flex items-center gap-2">
-                           <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                        <div className="text-sm text-yellow-400 flex items-center gap-2 flex-shrink-0">
+                           {(isWriting || phase === 'outlining') && <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>}
                            <span>{status}</span>
+                           {phase !== 'reviewing' && (
+                               <button onClick={handleLeave} className="ml-2 text-xs bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1 px-3 rounded-md transition-colors">
+                                   Cancelar
+                               </button>
+                           )}
                         </div>
                     )}
                 </div>
@@ -109,19 +386,54 @@ const ProjectGenerationPage: React.FC<ProjectGenerationPageProps> = ({ user, con
                     <div className="flex-grow flex flex-col items-center justify-center text-center">
                         <Icon name="Fire" className="w-16 h-16 text-red-500 mb-4" />
                         <p className="text-red-300 max-w-md">{error}</p>
-                        <button onClick={onCancel} className="mt-6 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-6 rounded-md transition-colors">
-                            Voltar
-                        </button>
+                        <div className="flex gap-3 mt-6">
+                            {phase === 'outlining' && (
+                                <button onClick={loadOutline} className="bg-brand-red hover:bg-red-700 text-white font-bold py-2 px-6 rounded-md transition-colors">
+                                    Tentar novamente
+                                </button>
+                            )}
+                            <button onClick={handleLeave} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-6 rounded-md transition-colors">
+                                Voltar
+                            </button>
+                        </div>
                     </div>
                 ) : (
-                    <div className="flex-grow overflow-y-auto pr-2 text-gray-300 font-mono text-xs leading-relaxed whitespace-pre-wrap">
-                        {renderContent(streamedText)}
-                        <div className="w-2 h-4 bg-yellow-400 animate-blinking-cursor inline-block ml-1"></div>
-                    </div>
+                    <>
+                        <div className="flex-grow overflow-y-auto pr-2 text-gray-300">
+                            {phase === 'reviewing' && outline && renderOutlineEditor(outline)}
+                            {phase === 'writing' && (
+                                <>
+                                    <div className="h-1.5 bg-gray-800 rounded-full mb-4 overflow-hidden">
+                                        <div className="h-full bg-brand-red transition-all" style={{ width: `${(doneCount / sections.length) * 100}%` }} />
+                                    </div>
+                                    {renderProgress()}
+                                </>
+                            )}
+                        </div>
+                        {phase === 'reviewing' && (
+                            <div className="flex justify-end gap-3 pt-4 border-t border-gray-800 mt-4 flex-shrink-0">
+                                <button onClick={onCancel} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors">Cancelar</button>
+                                <button onClick={loadOutline} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors">Gerar outro roteiro</button>
+                                <button onClick={handleApprove} className="bg-brand-red hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors">Aprovar e escrever</button>
+                            </div>
+                        )}
+                        {phase === 'writing' && saveError && (
+                            <div className="flex items-center justify-between gap-3 pt-4 border-t border-gray-800 mt-4 flex-shrink-0">
+                                <p className="text-xs text-red-300">Não foi possível salvar o rascunho: {saveError}</p>
+                                <button onClick={handleRetrySave} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors flex-shrink-0">Salvar novamente</button>
+                            </div>
+                        )}
+                        {phase === 'writing' && hasFailures && !isWriting && (
+                            <div className="flex items-center justify-between gap-3 pt-4 border-t border-gray-800 mt-4 flex-shrink-0">
+                                <p className="text-xs text-gray-400">Algumas seções falharam. Tente novamente ou saia; o rascunho fica salvo.</p>
+                                <button onClick={handleLeave} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors flex-shrink-0">Sair e manter rascunho</button>
+                            </div>
+                        )}
+                    </>
                 )}
             </div>
         </div>
     );
 };
 
-export default ProjectGenerationPage;
\ No newline at end of file
+export default ProjectGenerationPage;
@@ -4,8 +4,7 @@
 
 
 import React, { useState, useRef, useCallback } from 'react';
-import type { Project, Chapter, IconName } from '../types';
-import { users } from '../data';
+import type { Project, Chapter, User } from '../types';
 import Icon from './Icons';
 import Avatar from './Avatar';
 import { downloadEbookWebpageAsPdf } from '../utils/pdfGenerator';
@@ -15,25 +14,27 @@ import VideoGenerationModal from './VideoGenerationModal';
 import ShortFormVideoGeneratorModal from './ShortFormVideoGeneratorModal';
 // Fix: Correctly import all necessary functions from the Gemini service.
 import { generateImagePromptForText, generateImage, generateWebpageFromProject, extendEbookProjectStream } from '../services/geminiService';
+import { parseEbookJson, type ParsedEbook } from '../utils/ebookParser';
 // Fix: Import the EbookCard component instead of redefining it locally.
 import EbookCard from './EbookCard';
 
 interface ProjectViewerPageProps {
     project: Project;
+    profiles: User[];
     onBack: () => void;
     onUpdateProject: (projectId: string, updates: Partial<Project>) => void;
 }
 
 
-const SettingsSidebar: React.FC<{ project: Project; onUpdateProject: ProjectViewerPageProps['onUpdateProject'] }> = ({ project, onUpdateProject }) => {
+const SettingsSidebar: React.FC<{ project: Project; profiles: User[]; onUpdateProject: ProjectViewerPageProps['onUpdateProject'] }> = ({ project, profiles, onUpdateProject }) => {
     const [status, setStatus] = useState(project.status || 'draft');
     const [price, setPrice] = useState(project.price || 0);
     const [publicDescription, setPublicDescription] = useState(project.publicDescription || '');
     const [collaborators, setCollaborators] = useState(project.collaborators || []);
     const [selectedUser, setSelectedUser] = useState('');
 
-    const availableUsers = users.filter(u => u.name !== project.createdBy && !collaborators.includes(u.name));
-    const ownerAvatarUrl = project.avatarUrl || users.find(u => u.name === project.createdBy)?.avatarUrl || '';
+    const availableUsers = profiles.filter(u => u.id !== project.ownerId && !collaborators.includes(u.id));
+    const ownerAvatarUrl = project.avatarUrl || profiles.find(u => u.id === project.ownerId)?.avatarUrl || '';
     
     // Sync with project prop changes
     React.useEffect(() => {
@@ -52,8 +53,8 @@ const SettingsSidebar: React.FC<{ project: Project; onUpdateProject: ProjectView
         }
     };
     
-    const handleRemoveCollaborator = (name: string) => {
-        const newCollaborators = collaborators.filter(c => c !== name);
+    const handleRemoveCollaborator = (userId: string) => {
+        const newCollaborators = collaborators.filter(c => c !== userId);
         setCollaborators(newCollaborators);
         onUpdateProject(project.id, { collaborators: newCollaborators }); // Update immediately
     };
@@ -81,15 +82,16 @@ const SettingsSidebar: React.FC<{ project: Project; onUpdateProject: ProjectView
                             <span className="font-semibold">{project.createdBy}</span>
                             <span className="text-xs bg-brand-red/50 text-white px-2 py-0.5 rounded-full">Dono</span>
                         </div>
-                         {collaborators.map(name => {
-                             const user = users.find(u => u.name === name);
+                         {collaborators.map(userId => {
+                             const user = profiles.find(u => u.id === userId);
+                             const name = user?.name || 'Agente removido';
                              return (
-                                <div key={name} className="flex items-center justify-between gap-2 text-sm group">
+                                <div key={userId} className="flex items-center justify-between gap-2 text-sm group">
                                     <div className="flex items-center gap-2">
                                         <Avatar src={user?.avatarUrl || ''} name={name} size="sm" />
                                         <span>{name}</span>
                                     </div>
-                                    <button onClick={() => handleRemoveCollaborator(name)} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"><Icon name="X" className="w-4 h-4" /></button>
+                                    <button onClick={() => handleRemoveCollaborator(userId)} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"><Icon name="X" className="w-4 h-4" /></button>
                                 </div>
                              )
                          })}
@@ -97,7 +99,7 @@ const SettingsSidebar: React.FC<{ project: Project; onUpdateProject: ProjectView
                     <div className="flex gap-2 mt-3">
                         <select value={selectedUser} onChange={e => setSelectedUser(e.target.value)} className="flex-grow bg-gray-900 border border-gray-700 rounded-md text-sm p-1.5 focus:ring-1 focus:ring-brand-red">
                             <option value="">Adicionar...</option>
-                            {availableUsers.map(u => <option key={u.name} value={u.name}>{u.name}</option>)}
+                            {availableUsers.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
                         </select>
                         <button onClick={handleAddCollaborator} disabled={!selectedUser} className="bg-gray-700 hover:bg-gray-600 px-3 rounded-md text-sm disabled:opacity-50">Add</button>
                     </div>
@@ -136,7 +138,7 @@ const SettingsSidebar: React.FC<{ project: Project; onUpdateProject: ProjectView
     )
 }
 
-const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack, onUpdateProject }) => {
+const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, profiles, onBack, onUpdateProject }) => {
     const [isEditCoverModalOpen, setIsEditCoverModalOpen] = useState(false);
     const [isEditChapterImageModalOpen, setIsEditChapterImageModalOpen] = useState<number | null>(null);
     const [isQuizModalOpen, setIsQuizModalOpen] = useState(false);
@@ -145,6 +147,9 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
     const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
     const [isExtending, setIsExtending] = useState(false);
     const [isGeneratingImage, setIsGeneratingImage] = useState<Record<string, boolean>>({});
+    // ProjectGenerationPage rewrites the chapter list on every save until the ebook is finished, so chapter images
+    // and extensions made here would be lost; they are locked until then.
+    const isGenerationPending = !!project.generationState;
 
     const handleDownload = async () => {
         setIsDownloadingPdf(true);
@@ -163,30 +168,38 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
     };
 
     const handleExtendProject = async () => {
+        if (isGenerationPending) return;
         setIsExtending(true);
         window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'IA está escrevendo mais capítulos...' }}));
         try {
             let newChaptersText = '';
-            const stream = extendEbookProjectStream(project);
-            for await (const chunk of stream) {
-                newChaptersText += chunk;
+            let streamError: unknown = null;
+            try {
+                const stream = extendEbookProjectStream(project);
+                for await (const chunk of stream) {
+                    newChaptersText += chunk;
+                }
+            } catch (err) {
+                // Chapters that arrived complete before the interruption are still worth keeping.
+                console.error("Ebook extension stream interrupted:", err);
+                streamError = err;
             }
 
-            const newChapters: Chapter[] = [];
-            const chapterRegex = /\[CAPÍTULO (\d+):\s*([^\]]+)\]\[ÍCONE:\s*([^\]]+)\]([\s\S]*?)(?=\[CAPÍTULO|\[CONCLUSÃO\]|$)/g;
-            let match;
-            while ((match = chapterRegex.exec(newChaptersText)) !== null) {
-                newChapters.push({
-                    title: `Capítulo ${match[1]}: ${match[2].trim()}`,
-                    icon: match[3].trim() as IconName,
-                    content: match[4].trim(),
-                });
+            let parsed: ParsedEbook;
+            try {
+                parsed = parseEbookJson(newChaptersText, { firstChapterNumber: project.chapters.length + 1 });
+            } catch (parseError) {
+                // An unreadable response after a failed stream is explained better by the stream error.
+                throw streamError ?? parseError;
             }
+            const { chapters: newChapters, truncated } = parsed;
+            if (newChapters.length === 0 && streamError) throw streamError;
 
             if (newChapters.length > 0) {
                 const allChapters = [...project.chapters, ...newChapters];
                 onUpdateProject(project.id, { chapters: allChapters });
-                window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: `${newChapters.length} novos capítulos foram adicionados!` }}));
+                const note = truncated || streamError ? ' A resposta da IA veio incompleta; os capítulos completos foram mantidos.' : '';
+                window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: `${newChapters.length} novos capítulos foram adicionados!${note}` }}));
             } else {
                 throw new Error("A IA não conseguiu gerar novos capítulos. Tente novamente.");
             }
@@ -290,6 +303,12 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
                 
                 <div className="container mx-auto flex flex-col lg:flex-row gap-6 p-4 sm:p-6">
                     <main className="flex-grow space-y-8">
+                        {isGenerationPending && (
+                            <div className="flex items-center gap-3 bg-yellow-500/10 border border-yellow-500/40 text-yellow-200 text-sm rounded-lg p-4">
+                                <Icon name="Brain" className="w-5 h-5 flex-shrink-0" />
+                                <p>Este ebook ainda não terminou de ser escrito. Continue a geração em "Seus Projetos"; imagens dos capítulos e novos capítulos ficam disponíveis quando ela terminar.</p>
+                            </div>
+                        )}
                         {/* Cover Card */}
                         <section className="ebook-card ebook-cover-card bg-dark/50 border border-gray-800 rounded-lg p-8 md:p-12">
                              <div className="relative text-center">
@@ -335,7 +354,7 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
                                 </EbookCard>
                                 
                                 {/* Image Divider Section */}
-                                <div className="my-0 py-8 px-4 bg-dark/30 border-y-2 border-gray-900 flex flex-col items-center justify-center text-center">
+                                {!isGenerationPending && <div className="my-0 py-8 px-4 bg-dark/30 border-y-2 border-gray-900 flex flex-col items-center justify-center text-center">
                                     { chapter.imageUrl ? (
                                         <div className="relative group max-w-lg w-full">
                                             <img src={chapter.imageUrl} alt={`Imagem para ${chapter.title}`} className="w-full h-auto object-cover rounded-lg shadow-lg" />
@@ -360,7 +379,7 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
                                             </button>
                                         </>
                                     )}
-                                </div>
+                                </div>}
                             </React.Fragment>
                         ))}
                         
@@ -375,7 +394,7 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
                             <div className="flex flex-col md:flex-row gap-4">
                                 <button
                                     onClick={handleExtendProject}
-                                    disabled={isExtending}
+                                    disabled={isExtending || isGenerationPending}
                                     className="flex-1 flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-wait"
                                 >
                                     {isExtending ? (
@@ -411,7 +430,7 @@ const ProjectViewerPage: React.FC<ProjectViewerPageProps> = ({ project, onBack,
                         </section>
                     </main>
 
-                    <SettingsSidebar project={project} onUpdateProject={onUpdateProject} />
+                    <SettingsSidebar project={project} profiles={profiles} onUpdateProject={onUpdateProject} />
                 </div>
 
             </div>
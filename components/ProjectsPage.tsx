@@ -6,57 +6,77 @@ import ProjectCard from './ProjectCard';
 import CreateProjectModal from './CreateProjectModal';
 import ProjectGenerationPage from './ProjectGenerationPage';
 import GammaModeModal from './GammaModeModal';
-import { createProject } from '../services/supabaseService';
 
 interface ProjectsPageProps {
     user: User;
     projects: Project[];
+    profiles: User[];
     onBack: () => void;
     onViewProject: (project: Project) => void;
     onProjectCreated: () => void; // To refresh project list in App.tsx
     onNavigate: (page: 'notebook-lm') => void;
 }
 
-const ProjectsPage: React.FC<ProjectsPageProps> = ({ user, projects, onBack, onViewProject, onProjectCreated, onNavigate }) => {
+// Projects from before accounts existed keep a null ownerId (and collaborator names) until the profile with that
+// name claims them, so those are still matched the old way.
+const isOwner = (project: Project, user: User) => (project.ownerId ? project.ownerId === user.id : project.createdBy === user.name);
+const isCollaborator = (project: Project, user: User) => !!project.collaborators?.some(c => c === user.id || c === user.name);
+
+const ProjectsPage: React.FC<ProjectsPageProps> = ({ user, projects, profiles, onBack, onViewProject, onProjectCreated, onNavigate }) => {
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [isGammaModalOpen, setIsGammaModalOpen] = useState(false);
     const [generationConfig, setGenerationConfig] = useState<ProjectGenerationConfig | null>(null);
+    const [resumeProject, setResumeProject] = useState<Project | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
 
     const handleStartGeneration = (config: ProjectGenerationConfig) => {
         setIsCreateModalOpen(false);
+        setResumeProject(null);
         setGenerationConfig(config);
     };
 
-    const handleGenerationComplete = async (newProjectData: Omit<Project, 'id' | 'created_at'>) => {
-        try {
-            await createProject(newProjectData);
-            onProjectCreated(); // Listener in App.tsx will pick up the change
-            setGenerationConfig(null);
-             window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'Projeto criado com sucesso!' }}));
-        } catch (error) {
-            console.error("Failed to save project:", error);
-             const errorMessage = error instanceof Error ? error.message : "Falha ao salvar o projeto.";
-             window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'error', message: errorMessage }}));
-            setGenerationConfig(null); // Go back to projects page even on error
-        }
+    const handleResumeGeneration = (project: Project) => {
+        if (!project.generationState) return;
+        setResumeProject(project);
+        setGenerationConfig(project.generationState.config);
+    };
+
+    const closeGeneration = () => {
+        setGenerationConfig(null);
+        setResumeProject(null);
+    };
+
+    // ProjectGenerationPage saves the project itself as chapters finish; this only closes it.
+    const handleGenerationComplete = () => {
+        onProjectCreated(); // Listener in App.tsx will pick up the change
+        closeGeneration();
+        window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'Projeto criado com sucesso!' }}));
     };
     
+    // Ebooks whose generation was canceled or interrupted before every section was written.
+    const interruptedProjects = useMemo(
+        () => projects.filter(p => isOwner(p, user) && p.generationState),
+        [projects, user]
+    );
+
     const { ownedProjects, collaboratingProjects } = useMemo(() => {
         const filtered = projects.filter(p => p.name.toLowerCase().includes(searchTerm.toLowerCase()));
         return {
-            ownedProjects: filtered.filter(p => p.createdBy === user.name),
-            collaboratingProjects: filtered.filter(p => p.createdBy !== user.name && p.collaborators?.includes(user.name)),
+            ownedProjects: filtered.filter(p => isOwner(p, user)),
+            collaboratingProjects: filtered.filter(p => !isOwner(p, user) && isCollaborator(p, user)),
         };
-    }, [projects, searchTerm, user.name]);
+    }, [projects, searchTerm, user]);
+
+    const getOwnerAvatarUrl = (project: Project) => profiles.find(p => p.id === project.ownerId)?.avatarUrl;
 
     if (generationConfig) {
         return (
             <ProjectGenerationPage
                 user={user}
                 config={generationConfig}
+                resumeProject={resumeProject ?? undefined}
                 onGenerationComplete={handleGenerationComplete}
-                onCancel={() => setGenerationConfig(null)}
+                onCancel={closeGeneration}
             />
         );
     }
@@ -110,6 +130,27 @@ const ProjectsPage: React.FC<ProjectsPageProps> = ({ user, projects, onBack, onV
                         <Icon name="Search" className="w-5 h-5 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
                     </div>
 
+                    {interruptedProjects.length > 0 && (
+                        <Section title="Gerações Interrompidas">
+                            <div className="space-y-2">
+                                {interruptedProjects.map(project => (
+                                    <div key={project.id} className="flex items-center justify-between gap-4 bg-dark/50 border border-gray-800 rounded-lg p-4">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-white truncate">{project.name}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {project.chapters.length} de {project.generationState!.outline.chapters.length} capítulos escritos
+                                            </p>
+                                        </div>
+                                        <button onClick={() => handleResumeGeneration(project)} className="flex items-center gap-2 bg-brand-red hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors flex-shrink-0">
+                                            <Icon name="Play" className="w-4 h-4" />
+                                            Continuar
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </Section>
+                    )}
+
                     <Section title="Seus Projetos">
                         {ownedProjects.length > 0 ? (
                              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -117,6 +158,7 @@ const ProjectsPage: React.FC<ProjectsPageProps> = ({ user, projects, onBack, onV
                                     <ProjectCard
                                         key={project.id}
                                         project={project}
+                                        ownerAvatarUrl={getOwnerAvatarUrl(project)}
                                         onClick={() => onViewProject(project)}
                                         style={{ animationDelay: `${index * 50}ms` }}
                                     />
@@ -136,6 +178,7 @@ const ProjectsPage: React.FC<ProjectsPageProps> = ({ user, projects, onBack, onV
                                     <ProjectCard
                                         key={project.id}
                                         project={project}
+                                        ownerAvatarUrl={getOwnerAvatarUrl(project)}
                                         onClick={() => onViewProject(project)}
                                         style={{ animationDelay: `${index * 50}ms` }}
                                     />
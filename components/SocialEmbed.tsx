@@ -1,5 +1,6 @@
 import React, { useEffect } from 'react';
 import type { Video } from '../types';
+import { loadScript } from '../utils/scriptLoader';
 
 interface SocialEmbedProps {
     video: Video;
@@ -12,38 +13,42 @@ declare global {
     }
 }
 
+const INSTAGRAM_EMBED_SCRIPT = 'https://www.instagram.com/embed.js';
+
 const SocialEmbed: React.FC<SocialEmbedProps> = ({ video, platform }) => {
 
     useEffect(() => {
         // When the component mounts or the video changes,
         // tell Instagram's script to scan the page and render any new embeds.
-        if (platform === 'instagram' && typeof window.instgrm !== 'undefined') {
-            window.instgrm.Embeds.process();
-        }
-    }, [video, platform]);
+        if (platform !== 'instagram') return;
+        loadScript(INSTAGRAM_EMBED_SCRIPT)
+            .then(() => window.instgrm?.Embeds.process())
+            .catch(e => console.error("Could not load the Instagram embed script:", e));
+    }, [video.id, platform]);
 
     const containerClasses = "flex justify-center items-start pt-4 bg-black rounded-lg min-h-[500px] border border-gray-800";
 
     if (platform === 'tiktok') {
+        // The iframe player renders on its own; TikTok's embed.js only scans the page once when it loads.
         return (
             <div className={containerClasses}>
-                <blockquote
-                    className="tiktok-embed"
-                    data-video-id={video.id}
-                    style={{ maxWidth: '325px', minWidth: '325px', margin: '0 auto', background: 'transparent' }}
-                >
-                    <section>
-                        <a target="_blank" rel="noopener noreferrer" href={`https://www.tiktok.com`}>&nbsp;</a>
-                    </section>
-                </blockquote>
+                <iframe
+                    key={video.id}
+                    src={`https://www.tiktok.com/embed/v2/${video.id}`}
+                    title={video.title}
+                    className="w-[325px] h-[740px] max-h-[80vh] border-0"
+                    allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+                    allowFullScreen
+                />
             </div>
         );
     }
     
     if (platform === 'instagram') {
         const permalink = `https://www.instagram.com/p/${video.id}/`;
+        // Keyed on the wrapper: embed.js swaps the blockquote for an iframe, so React must drop the whole container.
         return (
-            <div className={containerClasses}>
+            <div key={video.id} className={containerClasses}>
                 <blockquote
                     className="instagram-media"
                     data-instgrm-permalink={permalink}
@@ -0,0 +1,120 @@
+// components/VideoCandidateQueue.tsx
+import React, { useState, useEffect } from 'react';
+import Icon from './Icons';
+import type { LearningCategory, VideoCandidate } from '../types';
+import { getLearningCategories, getPendingVideoCandidates, reviewVideoCandidates } from '../services/supabaseService';
+import { formatSeconds } from '../utils/durationUtils';
+import { formatVideoByline } from '../utils/videoMetadata';
+import { getVideoWatchUrl } from '../utils/videoPlatforms';
+
+interface VideoCandidateQueueProps {
+    refreshKey: number; // Changes when the queue may have grown, e.g. after a manual importer run
+    onMessage: (message: string) => void;
+    onError: (error: string) => void;
+}
+
+const VideoCandidateQueue: React.FC<VideoCandidateQueueProps> = ({ refreshKey, onMessage, onError }) => {
+    const [candidates, setCandidates] = useState<VideoCandidate[]>([]);
+    const [trackTitles, setTrackTitles] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [reviewingIds, setReviewingIds] = useState<Set<number>>(new Set());
+
+    const loadQueue = async () => {
+        setIsLoading(true);
+        try {
+            const [pending, categories] = await Promise.all([getPendingVideoCandidates(), getLearningCategories()]);
+            setCandidates(pending);
+            setTrackTitles(Object.fromEntries((categories ?? []).map((c: LearningCategory) => [c.id, c.title])));
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao carregar a fila de revisão.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadQueue();
+    }, [refreshKey]);
+
+    const handleReview = async (ids: number[], approve: boolean) => {
+        if (ids.length === 0) return;
+        if (ids.length > 1 && !window.confirm(`${approve ? 'Aprovar' : 'Rejeitar'} ${ids.length} vídeos?`)) return;
+
+        setReviewingIds(prev => new Set([...prev, ...ids]));
+        try {
+            const reviewed = await reviewVideoCandidates(ids, approve);
+            setCandidates(prev => prev.filter(c => !ids.includes(c.id)));
+            onMessage(approve ? `${reviewed} vídeo(s) publicados nas trilhas.` : `${reviewed} vídeo(s) rejeitados.`);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Falha ao revisar os vídeos.');
+        } finally {
+            setReviewingIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+        }
+    };
+
+    const byTrack = new Map<string, VideoCandidate[]>();
+    for (const candidate of candidates) {
+        byTrack.set(candidate.categoryId, [...(byTrack.get(candidate.categoryId) ?? []), candidate]);
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-lg font-display tracking-wider text-white">
+                    Fila de Revisão {candidates.length > 0 && <span className="text-sm text-brand-red">({candidates.length})</span>}
+                </h4>
+                <button onClick={loadQueue} disabled={isLoading} className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-700 disabled:opacity-50">
+                    {isLoading ? 'Carregando...' : 'Atualizar'}
+                </button>
+            </div>
+
+            {candidates.length === 0 ? (
+                <p className="text-xs text-gray-400">{isLoading ? 'Carregando...' : 'Nenhum vídeo importado aguardando revisão.'}</p>
+            ) : (
+                <div className="max-h-96 overflow-y-auto space-y-4">
+                    {[...byTrack].map(([categoryId, trackCandidates]) => (
+                        <div key={categoryId}>
+                            <div className="flex items-center justify-between mb-2">
+                                <p className="text-sm font-semibold text-gray-300">{trackTitles[categoryId] ?? categoryId}</p>
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => handleReview(trackCandidates.map(c => c.id), true)} className="text-xs text-green-300 hover:text-white px-2 py-1 rounded-md hover:bg-gray-700">Aprovar todos</button>
+                                    <button onClick={() => handleReview(trackCandidates.map(c => c.id), false)} className="text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md hover:bg-gray-700">Rejeitar todos</button>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                {trackCandidates.map(candidate => {
+                                    const isReviewing = reviewingIds.has(candidate.id);
+                                    return (
+                                        <div key={candidate.id} className={`flex items-center gap-3 bg-gray-800 p-2 rounded-md ${isReviewing ? 'opacity-50' : ''}`}>
+                                            <a href={getVideoWatchUrl(candidate.video)} target="_blank" rel="noopener noreferrer" className="relative flex-shrink-0">
+                                                <img src={candidate.video.thumbnailUrl} alt="" className="w-24 aspect-video object-cover rounded" />
+                                                {candidate.video.durationSeconds > 0 && (
+                                                    <span className="absolute bottom-1 right-1 bg-black/80 text-white text-[10px] px-1 rounded">{formatSeconds(candidate.video.durationSeconds)}</span>
+                                                )}
+                                            </a>
+                                            <div className="min-w-0 flex-grow">
+                                                <p className="text-sm font-semibold line-clamp-2">{candidate.video.title}</p>
+                                                <p className="text-xs text-gray-400 truncate">{formatVideoByline(candidate.video)}</p>
+                                                {candidate.searchQuery && <p className="text-xs text-gray-500 truncate">Busca: "{candidate.searchQuery}"</p>}
+                                            </div>
+                                            <div className="flex items-center gap-1 flex-shrink-0">
+                                                <button onClick={() => handleReview([candidate.id], true)} disabled={isReviewing} className="p-2 text-green-400 hover:text-white rounded-full hover:bg-gray-700" title="Aprovar" aria-label="Aprovar">
+                                                    <Icon name="Check" className="w-4 h-4" />
+                                                </button>
+                                                <button onClick={() => handleReview([candidate.id], false)} disabled={isReviewing} className="p-2 text-gray-400 hover:text-white rounded-full hover:bg-gray-700" title="Rejeitar" aria-label="Rejeitar">
+                                                    <Icon name="X" className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VideoCandidateQueue;
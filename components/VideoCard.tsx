@@ -1,13 +1,14 @@
 import React from 'react';
 import type { Video } from '../types';
 import Icon from './Icons';
+import { formatSeconds } from '../utils/durationUtils';
 
 interface VideoCardProps {
     video: Video;
     isPlaying: boolean;
     isWatched: boolean;
     onSelect: () => void;
-    onRemove: () => void;
+    onRemove?: () => void; // Omitted when the user's role can't remove videos
 }
 
 const VideoCard: React.FC<VideoCardProps> = ({ video, isPlaying, isWatched, onSelect, onRemove }) => {
@@ -38,6 +39,7 @@ const VideoCard: React.FC<VideoCardProps> = ({ video, isPlaying, isWatched, onSe
             <div className="w-3/5">
                 <div className="flex justify-between items-start gap-2">
                     <h4 className={`font-semibold text-sm leading-tight line-clamp-2 ${isPlaying ? 'text-white' : 'text-gray-200'}`}>{video.title}</h4>
+                    {onRemove && (
                     <button
                         onClick={(e) => {
                             e.stopPropagation(); // Prevent card's onSelect from firing
@@ -49,8 +51,12 @@ const VideoCard: React.FC<VideoCardProps> = ({ video, isPlaying, isWatched, onSe
                     >
                         <Icon name="Trash" className="w-4 h-4" />
                     </button>
+                    )}
                 </div>
-                <p className="text-xs text-gray-400 mt-1">{video.duration}</p>
+                <p className="text-xs text-gray-400 mt-1 truncate">
+                    {formatSeconds(video.durationSeconds)}
+                    {video.channelName && ` • ${video.channelName}`}
+                </p>
             </div>
         </div>
     );
@@ -4,6 +4,7 @@ import type { Project, VideoScript, Video } from '../types';
 import Icon from './Icons';
 import { generateVideoScript, searchYouTubeVideos } from '../services/geminiService';
 import StitchedVideoPlayer from './StitchedVideoPlayer';
+import { formatSeconds } from '../utils/durationUtils';
 
 interface VideoGenerationModalProps {
     isOpen: boolean;
@@ -176,7 +177,7 @@ const VideoGenerationModal: React.FC<VideoGenerationModalProps> = ({ isOpen, onC
                                 <img src={video.thumbnailUrl} alt={video.title} className="w-24 h-14 object-cover rounded flex-shrink-0"/>
                                 <div className="min-w-0">
                                     <p className="text-sm text-white font-semibold line-clamp-2">{video.title}</p>
-                                    <p className="text-xs text-gray-500">{video.duration}</p>
+                                    <p className="text-xs text-gray-500">{formatSeconds(video.durationSeconds)}</p>
                                 </div>
                                 <div className="flex gap-1 ml-auto">
                                     <button onClick={() => setPreviewVideoId(video.id)} className="p-2 bg-gray-700 hover:bg-blue-600 rounded-md" title="Play"><Icon name="Play" className="w-4 h-4 text-white"/></button>
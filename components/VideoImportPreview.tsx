@@ -0,0 +1,110 @@
+// components/VideoImportPreview.tsx
+import React, { useState, useEffect } from 'react';
+import type { Video } from '../types';
+import Icon from './Icons';
+import { formatSeconds } from '../utils/durationUtils';
+import { formatVideoByline } from '../utils/videoMetadata';
+import { platformLabels } from '../utils/videoPlatforms';
+
+interface VideoImportPreviewProps {
+    videos: Video[];
+    existingVideoIds: Set<string>;
+    skippedEntries?: string[]; // Lines or links that couldn't be read
+    onConfirm: (videos: Video[]) => void;
+}
+
+// Lists what an import would add before anything is saved. Videos already in the track are flagged and can't be selected.
+const VideoImportPreview: React.FC<VideoImportPreviewProps> = ({ videos, existingVideoIds, skippedEntries = [], onConfirm }) => {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        setSelectedIds(new Set(videos.filter(v => !existingVideoIds.has(v.id)).map(v => v.id)));
+    // Only a new preview resets the selection; videos added meanwhile just become disabled.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [videos]);
+
+    const newVideos = videos.filter(v => !existingVideoIds.has(v.id));
+    const duplicateCount = videos.length - newVideos.length;
+
+    const toggleVideo = (videoId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(videoId)) {
+                next.delete(videoId);
+            } else {
+                next.add(videoId);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelectedIds(selectedIds.size === newVideos.length ? new Set() : new Set(newVideos.map(v => v.id)));
+    };
+
+    const handleConfirm = () => {
+        onConfirm(newVideos.filter(v => selectedIds.has(v.id)));
+    };
+
+    return (
+        <div className="flex flex-col min-h-0 flex-grow">
+            <div className="flex-shrink-0 flex justify-between items-center mt-4 p-2 bg-gray-900 rounded-md gap-2">
+                <div className="flex items-center gap-3 min-w-0">
+                    <input
+                        type="checkbox"
+                        checked={newVideos.length > 0 && selectedIds.size === newVideos.length}
+                        onChange={toggleAll}
+                        disabled={newVideos.length === 0}
+                        className="h-4 w-4 rounded border-gray-600 bg-gray-800 text-brand-red focus:ring-brand-red"
+                    />
+                    <span className="text-sm text-gray-300 truncate">
+                        <span className="font-semibold">{selectedIds.size} de {newVideos.length} novos selecionados</span>
+                        {duplicateCount > 0 && ` • ${duplicateCount} já na trilha`}
+                        {skippedEntries.length > 0 && ` • ${skippedEntries.length} ignorados`}
+                    </span>
+                </div>
+                <button onClick={handleConfirm} disabled={selectedIds.size === 0} className="flex-shrink-0 flex items-center gap-2 bg-brand-red hover:bg-red-700 text-white font-semibold py-2 px-3 rounded-md text-sm disabled:opacity-50">
+                    <Icon name="Plus" className="w-4 h-4"/>
+                    Importar Selecionados
+                </button>
+            </div>
+            <div className="flex-grow overflow-y-auto mt-4 pr-2 space-y-2">
+                {videos.map(video => {
+                    const isDuplicate = existingVideoIds.has(video.id);
+                    return (
+                        <label key={video.id} className={`flex items-center gap-4 p-2 rounded-lg bg-gray-800/50 transition-colors ${isDuplicate ? 'opacity-50' : 'cursor-pointer hover:bg-gray-700/50'} ${selectedIds.has(video.id) ? 'ring-2 ring-brand-red' : ''}`}>
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.has(video.id)}
+                                onChange={() => toggleVideo(video.id)}
+                                disabled={isDuplicate}
+                                className="h-5 w-5 rounded border-gray-600 bg-gray-700 text-brand-red focus:ring-brand-red flex-shrink-0"
+                            />
+                            <img src={video.thumbnailUrl} alt={video.title} className="w-28 h-16 object-cover rounded flex-shrink-0" />
+                            <div className="min-w-0">
+                                <p className="text-sm font-semibold text-white line-clamp-2">{video.title}</p>
+                                <p className="text-xs text-gray-400">
+                                    {platformLabels[video.platform]}
+                                    {video.durationSeconds > 0 && ` • ${formatSeconds(video.durationSeconds)}`}
+                                    {video.section && ` • Módulo: ${video.section}`}
+                                </p>
+                                {formatVideoByline(video) && <p className="text-xs text-gray-500 truncate">{formatVideoByline(video)}</p>}
+                            </div>
+                            {isDuplicate && <span className="ml-auto flex-shrink-0 text-xs font-semibold text-green-400">Já na trilha</span>}
+                        </label>
+                    );
+                })}
+                {skippedEntries.length > 0 && (
+                    <div className="p-3 rounded-lg bg-gray-900 text-xs text-gray-400">
+                        <p className="font-semibold text-gray-300 mb-1">Links não reconhecidos ou repetidos:</p>
+                        <ul className="list-disc list-inside space-y-0.5">
+                            {skippedEntries.map((entry, i) => <li key={i} className="truncate">{entry}</li>)}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VideoImportPreview;
@@ -1,19 +1,54 @@
 // components/VideoPlayerPage.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import YouTube from 'react-youtube';
-import type { LearningCategory, Video } from '../types';
+import type { LearningCategory, Video, VideoProgress } from '../types';
 import Icon from './Icons';
 import VideoCard from './VideoCard';
 import SocialMediaModal from './SocialMediaModal';
 import AddVideoModal from './AddVideoModal';
+import NativeVideoPlayer from './NativeVideoPlayer';
+import SocialEmbed from './SocialEmbed';
+import { groupVideosBySection, getSectionNames, moveVideo, renameSection } from '../utils/playlistUtils';
+import { formatVideoByline } from '../utils/videoMetadata';
+import { getVideoWatchUrl } from '../utils/videoPlatforms';
+
+// What progress tracking reads from a player: the YouTube player and the native <video> wrapper both provide it.
+// Vimeo, TikTok and Instagram embeds don't expose their position, so those videos are only marked done by hand.
+interface PlaybackClock {
+    getCurrentTime: () => number | Promise<number>;
+    getDuration: () => number | Promise<number>;
+}
+
+const PROGRESS_POLL_INTERVAL_MS = 5000;
+const PROGRESS_SAVE_EVERY_TICKS = 3; // Persist roughly every 15s while playing
+const AUTO_COMPLETE_STORAGE_KEY = 'arc7hive_autoCompleteThreshold';
+const DEFAULT_AUTO_COMPLETE_THRESHOLD = 0.9;
+const autoCompleteOptions = [
+    { value: 0.8, label: '80%' },
+    { value: 0.9, label: '90%' },
+    { value: 0.95, label: '95%' },
+    { value: 1, label: 'Só ao terminar' },
+];
+
+const NEW_SECTION_OPTION = '__new__';
+
+const loadAutoCompleteThreshold = (): number => {
+    const saved = Number(localStorage.getItem(AUTO_COMPLETE_STORAGE_KEY));
+    return saved > 0 && saved <= 1 ? saved : DEFAULT_AUTO_COMPLETE_THRESHOLD;
+};
 
 interface VideoPlayerPageProps {
     category: LearningCategory;
     allCategories: LearningCategory[];
     watchedVideos: Set<string>;
+    videoProgress: Record<string, VideoProgress>;
     onToggleVideoWatched: (videoId: string) => void;
+    onMarkVideoWatched: (videoId: string) => void;
+    onVideoProgress: (videoId: string, positionSeconds: number, durationSeconds: number) => void;
     onAddVideos: (categoryId: string, newVideos: Video[]) => void;
     onRemoveVideo: (categoryId: string, videoId: string) => void;
+    onReorderVideos: (categoryId: string, reorderedVideos: Video[]) => void;
+    canManageVideos: boolean;
     onBack: () => void;
     initialVideoId: string | null;
 }
@@ -22,43 +57,179 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
     category,
     allCategories,
     watchedVideos,
+    videoProgress,
     onToggleVideoWatched,
+    onMarkVideoWatched,
+    onVideoProgress,
     onAddVideos,
     onRemoveVideo,
+    onReorderVideos,
+    canManageVideos,
     onBack,
     initialVideoId,
 }) => {
     const [currentVideo, setCurrentVideo] = useState<Video | null>(null);
+    const [startSeconds, setStartSeconds] = useState(0);
+    const [autoCompleteThreshold, setAutoCompleteThreshold] = useState(loadAutoCompleteThreshold);
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
     const [isAddVideoModalOpen, setIsAddVideoModalOpen] = useState(false);
+    const [isOrganizing, setIsOrganizing] = useState(false);
+    const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
+    const [draggedVideoId, setDraggedVideoId] = useState<string | null>(null);
+    const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+    const playerRef = useRef<PlaybackClock | null>(null);
+    const progressIntervalRef = useRef<number | null>(null);
+
+    // Finished videos start over; anything else resumes where the user stopped.
+    const getResumePosition = (video: Video): number => {
+        const progress = videoProgress[video.id];
+        if (!progress || progress.watched) return 0;
+        return Math.floor(progress.positionSeconds);
+    };
+
+    const openVideo = (video: Video) => {
+        playerRef.current = null; // Set again by the new player once it is ready
+        setCurrentVideo(video);
+        setStartSeconds(getResumePosition(video));
+    };
     
     useEffect(() => {
         // On mount, set the initial video
         if (initialVideoId) {
             const video = category.videos.find(v => v.id === initialVideoId);
             if (video) {
-                setCurrentVideo(video);
+                openVideo(video);
             } else if (category.videos.length > 0) {
-                 setCurrentVideo(category.videos[0]);
+                 openVideo(category.videos[0]);
             }
         } else if (category.videos.length > 0) {
-            setCurrentVideo(category.videos[0]);
+            openVideo(category.videos[0]);
         }
+    // Keyed on the track ID: playlist edits (local or realtime) and progress updates must not reload the player.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [category.id, initialVideoId]);
+
+    // The polling interval outlives renders, so it reads props and the current video through refs.
+    const currentVideoRef = useRef<Video | null>(null);
+    currentVideoRef.current = currentVideo;
+
+    useEffect(() => {
+        setIsDescriptionExpanded(false);
+    }, [currentVideo?.id]);
+    const latestRef = useRef({ onVideoProgress, onMarkVideoWatched, watchedVideos, autoCompleteThreshold });
+    latestRef.current = { onVideoProgress, onMarkVideoWatched, watchedVideos, autoCompleteThreshold };
+
+    // Reads the player position, auto-completes past the threshold and optionally persists the position.
+    const checkProgress = async (persist: boolean) => {
+        const player = playerRef.current;
+        const video = currentVideoRef.current;
+        if (!player || !video) return;
+        try {
+            const positionSeconds = await player.getCurrentTime();
+            const durationSeconds = await player.getDuration();
+            if (!durationSeconds || positionSeconds <= 0) return;
+
+            const latest = latestRef.current;
+            if (positionSeconds / durationSeconds >= latest.autoCompleteThreshold && !latest.watchedVideos.has(video.id)) {
+                // Marking watched already saves the progress row; saving the position too would race it.
+                latest.onMarkVideoWatched(video.id);
+            } else if (persist) {
+                latest.onVideoProgress(video.id, positionSeconds, durationSeconds);
+            }
+        } catch (e) {
+            console.error("Could not read player position:", e);
+        }
+    };
+
+    const stopProgressTracking = () => {
+        if (progressIntervalRef.current) {
+            clearInterval(progressIntervalRef.current);
+            progressIntervalRef.current = null;
+        }
+    };
+
+    const startProgressTracking = () => {
+        stopProgressTracking();
+        let ticks = 0;
+        progressIntervalRef.current = window.setInterval(() => {
+            ticks++;
+            checkProgress(ticks % PROGRESS_SAVE_EVERY_TICKS === 0);
+        }, PROGRESS_POLL_INTERVAL_MS);
+    };
+
+    useEffect(() => {
+        return () => {
+            stopProgressTracking();
+            checkProgress(true);
+        };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
 
-    }, [category, initialVideoId]);
+    const handleAutoCompleteThresholdChange = (value: number) => {
+        setAutoCompleteThreshold(value);
+        localStorage.setItem(AUTO_COMPLETE_STORAGE_KEY, String(value));
+    };
 
     const handleBackNavigation = () => {
         onBack();
     };
 
     const handleSelectVideo = (video: Video) => {
-        setCurrentVideo(video);
+        stopProgressTracking();
+        checkProgress(true);
+        openVideo(video);
     };
     
+    // --- Curator ordering (drag and drop + modules) ---
+
+    const sectionNames = getSectionNames(category.videos);
+    const sectionGroups = groupVideosBySection(category.videos);
+    const showSectionHeaders = sectionNames.length > 0;
+
+    const applyReorder = (reorderedVideos: Video[]) => {
+        const changed = reorderedVideos.some((v, i) => v.id !== category.videos[i]?.id || (v.section || null) !== (category.videos[i]?.section || null));
+        if (changed) onReorderVideos(category.id, reorderedVideos);
+    };
+
+    const handleDragEnd = () => {
+        setDraggedVideoId(null);
+        setDropTargetKey(null);
+    };
+
+    const handleDropOnVideo = (target: Video) => {
+        if (draggedVideoId && draggedVideoId !== target.id) {
+            applyReorder(moveVideo(category.videos, draggedVideoId, target.section || null, target.id));
+        }
+        handleDragEnd();
+    };
+
+    const handleDropOnSection = (section: string | null) => {
+        if (draggedVideoId) {
+            applyReorder(moveVideo(category.videos, draggedVideoId, section));
+        }
+        handleDragEnd();
+    };
+
+    const handleAssignSection = (video: Video, value: string) => {
+        let section: string | null = value || null;
+        if (value === NEW_SECTION_OPTION) {
+            section = window.prompt("Nome do novo módulo (ex.: Básico, Avançado):")?.trim() || null;
+            if (!section) return;
+        }
+        applyReorder(moveVideo(category.videos, video.id, section));
+    };
+
+    const handleRenameSection = (section: string) => {
+        const newName = window.prompt("Novo nome do módulo (deixe em branco para remover o módulo):", section);
+        if (newName === null) return;
+        applyReorder(renameSection(category.videos, section, newName.trim() || null));
+    };
+
     const isCurrentVideoWatched = currentVideo ? watchedVideos.has(currentVideo.id) : false;
-    const currentVideoUrl = currentVideo ? `https://www.youtube.com/watch?v=${currentVideo.id}` : '';
+    const currentVideoUrl = currentVideo ? getVideoWatchUrl(currentVideo) : '';
 
-    const PlayerContent = () => {
+    // Rendered through a plain function (not a nested component) so parent re-renders don't remount the player.
+    const renderPlayer = () => {
         if (!currentVideo) {
             return (
                 <div className="w-full h-full bg-black flex flex-col items-center justify-center text-gray-400">
@@ -66,19 +237,64 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
                     <p className="px-4 text-center">
                         {category.videos.length > 0
                             ? "Selecione um vídeo da lista para começar."
-                            : "Esta trilha ainda não tem vídeos. Clique em 'Adicionar Vídeo' para começar a montar a playlist!"
+                            : canManageVideos
+                                ? "Esta trilha ainda não tem vídeos. Clique em 'Adicionar Vídeo' para começar a montar a playlist!"
+                                : "Esta trilha ainda não tem vídeos."
                         }
                     </p>
                 </div>
             )
         }
         
+        const handlePause = () => {
+            stopProgressTracking();
+            checkProgress(true);
+        };
+        const handleEnd = () => {
+            stopProgressTracking();
+            if (!watchedVideos.has(currentVideo.id)) onMarkVideoWatched(currentVideo.id);
+        };
+
+        switch (currentVideo.platform) {
+            case 'vimeo':
+                return (
+                    <iframe
+                        key={currentVideo.id}
+                        src={`https://player.vimeo.com/video/${currentVideo.id}?autoplay=1#t=${startSeconds}s`}
+                        title={currentVideo.title}
+                        className="w-full h-full border-0"
+                        allow="autoplay; fullscreen; picture-in-picture"
+                        allowFullScreen
+                    />
+                );
+            case 'file':
+                return (
+                    <NativeVideoPlayer
+                        key={currentVideo.id}
+                        src={currentVideo.sourceUrl ?? ''}
+                        startSeconds={startSeconds}
+                        onReady={(element) => {
+                            playerRef.current = { getCurrentTime: () => element.currentTime, getDuration: () => element.duration };
+                        }}
+                        onPlay={startProgressTracking}
+                        onPause={handlePause}
+                        onEnd={handleEnd}
+                    />
+                );
+            case 'tiktok':
+            case 'instagram':
+                return <SocialEmbed video={currentVideo} platform={currentVideo.platform} />;
+        }
+
         return (
             <YouTube 
                 videoId={currentVideo.id}
-                opts={{ width: '100%', height: '100%', playerVars: { autoplay: 1, modestbranding: 1, rel: 0 } }}
+                opts={{ width: '100%', height: '100%', playerVars: { autoplay: 1, modestbranding: 1, rel: 0, start: startSeconds } }}
                 className="w-full h-full"
-                onEnd={() => onToggleVideoWatched(currentVideo.id)}
+                onReady={(e) => { playerRef.current = e.target; }}
+                onPlay={startProgressTracking}
+                onPause={handlePause}
+                onEnd={handleEnd}
             />
         )
     };
@@ -104,11 +320,22 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
                 <div className="flex-grow container mx-auto flex flex-col lg:flex-row gap-6 p-4 sm:p-6 overflow-hidden">
                     {/* Main Content: Video Player */}
                     <main className="flex-grow flex flex-col bg-dark border border-gray-800 rounded-lg">
-                         <div className="w-full aspect-video bg-black rounded-t-lg">
-                            <PlayerContent />
+                         <div className={`w-full bg-black rounded-t-lg ${currentVideo?.platform === 'tiktok' || currentVideo?.platform === 'instagram' ? '' : 'aspect-video'}`}>
+                            {renderPlayer()}
                          </div>
                          <div className="p-4">
                              <h2 className="text-lg font-bold text-white">{currentVideo?.title || 'Nenhum vídeo selecionado'}</h2>
+                             {currentVideo && formatVideoByline(currentVideo) && (
+                                 <p className="text-sm text-gray-400 mt-1">{formatVideoByline(currentVideo)}</p>
+                             )}
+                             {currentVideo?.description && (
+                                 <div className="mt-2">
+                                     <p className={`text-sm text-gray-300 whitespace-pre-line ${isDescriptionExpanded ? '' : 'line-clamp-2'}`}>{currentVideo.description}</p>
+                                     <button onClick={() => setIsDescriptionExpanded(prev => !prev)} className="text-xs font-semibold text-gray-400 hover:text-white mt-1">
+                                         {isDescriptionExpanded ? 'Mostrar menos' : 'Mostrar mais'}
+                                     </button>
+                                 </div>
+                             )}
                              <div className="flex items-center justify-between mt-3">
                                 <button
                                      onClick={() => currentVideo && onToggleVideoWatched(currentVideo.id)}
@@ -118,6 +345,18 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
                                     <Icon name="Check" className={`w-5 h-5 ${isCurrentVideoWatched ? 'text-green-400' : 'text-gray-500'}`} />
                                      <span>{isCurrentVideoWatched ? 'Concluído' : 'Marcar como concluído'}</span>
                                  </button>
+                                 <label className="hidden sm:flex items-center gap-2 text-xs text-gray-400" title="Marca o vídeo como concluído automaticamente ao atingir esta parte">
+                                     Concluir automaticamente em
+                                     <select
+                                         value={autoCompleteThreshold}
+                                         onChange={e => handleAutoCompleteThresholdChange(Number(e.target.value))}
+                                         className="bg-gray-800 border border-gray-700 rounded-md text-xs p-1 focus:ring-1 focus:ring-brand-red"
+                                     >
+                                         {autoCompleteOptions.map(option => (
+                                             <option key={option.value} value={option.value}>{option.label}</option>
+                                         ))}
+                                     </select>
+                                 </label>
                                  <button
                                      onClick={() => setIsShareModalOpen(true)}
                                      disabled={!currentVideo}
@@ -132,20 +371,78 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
 
                     {/* Sidebar: Playlist */}
                     <aside className="w-full lg:w-1/3 lg:max-w-sm flex-shrink-0 bg-dark border border-gray-800 rounded-lg flex flex-col h-full max-h-[calc(100vh-150px)]">
-                        <div className="flex-shrink-0 border-b border-gray-800 flex p-3">
+                        <div className="flex-shrink-0 border-b border-gray-800 flex items-center justify-between p-3">
                            <h3 className="font-display tracking-wider text-white text-lg">Próximos Vídeos</h3>
+                           {canManageVideos && category.videos.length > 1 && (
+                               <button
+                                   onClick={() => setIsOrganizing(prev => !prev)}
+                                   className={`flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-md transition-colors ${isOrganizing ? 'bg-brand-red text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+                                   title="Arraste os vídeos para reordenar e agrupe-os em módulos"
+                               >
+                                   <Icon name={isOrganizing ? 'Check' : 'Bars'} className="w-4 h-4" />
+                                   {isOrganizing ? 'Concluir' : 'Organizar'}
+                               </button>
+                           )}
                         </div>
                          <div className="flex-grow overflow-y-auto p-2 space-y-2">
                              {category.videos.length > 0 ? (
-                                category.videos.map(video => (
-                                    <VideoCard 
-                                        key={video.id}
-                                        video={video}
-                                        isPlaying={currentVideo?.id === video.id}
-                                        isWatched={watchedVideos.has(video.id)}
-                                        onSelect={() => handleSelectVideo(video)}
-                                        onRemove={() => onRemoveVideo(category.id, video.id)}
-                                    />
+                                sectionGroups.map((group, groupIndex) => (
+                                    <div key={`${group.section ?? 'none'}-${groupIndex}`} className="space-y-2">
+                                        {showSectionHeaders && (
+                                            <div
+                                                onDragOver={isOrganizing ? (e) => { e.preventDefault(); setDropTargetKey(`section:${group.section}`); } : undefined}
+                                                onDrop={isOrganizing ? (e) => { e.preventDefault(); handleDropOnSection(group.section); } : undefined}
+                                                className={`flex items-center justify-between px-2 pt-2 pb-1 border-b transition-colors ${dropTargetKey === `section:${group.section}` ? 'border-brand-red' : 'border-gray-800'}`}
+                                            >
+                                                <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400">{group.section ?? 'Outros vídeos'}</h4>
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-xs text-gray-500">{group.videos.filter(v => watchedVideos.has(v.id)).length}/{group.videos.length}</span>
+                                                    {isOrganizing && group.section && (
+                                                        <button onClick={() => handleRenameSection(group.section!)} className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-gray-800" title="Renomear módulo" aria-label="Renomear módulo">
+                                                            <Icon name="Pencil" className="w-3 h-3" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )}
+                                        {group.videos.map(video => isOrganizing ? (
+                                            <div
+                                                key={video.id}
+                                                draggable
+                                                onDragStart={() => setDraggedVideoId(video.id)}
+                                                onDragEnd={handleDragEnd}
+                                                onDragOver={(e) => { e.preventDefault(); setDropTargetKey(video.id); }}
+                                                onDrop={(e) => { e.preventDefault(); handleDropOnVideo(video); }}
+                                                className={`flex items-center gap-2 p-2 rounded-lg bg-gray-900/50 border cursor-grab transition-colors ${
+                                                    dropTargetKey === video.id && draggedVideoId !== video.id ? 'border-brand-red' : 'border-transparent'
+                                                } ${draggedVideoId === video.id ? 'opacity-40' : ''}`}
+                                            >
+                                                <Icon name="Bars" className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                                                <img src={video.thumbnailUrl} alt="" className="w-16 rounded aspect-video object-cover flex-shrink-0" />
+                                                <div className="min-w-0 flex-grow">
+                                                    <p className="text-xs font-semibold text-gray-200 line-clamp-2">{video.title}</p>
+                                                    <select
+                                                        value={video.section || ''}
+                                                        onChange={e => handleAssignSection(video, e.target.value)}
+                                                        className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md text-xs p-1 focus:ring-1 focus:ring-brand-red"
+                                                    >
+                                                        <option value="">Sem módulo</option>
+                                                        {sectionNames.map(name => <option key={name} value={name}>{name}</option>)}
+                                                        <option value={NEW_SECTION_OPTION}>+ Novo módulo…</option>
+                                                    </select>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <VideoCard 
+                                                key={video.id}
+                                                video={video}
+                                                isPlaying={currentVideo?.id === video.id}
+                                                isWatched={watchedVideos.has(video.id)}
+                                                onSelect={() => handleSelectVideo(video)}
+                                                onRemove={canManageVideos ? () => onRemoveVideo(category.id, video.id) : undefined}
+                                            />
+                                        ))}
+                                    </div>
                                 ))
                              ) : (
                                 <div className="p-8 text-center text-gray-500">
@@ -153,6 +450,7 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
                                 </div>
                              )}
                          </div>
+                         {canManageVideos && (
                          <div className="flex-shrink-0 p-2 border-t border-gray-800 space-y-2">
                             <button 
                                 onClick={() => setIsAddVideoModalOpen(true)}
@@ -162,6 +460,7 @@ const VideoPlayerPage: React.FC<VideoPlayerPageProps> = ({
                                 Adicionar Vídeo
                             </button>
                          </div>
+                         )}
                     </aside>
                 </div>
             </div>
@@ -1,9 +1,24 @@
 import { GoogleGenAI, Type, GenerateContentResponse, Modality } from "@google/genai";
-import type { ChatMessage, MeetingMessage, Project, QuizQuestion, VideoScript, YouTubeTrack, Video, ShortFormVideoScript, IconName, Slide, Chapter, YouTubePlaylist, YouTubeChannel } from "../types";
+import type { ChatMessage, MeetingMessage, Project, ProjectGenerationConfig, EbookOutline, EbookSection, QuizQuestion, VideoScript, YouTubeTrack, Video, ShortFormVideoScript, Slide, Chapter, YouTubePlaylist, YouTubeChannel } from "../types";
 // Fix: Use a namespace import to correctly reference the exported functions from the mock service.
 import * as mockService from './geminiServiceMocks';
 // Fix: Import schemas from mock service to be used in Gemini API calls.
-import { quizSchema, videoScriptSchema, shortFormVideoScriptSchema, presentationSchema } from './geminiServiceMocks';
+import { quizSchema, videoScriptSchema, shortFormVideoScriptSchema, presentationSchema, ebookOutlineSchema, ebookExtensionSchema } from './geminiServiceMocks';
+import { rankProviders, recordProviderSuccess, recordProviderFailure, getProviderHealth } from './providerHealth';
+import {
+    searchVideosFromProviders,
+    searchMusicFromProviders,
+    searchPlaylistsFromProviders,
+    getVideosFromPlaylistProviders,
+    searchChannelsFromProviders,
+    getVideosFromChannelProviders,
+    invidiousApiInstances,
+    pipedApiInstances,
+} from '../supabase/functions/_shared/videoSearch';
+import type { ProviderHooks } from '../supabase/functions/_shared/videoSearch';
+import { cachedSearch } from './searchCache';
+import { EBOOK_CHAPTER_ICONS, parseEbookOutlineJson } from '../utils/ebookParser';
+import { ebookAudienceLevels, ebookLanguages, ebookTones } from '../utils/ebookOptions';
 
 let isGeminiQuotaExceeded = false;
 let isApiKeyMissing = false; // New flag
@@ -59,409 +74,32 @@ async function handleApiCall<T>(apiCall: () => Promise<T>, functionName: string)
 }
 
 // --- Resilient Video & Music Search Service ---
+// The provider code lives in supabase/functions/_shared/videoSearch.ts so the importer uses the same parsers.
 
-// Helper to add a timeout to fetch requests, preventing infinite loading.
-const fetchWithTimeout = (url: string, timeout = 5000): Promise<Response> => {
-    return new Promise((resolve, reject) => {
-        const timer = setTimeout(() => {
-            reject(new Error('Request timed out'));
-        }, timeout);
-
-        fetch(url)
-            .then(response => {
-                clearTimeout(timer);
-                resolve(response);
-            })
-            .catch(err => {
-                clearTimeout(timer);
-                reject(err);
-            });
-    });
-};
-
-const formatSecondsDuration = (seconds: number): string => {
-    if (isNaN(seconds) || seconds < 0) return "0:00";
-    const totalSeconds = Math.floor(seconds);
-    const displayMinutes = Math.floor(totalSeconds / 60);
-    const displaySeconds = totalSeconds % 60;
-    return `${displayMinutes}:${displaySeconds.toString().padStart(2, '0')}`;
-};
-
-// Helper to shuffle array for load balancing providers
-const shuffleArray = <T>(array: T[]): T[] => {
-    const newArray = [...array];
-    for (let i = newArray.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-    }
-    return newArray;
-};
-
-
-// --- Video Search Providers ---
-
-interface VideoProvider {
-    name: string;
-    searchUrl: (query: string) => string;
-    parseResponse: (data: any, existingVideoIds: Set<string>) => Video[];
-}
-
-const parseInvidiousVideoResponse = (data: any, existingVideoIds: Set<string>): Video[] => {
-    if (!Array.isArray(data)) return [];
-    return data
-        .map((item: any): Partial<Video> => {
-            if (item.type !== 'video' || !item.videoId || !item.title) {
-                return {};
-            }
-            return {
-                id: item.videoId,
-                title: item.title,
-                duration: formatSecondsDuration(item.lengthSeconds),
-                thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
-                platform: 'youtube',
-            };
-        })
-        .filter((video): video is Video => {
-             return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
-        });
-};
-
-const parsePipedVideoResponse = (data: any, existingVideoIds: Set<string>): Video[] => {
-    if (!data.items || !Array.isArray(data.items)) return [];
-    return data.items
-        .map((item: any): Partial<Video> => {
-            if (item.type !== 'stream' || !item.url || !item.title) return {};
-            const videoIdMatch = item.url.match(/v=([^&]+)/);
-            if (!videoIdMatch || !videoIdMatch[1]) return {};
-            
-            const videoId = videoIdMatch[1];
-            return {
-                id: videoId,
-                title: item.title,
-                duration: formatSecondsDuration(item.duration),
-                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
-                platform: 'youtube',
-            };
-        })
-        .filter((video): video is Video => {
-            return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
-        });
+// The app ranks instances by their recorded health and feeds every outcome back into the registry.
+const providerHealthHooks: ProviderHooks = {
+    rank: rankProviders,
+    onSuccess: recordProviderSuccess,
+    onFailure: recordProviderFailure,
 };
 
-// Curated list of public instances (Updated for reliability on Vercel)
-const invidiousApiInstances = [
-    'https://vid.puffyan.us',
-    'https://invidious.lunar.icu',
-    'https://invidious.protokoll.fi',
-    'https://iv.melmac.space',
-    'https://invidious.projectsegfau.lt',
-    'https://invidious.incogniweb.net',
-];
-
-const pipedApiInstances = [
-    'https://pipedapi.kavin.rocks',
-    'https://pipedapi.smnz.de',
-    'https://pipedapi.adminforge.de',
-    'https://pipedapi.in.projectsegau.lt',
-    'https://pipedapi.frontend.la',
-];
-
-
-const videoProviders: VideoProvider[] = [
-    ...invidiousApiInstances.map(instance => ({
-        name: `Invidious (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=video&region=BR&sort_by=relevance`,
-        parseResponse: parseInvidiousVideoResponse
-    })),
-    ...pipedApiInstances.map(instance => ({
-        name: `Piped (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=videos`,
-        parseResponse: parsePipedVideoResponse
-    }))
-];
-
-async function searchVideosFromProviders(searchQuery: string, existingVideoIds: Set<string>): Promise<Video[]> {
-    const shuffledProviders = shuffleArray(videoProviders);
-
-    for (const provider of shuffledProviders) {
-        console.log(`Attempting video search with: ${provider.name}`);
-        try {
-            const response = await fetchWithTimeout(provider.searchUrl(searchQuery));
-            if (!response.ok) throw new Error(`Response not OK: ${response.status}`);
-            
-            const data = await response.json();
-            const videos = provider.parseResponse(data, existingVideoIds);
-
-            if (videos.length > 0) {
-                console.log(`Found ${videos.length} videos with ${provider.name}`);
-                return videos;
-            }
-        } catch (e) {
-            console.error(`Provider ${provider.name} failed:`, e);
-        }
-    }
-    throw new Error('Todos os provedores de busca de vídeo falharam.');
-}
-
-
-// --- Music Search Providers ---
-
-interface MusicProvider {
-    name: string;
-    searchUrl: (query: string) => string;
-    parseResponse: (data: any) => YouTubeTrack[];
-}
-
-const sanitizeTitle = (title: string): string => {
-     return title.replace(/\[.*?\]/g, '').replace(/\(.*?\)/g, '').replace(/official video/i, '').replace(/music video/i, '').replace(/lyrics/i, '').trim();
-};
-
-const parseInvidiousMusicResponse = (data: any): YouTubeTrack[] => {
-    if (!Array.isArray(data)) return [];
-    return data
-        .map((item: any): Partial<YouTubeTrack> => {
-            if (item.type !== 'video' || !item.videoId || !item.title) return {};
-            return {
-                id: item.videoId,
-                title: sanitizeTitle(item.title),
-                artist: item.author,
-                thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
-            };
-        })
-        .filter((track): track is YouTubeTrack => !!track.id && !!track.title && !!track.thumbnailUrl && track.thumbnailUrl.startsWith('http'));
-};
-
-const parsePipedMusicResponse = (data: any): YouTubeTrack[] => {
-    if (!data.items || !Array.isArray(data.items)) return [];
-    return data.items
-        .map((item: any): Partial<YouTubeTrack> => {
-            if (item.type !== 'stream' || !item.url || !item.title) return {};
-            const videoIdMatch = item.url.match(/v=([^&]+)/);
-            if (!videoIdMatch || !videoIdMatch[1]) return {};
-            const videoId = videoIdMatch[1];
-            return {
-                id: videoId,
-                title: sanitizeTitle(item.title),
-                artist: item.uploaderName,
-                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
-            };
-        })
-        .filter((track): track is YouTubeTrack => !!track.id && !!track.title && !!track.thumbnailUrl && track.thumbnailUrl.startsWith('http'));
-};
-
-
-const musicProviders: MusicProvider[] = [
-    ...invidiousApiInstances.map(instance => ({
-        name: `Invidious Music (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=video&features=music&sort_by=relevance`,
-        parseResponse: parseInvidiousMusicResponse
-    })),
-    ...pipedApiInstances.map(instance => ({
-        name: `Piped Music (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=music_songs`,
-        parseResponse: parsePipedMusicResponse
-    }))
-];
-
-
-async function searchMusicFromProviders(searchQuery: string): Promise<YouTubeTrack[]> {
-    const shuffledProviders = shuffleArray(musicProviders);
-
-    for (const provider of shuffledProviders) {
-        console.log(`Attempting music search with: ${provider.name}`);
-        try {
-            const response = await fetchWithTimeout(provider.searchUrl(searchQuery));
-            if (!response.ok) throw new Error(`Response not OK: ${response.status}`);
-            
-            const data = await response.json();
-            const tracks = provider.parseResponse(data);
-
-            if (tracks.length > 0) {
-                console.log(`Found ${tracks.length} tracks with ${provider.name}`);
-                return tracks;
-            }
-        } catch (e) {
-            console.error(`Provider ${provider.name} failed:`, e);
-        }
-    }
-    throw new Error('Todos os provedores de busca de música falharam.');
-}
-
-// --- Playlist Search Providers ---
-
-interface PlaylistSearchProvider {
-    name: string;
-    searchUrl: (query: string) => string;
-    parseResponse: (data: any) => YouTubePlaylist[];
-}
-
-const parseInvidiousPlaylistSearchResponse = (data: any): YouTubePlaylist[] => {
-    if (!Array.isArray(data)) return [];
-    return data
-        .map((item: any): Partial<YouTubePlaylist> => {
-            if (item.type !== 'playlist' || !item.playlistId || !item.title) return {};
-            
-            const firstVideoThumbnail = item.videos?.[0]?.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url;
-            
-            return {
-                id: item.playlistId,
-                title: item.title,
-                thumbnailUrl: firstVideoThumbnail || `https://i.ytimg.com/vi/${item.videos?.[0]?.videoId}/hqdefault.jpg`,
-                videoCount: item.videoCount,
-                uploaderName: item.author,
-            };
-        })
-        .filter((playlist): playlist is YouTubePlaylist => !!playlist.id && !!playlist.title && !!playlist.thumbnailUrl);
-};
-
-const parsePipedPlaylistSearchResponse = (data: any): YouTubePlaylist[] => {
-    if (!data.items || !Array.isArray(data.items)) return [];
-    return data.items
-        .map((item: any): Partial<YouTubePlaylist> => {
-            if (item.type !== 'playlist' || !item.url || !item.name) return {};
-            const playlistIdMatch = item.url.match(/list=([^&]+)/);
-            if (!playlistIdMatch || !playlistIdMatch[1]) return {};
-            
-            return {
-                id: playlistIdMatch[1],
-                title: item.name,
-                thumbnailUrl: item.thumbnail,
-                videoCount: item.videos,
-                uploaderName: item.uploaderName,
-            };
-        })
-        .filter((playlist): playlist is YouTubePlaylist => !!playlist.id && !!playlist.title && !!playlist.thumbnailUrl);
-};
-
-const playlistSearchProviders: PlaylistSearchProvider[] = [
-    ...invidiousApiInstances.map(instance => ({
-        name: `Invidious Playlist Search (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=playlist&region=BR`,
-        parseResponse: parseInvidiousPlaylistSearchResponse
-    })),
-    ...pipedApiInstances.map(instance => ({
-        name: `Piped Playlist Search (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=playlists`,
-        parseResponse: parsePipedPlaylistSearchResponse
-    }))
-];
-
-async function searchPlaylistsFromProviders(searchQuery: string): Promise<YouTubePlaylist[]> {
-    const shuffledProviders = shuffleArray(playlistSearchProviders);
-
-    for (const provider of shuffledProviders) {
-        console.log(`Attempting playlist search with: ${provider.name}`);
-        try {
-            const response = await fetchWithTimeout(provider.searchUrl(searchQuery));
-            if (!response.ok) throw new Error(`Response not OK: ${response.status}`);
-            
-            const data = await response.json();
-            const playlists = provider.parseResponse(data);
-
-            if (playlists.length > 0) {
-                console.log(`Found ${playlists.length} playlists with ${provider.name}`);
-                return playlists;
-            }
-        } catch (e) {
-            console.error(`Provider ${provider.name} failed:`, e);
-        }
-    }
-    throw new Error('Todos os provedores de busca de playlist falharam.');
-}
-
-
-// --- Playlist Fetching Providers ---
-
 const playlistIdRegex = /(?:list=)([\w-]+)/;
+const channelIdRegex = /^(?:https?:\/\/(?:www\.|m\.)?youtube\.com\/channel\/)?(UC[\w-]{22})(?:[/?#].*)?$/;
 
-interface PlaylistProvider {
-    name: string;
-    playlistUrl: (playlistId: string) => string;
-    parseResponse: (data: any, existingVideoIds: Set<string>) => Video[];
-}
-
-const parseInvidiousPlaylistResponse = (data: any, existingVideoIds: Set<string>): Video[] => {
-    if (!data.videos || !Array.isArray(data.videos)) return [];
-    return data.videos
-        .map((item: any): Partial<Video> => {
-            if (!item.videoId || !item.title) return {};
-            return {
-                id: item.videoId,
-                title: item.title,
-                duration: formatSecondsDuration(item.lengthSeconds),
-                thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
-                platform: 'youtube',
-            };
-        })
-        .filter((video): video is Video => {
-             return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
-        });
-};
-
-const parsePipedPlaylistResponse = (data: any, existingVideoIds: Set<string>): Video[] => {
-    if (!data.relatedStreams || !Array.isArray(data.relatedStreams)) return [];
-    return data.relatedStreams
-        .map((item: any): Partial<Video> => {
-            if (item.type !== 'stream' || !item.url || !item.title) return {};
-            const videoIdMatch = item.url.match(/v=([^&]+)/);
-            if (!videoIdMatch || !videoIdMatch[1]) return {};
-            
-            const videoId = videoIdMatch[1];
-            return {
-                id: videoId,
-                title: item.title,
-                duration: formatSecondsDuration(item.duration),
-                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
-                platform: 'youtube',
-            };
-        })
-        .filter((video): video is Video => {
-            return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
-        });
-};
-
-const playlistProviders: PlaylistProvider[] = [
-    ...invidiousApiInstances.map(instance => ({
-        name: `Invidious Playlist (${new URL(instance).hostname})`,
-        playlistUrl: (playlistId: string) => `${instance}/api/v1/playlists/${playlistId}`,
-        parseResponse: parseInvidiousPlaylistResponse
-    })),
-    ...pipedApiInstances.map(instance => ({
-        name: `Piped Playlist (${new URL(instance).hostname})`,
-        playlistUrl: (playlistId: string) => `${instance}/playlists/${playlistId}`,
-        parseResponse: parsePipedPlaylistResponse
-    }))
-];
-
-async function getVideosFromPlaylistProviders(playlistId: string, existingVideoIds: Set<string>): Promise<Video[]> {
-    const shuffledProviders = shuffleArray(playlistProviders);
-
-    for (const provider of shuffledProviders) {
-        console.log(`Attempting playlist fetch with: ${provider.name}`);
-        try {
-            const response = await fetchWithTimeout(provider.playlistUrl(playlistId), 10000); // Longer timeout for playlists
-            if (!response.ok) throw new Error(`Response not OK: ${response.status}`);
-            
-            const data = await response.json();
-            const videos = provider.parseResponse(data, existingVideoIds);
-
-            if (videos.length > 0) {
-                console.log(`Found ${videos.length} videos in playlist with ${provider.name}`);
-                return videos;
-            }
-        } catch (e) {
-            console.error(`Provider ${provider.name} failed:`, e);
-        }
-    }
-    throw new Error('Todos os provedores de busca de playlist falharam.');
-}
+// "UC..." IDs and /channel/ URLs; handles and names have to go through searchYouTubeChannels.
+export const extractYouTubeChannelId = (input: string): string | null => input.trim().match(channelIdRegex)?.[1] ?? null;
 
 
 // --- Main Exported Service Functions ---
 
-export const searchYouTubePlaylists = async (query: string): Promise<YouTubePlaylist[]> => {
+// Health of every search instance, for the AdminPanel.
+export const getSearchProviderHealth = () => getProviderHealth([...invidiousApiInstances, ...pipedApiInstances]);
+
+// The search functions below answer from the search cache when they can; `onRefresh` receives newer
+// results when a stale cache entry is refreshed in the background.
+export const searchYouTubePlaylists = async (query: string, onRefresh?: (playlists: YouTubePlaylist[]) => void): Promise<YouTubePlaylist[]> => {
     try {
-        return await searchPlaylistsFromProviders(query);
+        return await cachedSearch('playlists', query, () => searchPlaylistsFromProviders(query, providerHealthHooks), onRefresh);
     } catch (error) {
         console.error("An unexpected error occurred during the playlist search:", error);
         if (error instanceof Error) {
@@ -479,7 +117,7 @@ export const getVideosFromPlaylistUrl = async (url: string, existingVideoIds: Se
     const playlistId = match[1];
 
     try {
-        return await getVideosFromPlaylistProviders(playlistId, existingVideoIds);
+        return await getVideosFromPlaylistProviders(playlistId, existingVideoIds, providerHealthHooks);
     } catch (error) {
          console.error("An unexpected error occurred during the playlist fetch:", error);
         if (error instanceof Error) {
@@ -489,65 +127,78 @@ export const getVideosFromPlaylistUrl = async (url: string, existingVideoIds: Se
     }
 };
 
-export const searchYouTubeVideos = async (query: string): Promise<Video[]> => {
+export const searchYouTubeChannels = async (query: string, onRefresh?: (channels: YouTubeChannel[]) => void): Promise<YouTubeChannel[]> => {
     try {
-        return await searchVideosFromProviders(query, new Set());
+        return await cachedSearch('channels', query, () => searchChannelsFromProviders(query, providerHealthHooks), onRefresh);
     } catch (error) {
-        console.error("An unexpected error occurred during the YouTube video search:", error);
+        console.error("An unexpected error occurred during the channel search:", error);
         if (error instanceof Error) {
-            throw new Error(`Busca de vídeos indisponível: ${error.message}`);
+            throw new Error(`Busca de canais indisponível: ${error.message}`);
         }
-        throw new Error("Falha ao se comunicar com o serviço de busca de vídeos.");
+        throw new Error("Falha ao se comunicar com os serviços de busca de canais.");
     }
 };
 
-export const searchVideosByAI = async (query: string, allVideos: Video[]): Promise<Video[]> => {
-    if (allVideos.length === 0) {
-        return [];
-    }
+// Recent uploads of a channel. Nothing is filtered out, so the import preview can flag videos already in the track.
+export const getVideosFromChannel = async (channelId: string): Promise<Video[]> => {
     try {
-        const response = await handleApiCall<GenerateContentResponse>(() => {
-            const videoDataForPrompt = allVideos.map(v => ({ id: v.id, title: v.title }));
-            const prompt = `Você é um assistente de busca inteligente para uma plataforma de vídeos.
-O usuário está buscando por: "${query}".
-Aqui está uma lista de vídeos disponíveis em formato JSON:
-${JSON.stringify(videoDataForPrompt)}
+        return await getVideosFromChannelProviders(channelId, new Set(), providerHealthHooks);
+    } catch (error) {
+        console.error("An unexpected error occurred during the channel fetch:", error);
+        if (error instanceof Error) {
+            throw new Error(`Busca do canal indisponível: ${error.message}`);
+        }
+        throw new Error("Falha ao se comunicar com o serviço de busca de canais.");
+    }
+};
 
-Analise a busca do usuário e os títulos dos vídeos para encontrar os mais relevantes semanticamente.
-Retorne APENAS um array JSON com os 'id' dos vídeos que melhor correspondem à busca, ordenados por relevância.`;
+export const searchYouTubeVideos = async (query: string, onRefresh?: (videos: Video[]) => void): Promise<Video[]> => {
+    try {
+        return await cachedSearch('videos', query, () => searchVideosFromProviders(query, new Set(), providerHealthHooks), onRefresh);
+    } catch (error) {
+        console.error("An unexpected error occurred during the YouTube video search:", error);
+        if (error instanceof Error) {
+            throw new Error(`Busca de vídeos indisponível: ${error.message}`);
+        }
+        throw new Error("Falha ao se comunicar com o serviço de busca de vídeos.");
+    }
+};
 
-            return ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    }
-                }
-            });
-        }, 'searchVideosByAI');
+// --- Embeddings (semantic catalog search) ---
 
-        const matchedIds = JSON.parse(response.text) as string[];
-        const videoMap = new Map(allVideos.map(v => [v.id, v]));
-        // Retorna os vídeos na ordem que a IA decidiu
-        return matchedIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v);
+export const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+const EMBEDDING_BATCH_SIZE = 100; // Per-request limit of the embeddings API
 
-    } catch (error) {
-        if (error instanceof QuotaExceededError) {
-            window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'Cota de IA excedida. Usando busca de simulação.' }}));
-            return allVideos.filter(v => v.title.toLowerCase().includes(query.toLowerCase())).slice(0, 5);
+// Embeds texts in order. Returns null when AI is unavailable (no key, quota exceeded) so the caller can
+// switch to the local embedding in utils/embeddings.ts.
+export const embedTexts = async (texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'): Promise<number[][] | null> => {
+    const vectors: number[][] = [];
+    try {
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const response = await handleApiCall(() => ai.models.embedContent({
+                model: GEMINI_EMBEDDING_MODEL,
+                contents: batch,
+                config: { taskType },
+            }), 'embedTexts');
+            const batchVectors = (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+            if (batchVectors.length !== batch.length) {
+                throw new Error(`Expected ${batch.length} embeddings, got ${batchVectors.length}.`);
+            }
+            vectors.push(...batchVectors);
         }
+        return vectors;
+    } catch (error) {
+        if (error instanceof QuotaExceededError) return null;
         throw error;
     }
 };
 
-export const searchYouTubeMusic = async (query: string): Promise<YouTubeTrack[]> => {
+export const searchYouTubeMusic = async (query: string, onRefresh?: (tracks: YouTubeTrack[]) => void): Promise<YouTubeTrack[]> => {
     const searchQuery = `${query} official audio | ${query} lyrics | ${query} music`;
 
     try {
-        return await searchMusicFromProviders(searchQuery);
+        return await cachedSearch('music', query, () => searchMusicFromProviders(searchQuery, providerHealthHooks), onRefresh);
     } catch (error) {
         console.error("An unexpected error occurred during the YouTube Music API search:", error);
         if (error instanceof Error) {
@@ -617,44 +268,101 @@ export const generateLiveStyles = async (prompt: string): Promise<string> => {
     }
 };
 
-export const generateEbookProjectStream = async function* (topic: string, numChapters: number): AsyncGenerator<string> {
+// Audience, tone and language lines shared by the outline and section prompts.
+const describeEbookStyle = (config: ProjectGenerationConfig): string => `- Público: ${ebookAudienceLevels[config.audience].instruction}.
+- Tom: ${ebookTones[config.tone].instruction}.
+- Idioma: escreva em ${ebookLanguages[config.language].instruction}.`;
+
+// First phase of ebook generation: titles and summaries only, for the user to review before any chapter is written.
+// A user-provided outline keeps its titles; the model only fills in summaries and icons.
+export const generateEbookOutline = async (config: ProjectGenerationConfig, signal?: AbortSignal): Promise<EbookOutline> => {
+    let outline: EbookOutline;
+    try {
+        const response = await handleApiCall<GenerateContentResponse>(() => {
+            const userOutline = config.outline?.length
+                ? `\nUse exatamente estes capítulos, nesta ordem e com estes títulos:\n${config.outline.map((title, i) => `${i + 1}. ${title}`).join('\n')}\n`
+                : '';
+            const prompt = `Planeje um ebook sobre "${config.topic}" com exatamente ${config.chapters} capítulos.
+${describeEbookStyle(config)} Os nomes dos campos do JSON e dos ícones não mudam.
+${userOutline}
+Retorne um objeto JSON no schema especificado, com:
+- 'title': o título do ebook.
+- 'chapters': os ${config.chapters} capítulos em ordem. Em cada um, 'title' é o título sem o número do capítulo, 'summary' resume em uma ou duas frases o que o capítulo deve cobrir e 'icon' é um e apenas um nome de ícone desta lista que melhor represente o conteúdo: ${EBOOK_CHAPTER_ICONS.join(', ')}.
+Os capítulos devem seguir uma progressão lógica, sem repetir assuntos.`;
+
+            return ai.models.generateContent({
+                model: 'gemini-2.5-flash',
+                contents: prompt,
+                config: {
+                    systemInstruction: "Você é um escritor especialista em criar conteúdo educacional estruturado em formato de ebook.",
+                    responseMimeType: "application/json",
+                    responseSchema: ebookOutlineSchema,
+                    abortSignal: signal
+                }
+            });
+        }, 'generateEbookOutline');
+        outline = parseEbookOutlineJson(response.text, config.topic);
+    } catch (error) {
+        if (!(error instanceof QuotaExceededError)) throw error;
+        window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'Cota de IA excedida. Usando dados de simulação.' }}));
+        outline = mockService.getMockEbookOutline();
+    }
+
+    if (!config.outline?.length) {
+        return { ...outline, chapters: outline.chapters.slice(0, config.chapters) };
+    }
+    return {
+        ...outline,
+        chapters: config.outline.map((title, i) => ({
+            title,
+            summary: outline.chapters[i]?.summary ?? '',
+            icon: outline.chapters[i]?.icon ?? 'BookOpen',
+        })),
+    };
+};
+
+// Second phase: writes one section of an approved outline as markdown. Each section is its own call, so a
+// failure only costs that section. Aborting `signal` cancels the request; callers stop reading at the same time.
+// Unlike the other generators there is no mock fallback: the text is saved into the user's draft, so without the
+// API the section fails and can be retried later.
+export const generateEbookSectionStream = async function* (config: ProjectGenerationConfig, outline: EbookOutline, section: EbookSection, signal?: AbortSignal): AsyncGenerator<string> {
     if (isApiKeyMissing) {
-        window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'Chave de API não configurada. Usando dados de simulação.' }}));
-        yield* mockService.getMockEbookStreamGenerator();
-        return; // Stop execution
+        throw new Error("Chave de API não configurada. Não é possível escrever esta seção.");
+    }
+    if (isGeminiQuotaExceeded) {
+        throw new Error("A cota da API do Gemini já foi excedida nesta sessão. Tente esta seção novamente mais tarde.");
     }
 
     try {
-        if (isGeminiQuotaExceeded) {
-             throw new QuotaExceededError("A cota da API do Gemini já foi excedida nesta sessão.");
-        }
-        const availableIcons: IconName[] = ['BookOpen', 'Brain', 'Chart', 'Dollar', 'Fire', 'Heart', 'Sparkles', 'Wrench', 'Film', 'Dumbbell', 'Cart'];
-        const prompt = `Crie um ebook detalhado sobre "${topic}" com 10 a 12 capítulos. A resposta DEVE estar em markdown, seguindo estritamente esta estrutura:
-- Título do Ebook: Comece a primeira linha com "# "
-- Introdução: Comece com a tag "[INTRODUÇÃO]"
-- Capítulos: Use o formato "[CAPÍTULO X: Título do Capítulo][ÍCONE: NomeDoIcone]"
-- Conclusão: Comece com a tag "[CONCLUSÃO]"
+        const target = section.kind === 'introduction'
+            ? `a introdução do ebook, apresentando o tema e o que o leitor vai aprender, com cerca de ${Math.round(config.wordsPerChapter / 2)} palavras`
+            : section.kind === 'conclusion'
+                ? `a conclusão do ebook, retomando os pontos principais e sugerindo próximos passos, com cerca de ${Math.round(config.wordsPerChapter / 2)} palavras`
+                : `o capítulo ${section.index + 1}, "${outline.chapters[section.index].title}" (${outline.chapters[section.index].summary}), com cerca de ${config.wordsPerChapter} palavras. Não repita o que os outros capítulos cobrem`;
 
-Para cada tag "[ÍCONE: NomeDoIcone]", escolha um e apenas um nome de ícone da seguinte lista que melhor represente o conteúdo do capítulo: ${availableIcons.join(', ')}.
-Exemplo de capítulo: "[CAPÍTULO 1: Fundamentos da IA][ÍCONE: Brain]"
-Escreva conteúdo substancial e detalhado para cada seção. Não adicione nenhum texto ou formatação fora desta estrutura.`;
+        const prompt = `Você está escrevendo o ebook "${outline.title}" sobre "${config.topic}".
+${describeEbookStyle(config)}
+
+Roteiro aprovado:
+${outline.chapters.map((c, i) => `${i + 1}. ${c.title}: ${c.summary}`).join('\n')}
+
+Escreva agora ${target}.
+Retorne apenas o texto em markdown, sem o título da seção e sem comentários sobre a tarefa.`;
 
         const stream = await ai.models.generateContentStream({
             model: 'gemini-2.5-flash',
             contents: prompt,
-            config: { systemInstruction: "Você é um escritor especialista em criar conteúdo educacional estruturado em formato de ebook, seguindo rigorosamente as instruções de formatação." }
+            config: {
+                systemInstruction: "Você é um escritor especialista em criar conteúdo educacional estruturado em formato de ebook.",
+                abortSignal: signal
+            }
         });
         for await (const chunk of stream) {
             yield chunk.text;
         }
     } catch (error) {
-        if (error instanceof QuotaExceededError) {
-            window.dispatchEvent(new CustomEvent('app-notification', { detail: { type: 'info', message: 'Cota de IA excedida. Usando dados de simulação.' }}));
-            yield* mockService.getMockEbookStreamGenerator();
-            return;
-        }
-        console.error("generateEbookProjectStream error:", error);
-        throw new Error("Falha ao gerar o projeto do ebook. " + (error as Error).message);
+        console.error("generateEbookSectionStream error:", error);
+        throw new Error("Falha ao gerar esta seção do ebook. " + (error as Error).message);
     }
 };
 
@@ -669,7 +377,6 @@ export const extendEbookProjectStream = async function* (project: Project): Asyn
         if (isGeminiQuotaExceeded) {
              throw new QuotaExceededError("A cota da API do Gemini já foi excedida nesta sessão.");
         }
-        const availableIcons: IconName[] = ['BookOpen', 'Brain', 'Chart', 'Dollar', 'Fire', 'Heart', 'Sparkles', 'Wrench', 'Film', 'Dumbbell', 'Cart', 'UsersGroup', 'Pencil'];
         const lastChapterNumber = project.chapters.length;
         const projectSummary = `
 Título: ${project.name}
@@ -682,20 +389,19 @@ Conclusão (até agora): ${project.conclusion}
 Aqui está um resumo do conteúdo existente:
 ${projectSummary}
 
-Continue o ebook escrevendo mais 10 capítulos, começando pelo capítulo ${lastChapterNumber + 1}.
-A resposta DEVE estar em markdown, seguindo estritamente esta estrutura para os novos capítulos:
-- Capítulos: Use o formato "[CAPÍTULO X: Título do Capítulo][ÍCONE: NomeDoIcone]"
-- NÃO inclua uma nova introdução ou conclusão.
-- NÃO repita os capítulos existentes.
-
-Para cada tag "[ÍCONE: NomeDoIcone]", escolha um e apenas um nome de ícone da seguinte lista que melhor represente o conteúdo do capítulo: ${availableIcons.join(', ')}.
-Exemplo de capítulo: "[CAPÍTULO ${lastChapterNumber + 1}: Tópico Avançado][ÍCONE: Brain]"
-Escreva conteúdo substancial e detalhado para cada novo capítulo. Não adicione nenhum texto ou formatação fora desta estrutura. Comece diretamente com o primeiro novo capítulo.`;
+Continue o ebook escrevendo mais 10 capítulos, que virão depois do capítulo ${lastChapterNumber}.
+Retorne um objeto JSON no schema especificado, com apenas 'chapters': os novos capítulos em ordem.
+Em cada um, 'title' é o título sem o número do capítulo, 'content' é o texto completo em markdown e 'icon' é um e apenas um nome de ícone desta lista que melhor represente o conteúdo: ${EBOOK_CHAPTER_ICONS.join(', ')}.
+NÃO repita os capítulos existentes. Escreva conteúdo substancial e detalhado para cada novo capítulo.`;
 
         const stream = await ai.models.generateContentStream({
             model: 'gemini-2.5-flash',
             contents: prompt,
-            config: { systemInstruction: "Você é um escritor especialista em continuar conteúdo educacional estruturado, seguindo rigorosamente as instruções de formatação." }
+            config: {
+                systemInstruction: "Você é um escritor especialista em continuar conteúdo educacional estruturado.",
+                responseMimeType: "application/json",
+                responseSchema: ebookExtensionSchema
+            }
         });
 
         for await (const chunk of stream) {
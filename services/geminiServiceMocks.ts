@@ -1,6 +1,6 @@
 // Fix: Provide the full implementation for the Gemini mock service.
 import { Type } from "@google/genai";
-import type { QuizQuestion, VideoScript, ShortFormVideoScript, Slide } from "../types";
+import type { QuizQuestion, VideoScript, ShortFormVideoScript, Slide, EbookOutline } from "../types";
 
 export const getMockMeetingChatResponse = (): string => {
     return "Claro! O ponto principal da última reunião foi a decisão de focar no marketing de conteúdo para o próximo trimestre. Alguma outra pergunta?";
@@ -30,54 +30,42 @@ export const getMockLiveStyles = (): string => {
     `;
 };
 
-export async function* getMockEbookStreamGenerator(): AsyncGenerator<string> {
-    const fullText = `
-# O Guia Definitivo de Mock Data para Desenvolvedores
-
-[INTRODUÇÃO]
-Bem-vindo ao mundo dos dados simulados! Este ebook é o seu guia completo para dominar a arte de criar e usar dados mockados em seus projetos. Desde testes unitários até o desenvolvimento de interfaces complexas, os dados mockados são a chave para um fluxo de trabalho mais rápido e eficiente.
-
-[CAPÍTULO 1: Fundamentos Essenciais][ÍCONE: Brain]
-Exploramos a definição de 'mock data'. Discutimos por que eles são cruciais e a diferença fundamental entre dados mockados, stubs e fakes.
-
-[CAPÍTULO 2: Geração de Dados com Faker.js][ÍCONE: Wrench]
-Um mergulho profundo na biblioteca Faker.js. Aprenda a gerar nomes, endereços, textos e muito mais para popular suas aplicações durante o desenvolvimento.
-
-[CAPÍTULO 3: Mockando APIs com MSW][ÍCONE: Share]
-Descubra como usar o Mock Service Worker (MSW) para interceptar requisições de rede e retornar respostas mockadas, permitindo que o front-end trabalhe de forma independente do back-end.
-
-[CAPÍTULO 4: Estratégias de Teste][ÍCONE: Check]
-Veja como dados mockados são vitais para testes unitários, de integração e end-to-end, garantindo que seu código seja robusto e confiável.
-
-[CAPÍTULO 5: Dados para Componentes de UI][ÍCONE: Film]
-Aprenda a criar cenários de dados para seus componentes de UI, cobrindo todos os casos de uso, desde estados de carregamento e erro até a exibição de listas longas.
-
-[CAPÍTULO 6: Mockaroo e Outras Ferramentas Visuais][ÍCONE: Chart]
-Analisamos ferramentas baseadas em UI como o Mockaroo, que permitem gerar grandes volumes de dados em formatos como CSV, JSON e SQL sem escrever uma linha de código.
-
-[CAPÍTULO 7: O Lado Comercial][ÍCONE: Dollar]
-Entenda como o uso de dados mockados pode economizar tempo e dinheiro para sua equipe e sua empresa, resultando em um ROI positivo.
-
-[CAPÍTULO 8: Desafios e Armadilhas][ÍCONE: Fire]
-Discutimos os problemas comuns, como dados que não representam a realidade e a manutenção de mocks complexos, e como evitá-los.
-
-[CAPÍTULO 9: Integração Contínua (CI/CD)][ÍCONE: Gear]
-Veja como integrar a geração de dados mockados em seu pipeline de CI/CD para automatizar testes e garantir a qualidade contínua do software.
-
-[CAPÍTULO 10: O Futuro dos Dados Sintéticos][ÍCONE: Sparkles]
-Exploramos as tendências emergentes, incluindo a geração de dados sintéticos com IA para criar conjuntos de dados ainda mais realistas e complexos para treinamento de modelos de machine learning.
-
-[CONCLUSÃO]
-Parabéns! Você agora tem o conhecimento necessário para implementar estratégias de mock data eficazes em qualquer projeto. Use esse poder para construir, testar e inovar mais rápido do que nunca.
-    `;
+const mockEbook = {
+    title: "O Guia Definitivo de Mock Data para Desenvolvedores",
+    introduction: "Bem-vindo ao mundo dos dados simulados! Este ebook é o seu guia completo para dominar a arte de criar e usar dados mockados em seus projetos. Desde testes unitários até o desenvolvimento de interfaces complexas, os dados mockados são a chave para um fluxo de trabalho mais rápido e eficiente.",
+    chapters: [
+        { title: "Fundamentos Essenciais", icon: "Brain", content: "Exploramos a definição de 'mock data'. Discutimos por que eles são cruciais e a diferença fundamental entre dados mockados, stubs e fakes." },
+        { title: "Geração de Dados com Faker.js", icon: "Wrench", content: "Um mergulho profundo na biblioteca Faker.js. Aprenda a gerar nomes, endereços, textos e muito mais para popular suas aplicações durante o desenvolvimento." },
+        { title: "Mockando APIs com MSW", icon: "Wrench", content: "Descubra como usar o Mock Service Worker (MSW) para interceptar requisições de rede e retornar respostas mockadas, permitindo que o front-end trabalhe de forma independente do back-end." },
+        { title: "Estratégias de Teste", icon: "Sparkles", content: "Veja como dados mockados são vitais para testes unitários, de integração e end-to-end, garantindo que seu código seja robusto e confiável." },
+        { title: "Dados para Componentes de UI", icon: "Film", content: "Aprenda a criar cenários de dados para seus componentes de UI, cobrindo todos os casos de uso, desde estados de carregamento e erro até a exibição de listas longas." },
+        { title: "Mockaroo e Outras Ferramentas Visuais", icon: "Chart", content: "Analisamos ferramentas baseadas em UI como o Mockaroo, que permitem gerar grandes volumes de dados em formatos como CSV, JSON e SQL sem escrever uma linha de código." },
+        { title: "O Lado Comercial", icon: "Dollar", content: "Entenda como o uso de dados mockados pode economizar tempo e dinheiro para sua equipe e sua empresa, resultando em um ROI positivo." },
+        { title: "Desafios e Armadilhas", icon: "Fire", content: "Discutimos os problemas comuns, como dados que não representam a realidade e a manutenção de mocks complexos, e como evitá-los." },
+        { title: "Integração Contínua (CI/CD)", icon: "Chart", content: "Veja como integrar a geração de dados mockados em seu pipeline de CI/CD para automatizar testes e garantir a qualidade contínua do software." },
+        { title: "O Futuro dos Dados Sintéticos", icon: "Sparkles", content: "Exploramos as tendências emergentes, incluindo a geração de dados sintéticos com IA para criar conjuntos de dados ainda mais realistas e complexos para treinamento de modelos de machine learning." },
+    ],
+    conclusion: "Parabéns! Você agora tem o conhecimento necessário para implementar estratégias de mock data eficazes em qualquer projeto. Use esse poder para construir, testar e inovar mais rápido do que nunca.",
+};
 
-    const words = fullText.split(' ');
-    for (const word of words) {
-        yield word + ' ';
+// Streams in small pieces, the way the real model does.
+async function* streamMockText(text: string): AsyncGenerator<string> {
+    for (let i = 0; i < text.length; i += 40) {
+        yield text.slice(i, i + 40);
         await new Promise(resolve => setTimeout(resolve, 10));
     }
 }
 
+// Streams the mock as the JSON the real model returns.
+async function* streamMockJson(data: unknown): AsyncGenerator<string> {
+    yield* streamMockText(JSON.stringify(data, null, 2));
+}
+
+export const getMockEbookOutline = (): EbookOutline => ({
+    title: mockEbook.title,
+    chapters: mockEbook.chapters.map(({ title, icon, content }) => ({ title, icon, summary: content })) as EbookOutline['chapters'],
+});
+
 export const getMockImagePrompt = (): string => {
     return "digital art of a glowing brain made of code, cinematic lighting, vibrant neon colors, dark background";
 };
@@ -209,6 +197,47 @@ export const presentationSchema = {
     }
 };
 
+const ebookChapterSchema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING, description: "Título do capítulo, sem o número." },
+        icon: { type: Type.STRING, description: "Um dos nomes de ícone permitidos no prompt." },
+        content: { type: Type.STRING, description: "Texto completo do capítulo, em markdown." }
+    },
+    required: ["title", "icon", "content"],
+    propertyOrdering: ["title", "icon", "content"]
+};
+
+export const ebookOutlineSchema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        chapters: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING, description: "Título do capítulo, sem o número." },
+                    summary: { type: Type.STRING, description: "O que o capítulo deve cobrir, em uma ou duas frases." },
+                    icon: { type: Type.STRING, description: "Um dos nomes de ícone permitidos no prompt." }
+                },
+                required: ["title", "summary", "icon"],
+                propertyOrdering: ["title", "summary", "icon"]
+            }
+        }
+    },
+    required: ["title", "chapters"],
+    propertyOrdering: ["title", "chapters"]
+};
+
+export const ebookExtensionSchema = {
+    type: Type.OBJECT,
+    properties: {
+        chapters: { type: Type.ARRAY, items: ebookChapterSchema }
+    },
+    required: ["chapters"]
+};
+
 export const getMockPresentation = (): Slide[] => {
     return [
         {
@@ -272,41 +301,21 @@ export const getMockWebpage = (): string => {
     `;
 };
 
-export async function* getMockExtendEbookStreamGenerator(): AsyncGenerator<string> {
-    const fullText = `
-[CAPÍTULO 11: O Guia de Estilo][ÍCONE: Pencil]
-Como manter a consistência visual e textual em seus mocks para que eles se pareçam com os dados reais.
-
-[CAPÍTULO 12: Performance e Otimização][ÍCONE: Fire]
-Técnicas para gerar grandes volumes de dados mockados sem impactar a performance da sua aplicação durante o desenvolvimento.
-
-[CAPÍTULO 13: Mocking de Datas e Horas][ÍCONE: Chart]
-Lidando com o desafio de mockar o tempo, fusos horários e durações de forma consistente em seus testes.
-
-[CAPÍTULO 14: Segurança de Dados Mockados][ÍCONE: Heart]
-Por que você nunca deve usar dados de produção para testes e como garantir que seus dados mockados sejam seguros e anônimos.
-
-[CAPÍTULO 15: Mocking para Mobile][ÍCONE: Wrench]
-Estratégias específicas para mockar APIs e dados em aplicações iOS e Android, considerando cenários offline e de rede lenta.
-
-[CAPÍTULO 16: Colaboração em Equipe][ÍCONE: UsersGroup]
-Como compartilhar e versionar seus mocks para que toda a equipe, de QAs a designers, possa usá-los de forma eficaz.
-
-[CAPÍTULO 17: Mocking de Serviços de Terceiros][ÍCONE: Share]
-Aprenda a simular respostas de APIs de terceiros, como gateways de pagamento e serviços de login social.
-
-[CAPÍTULO 18: Geração de Dados com IA][ÍCONE: Brain]
-Uma olhada em como usar modelos de linguagem como o Gemini para gerar dados mockados contextualmente ricos e variados.
-
-[CAPÍTULO 19: Mocking de Estados de Aplicação][ÍCONE: Gear]
-Como usar ferramentas de gerenciamento de estado como Redux ou Zustand para mockar diferentes estados da sua aplicação para depuração.
+const mockEbookExtension = {
+    chapters: [
+        { title: "O Guia de Estilo", icon: "Pencil", content: "Como manter a consistência visual e textual em seus mocks para que eles se pareçam com os dados reais." },
+        { title: "Performance e Otimização", icon: "Fire", content: "Técnicas para gerar grandes volumes de dados mockados sem impactar a performance da sua aplicação durante o desenvolvimento." },
+        { title: "Mocking de Datas e Horas", icon: "Chart", content: "Lidando com o desafio de mockar o tempo, fusos horários e durações de forma consistente em seus testes." },
+        { title: "Segurança de Dados Mockados", icon: "Heart", content: "Por que você nunca deve usar dados de produção para testes e como garantir que seus dados mockados sejam seguros e anônimos." },
+        { title: "Mocking para Mobile", icon: "Wrench", content: "Estratégias específicas para mockar APIs e dados em aplicações iOS e Android, considerando cenários offline e de rede lenta." },
+        { title: "Colaboração em Equipe", icon: "UsersGroup", content: "Como compartilhar e versionar seus mocks para que toda a equipe, de QAs a designers, possa usá-los de forma eficaz." },
+        { title: "Mocking de Serviços de Terceiros", icon: "Cart", content: "Aprenda a simular respostas de APIs de terceiros, como gateways de pagamento e serviços de login social." },
+        { title: "Geração de Dados com IA", icon: "Brain", content: "Uma olhada em como usar modelos de linguagem como o Gemini para gerar dados mockados contextualmente ricos e variados." },
+        { title: "Mocking de Estados de Aplicação", icon: "Brain", content: "Como usar ferramentas de gerenciamento de estado como Redux ou Zustand para mockar diferentes estados da sua aplicação para depuração." },
+        { title: "Medindo o Sucesso", icon: "Dollar", content: "Como quantificar o impacto positivo do uso de mock data em métricas como velocidade de desenvolvimento, número de bugs e satisfação do desenvolvedor." },
+    ],
+};
 
-[CAPÍTULO 20: Medindo o Sucesso][ÍCONE: Dollar]
-Como quantificar o impacto positivo do uso de mock data em métricas como velocidade de desenvolvimento, número de bugs e satisfação do desenvolvedor.
-    `;
-    const words = fullText.split(' ');
-    for (const word of words) {
-        yield word + ' ';
-        await new Promise(resolve => setTimeout(resolve, 10));
-    }
+export async function* getMockExtendEbookStreamGenerator(): AsyncGenerator<string> {
+    yield* streamMockJson(mockEbookExtension);
 }
\ No newline at end of file
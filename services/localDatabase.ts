@@ -0,0 +1,33 @@
+// services/localDatabase.ts
+// The app's IndexedDB database. Each store belongs to one module (searchCache, semanticSearch);
+// adding a store means bumping DB_VERSION and creating it in onupgradeneeded.
+
+export const SEARCH_CACHE_STORE = 'searchCache';
+export const EMBEDDINGS_STORE = 'embeddings';
+
+const DB_NAME = 'arc7hive';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SEARCH_CACHE_STORE)) {
+                    db.createObjectStore(SEARCH_CACHE_STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+                }
+                if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+                    db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (private mode, blocked storage) leaves the app working without local storage.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
@@ -0,0 +1,108 @@
+// services/providerHealth.ts
+// One health registry for the Invidious/Piped instances used by every video, music and playlist search.
+// Healthy, fast instances are tried first; failing ones sit out a cooldown that doubles on each failure.
+import type { ProviderHealth } from '../types';
+
+const STORAGE_KEY = 'arc7hive_providerHealth';
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 30 * 60 * 1000;
+const LATENCY_SMOOTHING = 0.3; // Weight of the newest sample in the moving average
+
+let registry: Record<string, ProviderHealth> = loadRegistry();
+
+function loadRegistry(): Record<string, ProviderHealth> {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.warn("Could not read provider health from localStorage:", e);
+        return {};
+    }
+}
+
+const saveRegistry = () => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+    } catch (e) {
+        console.warn("Could not persist provider health:", e);
+    }
+};
+
+const getEntry = (instance: string): ProviderHealth =>
+    registry[instance] ?? {
+        instance,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        avgLatencyMs: null,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        cooldownUntil: null,
+    };
+
+export const recordProviderSuccess = (instance: string, latencyMs: number) => {
+    const entry = getEntry(instance);
+    registry[instance] = {
+        ...entry,
+        successes: entry.successes + 1,
+        consecutiveFailures: 0,
+        avgLatencyMs: entry.avgLatencyMs === null
+            ? latencyMs
+            : Math.round(entry.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING),
+        lastSuccessAt: Date.now(),
+        cooldownUntil: null,
+    };
+    saveRegistry();
+};
+
+export const recordProviderFailure = (instance: string, error: unknown) => {
+    const entry = getEntry(instance);
+    const consecutiveFailures = entry.consecutiveFailures + 1;
+    const cooldownMs = Math.min(BASE_COOLDOWN_MS * 2 ** (consecutiveFailures - 1), MAX_COOLDOWN_MS);
+    registry[instance] = {
+        ...entry,
+        failures: entry.failures + 1,
+        consecutiveFailures,
+        lastFailureAt: Date.now(),
+        lastError: error instanceof Error ? error.message : String(error),
+        cooldownUntil: Date.now() + cooldownMs,
+    };
+    saveRegistry();
+};
+
+export const isProviderCoolingDown = (health: ProviderHealth, now = Date.now()): boolean =>
+    health.cooldownUntil !== null && health.cooldownUntil > now;
+
+// Higher is better. Untried instances get a neutral score so they are explored alongside known-good ones.
+const scoreProvider = (health: ProviderHealth): number => {
+    const attempts = health.successes + health.failures;
+    const successRate = attempts > 0 ? health.successes / attempts : 0.75;
+    const latencyPenalty = health.avgLatencyMs === null ? 0.1 : Math.min(health.avgLatencyMs / 10000, 0.5);
+    return successRate - latencyPenalty;
+};
+
+// Orders providers healthiest first. Instances on cooldown go last rather than being dropped,
+// so a search still has somewhere to go when everything is failing.
+export const rankProviders = <T extends { instance: string }>(providers: T[]): T[] => {
+    const now = Date.now();
+    return providers
+        .map(provider => ({ provider, health: getEntry(provider.instance), tieBreaker: Math.random() }))
+        .sort((a, b) => {
+            const aCooling = isProviderCoolingDown(a.health, now);
+            const bCooling = isProviderCoolingDown(b.health, now);
+            if (aCooling !== bCooling) return aCooling ? 1 : -1;
+            if (aCooling && bCooling) return (a.health.cooldownUntil ?? 0) - (b.health.cooldownUntil ?? 0);
+            return scoreProvider(b.health) - scoreProvider(a.health) || a.tieBreaker - b.tieBreaker;
+        })
+        .map(({ provider }) => provider);
+};
+
+// Snapshot for the AdminPanel, including instances that were never tried.
+export const getProviderHealth = (instances: string[]): ProviderHealth[] =>
+    [...new Set([...instances, ...Object.keys(registry)])].map(getEntry);
+
+export const resetProviderHealth = () => {
+    registry = {};
+    localStorage.removeItem(STORAGE_KEY);
+};
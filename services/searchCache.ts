@@ -0,0 +1,98 @@
+// services/searchCache.ts
+// IndexedDB cache for provider searches, keyed by search kind and normalized query.
+// Fresh entries skip the network entirely; older ones are returned at once and refreshed in the background.
+
+import { openDatabase, SEARCH_CACHE_STORE as STORE_NAME } from './localDatabase';
+
+export type SearchKind = 'videos' | 'music' | 'playlists' | 'channels';
+
+interface SearchCacheEntry<T> {
+    key: string;
+    results: T[];
+    storedAt: number; // Epoch ms
+}
+
+const FRESH_FOR_MS = 15 * 60 * 1000;
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Older entries are ignored and pruned
+const KEY_VERSION = 2; // Bump when the shape of cached results changes so old entries are never read
+
+let hasPruned = false;
+
+const openCache = async (): Promise<IDBDatabase> => {
+    const db = await openDatabase();
+    if (!hasPruned) {
+        hasPruned = true;
+        pruneExpired(db);
+    }
+    return db;
+};
+
+const pruneExpired = (db: IDBDatabase) => {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const request = store.index('storedAt').openCursor(IDBKeyRange.upperBound(Date.now() - MAX_AGE_MS));
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+            cursor.delete();
+            cursor.continue();
+        }
+    };
+};
+
+const readEntry = async <T>(key: string): Promise<SearchCacheEntry<T> | null> => {
+    try {
+        const db = await openCache();
+        return await new Promise((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+            request.onsuccess = () => resolve(request.result ?? null);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.warn("Search cache read failed:", e);
+        return null;
+    }
+};
+
+const writeEntry = async <T>(key: string, results: T[]) => {
+    try {
+        const db = await openCache();
+        const entry: SearchCacheEntry<T> = { key, results, storedAt: Date.now() };
+        db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry);
+    } catch (e) {
+        console.warn("Search cache write failed:", e);
+    }
+};
+
+// "  React   Hooks " and "react hooks" share an entry.
+const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Returns cached results when available. Stale hits also start a background fetch whose results are
+// stored and handed to onRefresh; misses wait for the network. Errors only surface on a miss.
+export const cachedSearch = async <T>(
+    kind: SearchKind,
+    query: string,
+    fetchResults: () => Promise<T[]>,
+    onRefresh?: (results: T[]) => void
+): Promise<T[]> => {
+    const key = `v${KEY_VERSION}:${kind}:${normalizeQuery(query)}`;
+    const entry = await readEntry<T>(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age < FRESH_FOR_MS) {
+        return entry.results;
+    }
+
+    if (entry && age < MAX_AGE_MS) {
+        fetchResults()
+            .then(results => {
+                writeEntry(key, results);
+                onRefresh?.(results);
+            })
+            .catch(e => console.warn(`Background refresh failed for ${key}:`, e));
+        return entry.results;
+    }
+
+    const results = await fetchResults();
+    writeEntry(key, results);
+    return results;
+};
@@ -0,0 +1,141 @@
+// services/semanticSearch.ts
+// Semantic search over the learning catalog. Video titles and descriptions are embedded once and kept in IndexedDB,
+// keyed by model and video, and re-embedded only when their text changes. Queries are ranked by cosine similarity.
+// Gemini embeddings are used when an API key is configured; otherwise (or once the quota runs out) a deterministic
+// local embedding takes over. Vectors from different models are never compared with each other.
+import type { LearningCategory, Video } from '../types';
+import { embedTexts, GEMINI_EMBEDDING_MODEL } from './geminiService';
+import { openDatabase, EMBEDDINGS_STORE } from './localDatabase';
+import { cosineSimilarity, hashString, localEmbedding, LOCAL_EMBEDDING_MODEL } from '../utils/embeddings';
+
+interface EmbeddingEntry {
+    key: string; // `${model}:${videoId}`
+    textHash: number;
+    vector: number[];
+}
+
+interface EmbeddingModel {
+    name: string;
+    minScore: number; // Below this a match is noise; the scales differ a lot between models
+    embedDocuments: (texts: string[]) => Promise<number[][] | null>;
+    embedQuery: (text: string) => Promise<number[] | null>;
+}
+
+export interface CatalogSearchResult {
+    video: Video;
+    category: LearningCategory;
+    score: number;
+}
+
+const geminiModel: EmbeddingModel = {
+    name: GEMINI_EMBEDDING_MODEL,
+    minScore: 0.55,
+    embedDocuments: texts => embedTexts(texts, 'RETRIEVAL_DOCUMENT'),
+    embedQuery: async text => (await embedTexts([text], 'RETRIEVAL_QUERY'))?.[0] ?? null,
+};
+
+const localModel: EmbeddingModel = {
+    name: LOCAL_EMBEDDING_MODEL,
+    minScore: 0.15,
+    embedDocuments: async texts => texts.map(localEmbedding),
+    embedQuery: async text => localEmbedding(text),
+};
+
+const getDocumentText = (video: Video): string =>
+    [video.title, video.section, video.channelName, video.description].filter(Boolean).join('\n').slice(0, 2000);
+
+const readEntries = async (keys: string[]): Promise<Map<string, EmbeddingEntry>> => {
+    const entries = new Map<string, EmbeddingEntry>();
+    try {
+        const db = await openDatabase();
+        const store = db.transaction(EMBEDDINGS_STORE, 'readonly').objectStore(EMBEDDINGS_STORE);
+        await Promise.all(keys.map(key => new Promise<void>(resolve => {
+            const request = store.get(key);
+            request.onsuccess = () => {
+                if (request.result) entries.set(key, request.result);
+                resolve();
+            };
+            request.onerror = () => resolve();
+        })));
+    } catch (e) {
+        console.warn("Embedding index read failed:", e);
+    }
+    return entries;
+};
+
+const writeEntries = async (entries: EmbeddingEntry[]) => {
+    if (entries.length === 0) return;
+    try {
+        const db = await openDatabase();
+        const store = db.transaction(EMBEDDINGS_STORE, 'readwrite').objectStore(EMBEDDINGS_STORE);
+        entries.forEach(entry => store.put(entry));
+    } catch (e) {
+        console.warn("Embedding index write failed:", e);
+    }
+};
+
+// Vectors for every video, embedding only the ones missing from the index or whose text changed.
+// Returns null when the model is unavailable.
+const getDocumentVectors = async (videos: Video[], model: EmbeddingModel): Promise<Map<string, number[]> | null> => {
+    const texts = new Map(videos.map(v => [v.id, getDocumentText(v)]));
+    const keyFor = (videoId: string) => `${model.name}:${videoId}`;
+    const stored = await readEntries(videos.map(v => keyFor(v.id)));
+
+    const vectors = new Map<string, number[]>();
+    const stale: Video[] = [];
+    for (const video of videos) {
+        const entry = stored.get(keyFor(video.id));
+        if (entry && entry.textHash === hashString(texts.get(video.id)!)) {
+            vectors.set(video.id, entry.vector);
+        } else {
+            stale.push(video);
+        }
+    }
+
+    if (stale.length > 0) {
+        const fresh = await model.embedDocuments(stale.map(v => texts.get(v.id)!));
+        if (!fresh) return null;
+        stale.forEach((video, i) => vectors.set(video.id, fresh[i]));
+        writeEntries(stale.map((video, i) => ({ key: keyFor(video.id), textHash: hashString(texts.get(video.id)!), vector: fresh[i] })));
+    }
+    return vectors;
+};
+
+const rankWithModel = async (query: string, videos: Video[], model: EmbeddingModel): Promise<{ video: Video; score: number }[] | null> => {
+    const queryVector = await model.embedQuery(query);
+    if (!queryVector) return null;
+    const vectors = await getDocumentVectors(videos, model);
+    if (!vectors) return null;
+    return videos
+        .map(video => ({ video, score: cosineSimilarity(queryVector, vectors.get(video.id) ?? []) }))
+        .filter(result => result.score >= model.minScore)
+        .sort((a, b) => b.score - a.score);
+};
+
+// Ranks videos by meaning rather than exact words. Falls back to the local model on any Gemini failure.
+export const rankVideosByQuery = async (query: string, videos: Video[]): Promise<{ video: Video; score: number }[]> => {
+    const unique = [...new Map(videos.map(v => [v.id, v])).values()];
+    if (!query.trim() || unique.length === 0) return [];
+    try {
+        const ranked = await rankWithModel(query, unique, geminiModel);
+        if (ranked) return ranked;
+    } catch (error) {
+        console.warn("Gemini embeddings failed, using the local model:", error);
+    }
+    return (await rankWithModel(query, unique, localModel)) ?? [];
+};
+
+export const searchVideosSemantically = async (query: string, videos: Video[], limit = 10): Promise<Video[]> =>
+    (await rankVideosByQuery(query, videos)).slice(0, limit).map(result => result.video);
+
+// Searches every track; a video that appears in several tracks is reported under the first one.
+export const searchCatalog = async (query: string, categories: LearningCategory[], limit = 8): Promise<CatalogSearchResult[]> => {
+    const categoryByVideo = new Map<string, LearningCategory>();
+    for (const category of categories) {
+        for (const video of category.videos) {
+            if (!categoryByVideo.has(video.id)) categoryByVideo.set(video.id, category);
+        }
+    }
+    const ranked = await rankVideosByQuery(query, categories.flatMap(c => c.videos));
+    return ranked.slice(0, limit).map(({ video, score }) => ({ video, category: categoryByVideo.get(video.id)!, score }));
+};
@@ -1,13 +1,23 @@
 // Fix: Provide the full implementation for the Supabase service.
 import { supabase } from '../supabaseClient';
-import type { PostgrestError, RealtimeChannel } from '@supabase/supabase-js';
-import type { Project, Song, RadioState, Video, LearningCategory, MeetingMessage, User, OnlineUser } from '../types';
+import { mapImporterSettingsRow } from '../supabase/functions/_shared/importerSettings';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type { AuthChangeEvent, PostgrestError, RealtimeChannel, User as AuthUser } from '@supabase/supabase-js';
+import type { Project, Song, RadioState, Video, LearningCategory, LearningCatalogFile, CatalogImportMode, ImporterSettings, ImporterRun, ImporterRunResult, VideoCandidate, LearningPlaylistChanges, LearningVideoChange, MeetingMessage, User, OnlineUser, UserRole, VideoProgress, WatchDay } from '../types';
 
 const MUSIC_TABLE = 'music_playlist';
 const PROJECTS_TABLE = 'projects';
 const MEETING_CHAT_TABLE = 'meeting_messages';
 const RADIO_STATE_TABLE = 'radio_state';
 const LEARNING_PLAYLISTS_TABLE = 'learning_videos';
+const LEARNING_CATEGORIES_TABLE = 'learning_categories';
+const IMPORTER_SETTINGS_TABLE = 'learning_importer_settings';
+const IMPORTER_RUNS_TABLE = 'importer_runs';
+const VIDEO_CANDIDATES_TABLE = 'learning_video_candidates';
+const DAILY_IMPORTER_FUNCTION = 'daily-video-importer';
+const PROFILES_TABLE = 'profiles';
+const VIDEO_PROGRESS_TABLE = 'video_progress';
+const VIDEO_WATCH_DAYS_TABLE = 'video_watch_days';
 const RADIO_STATE_ID = 1;
 
 const MEETING_ROOM_CHANNEL = 'meeting-room';
@@ -30,6 +40,113 @@ export const formatSupabaseError = (error: PostgrestError | Error | null, contex
     return `An unknown error occurred in ${context}. Check console for details.`;
 };
 
+// --- Auth & Profiles ---
+
+const mapProfileRow = (row: any, email?: string): User => ({
+    id: row.id,
+    name: row.name,
+    email,
+    avatarUrl: row.avatar_url || '',
+    role: row.role || 'member',
+});
+
+const getProfileForAuthUser = async (authUser: AuthUser): Promise<User> => {
+    const { data, error } = await supabase
+        .from(PROFILES_TABLE)
+        .select('id, name, avatar_url, role')
+        .eq('id', authUser.id)
+        .maybeSingle();
+    if (error) throw new Error(formatSupabaseError(error, 'getProfile'));
+    if (data) return mapProfileRow(data, authUser.email);
+
+    // The profile row is created by a database trigger on sign-up; fall back to the auth metadata until it exists.
+    const name = authUser.user_metadata?.name || authUser.email?.split('@')[0] || 'Agente';
+    return { id: authUser.id, name, email: authUser.email, avatarUrl: '', role: 'member' };
+};
+
+export const signUp = async (name: string, email: string, password: string): Promise<User | null> => {
+    const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { data: { name }, emailRedirectTo: window.location.origin },
+    });
+    if (error) throw new Error(error.message);
+    // When email confirmation is enabled, no session is returned until the link is clicked.
+    if (!data.session || !data.user) return null;
+    return getProfileForAuthUser(data.user);
+};
+
+export const signInWithPassword = async (email: string, password: string): Promise<User> => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw new Error(error.message);
+    return getProfileForAuthUser(data.user);
+};
+
+export const sendMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: window.location.origin, shouldCreateUser: false },
+    });
+    if (error) throw new Error(error.message);
+};
+
+export const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error("Supabase sign out error:", error.message);
+};
+
+export const onAuthStateChange = (callback: (user: User | null, event: AuthChangeEvent) => void) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+        if (!session) {
+            callback(null, event);
+            return;
+        }
+        // Supabase calls must not be awaited inside this callback, so the profile lookup is deferred.
+        setTimeout(async () => {
+            try {
+                callback(await getProfileForAuthUser(session.user), event);
+            } catch (error) {
+                console.error("Failed to load profile for session:", error);
+                callback(null, event);
+            }
+        }, 0);
+    });
+
+    return () => {
+        subscription.unsubscribe();
+    };
+};
+
+export const getProfiles = async (): Promise<User[]> => {
+    const { data, error } = await supabase
+        .from(PROFILES_TABLE)
+        .select('id, name, avatar_url, role')
+        .order('name', { ascending: true });
+    if (error) {
+        console.error(formatSupabaseError(error, 'getProfiles'));
+        return [];
+    }
+    return (data || []).map(row => mapProfileRow(row));
+};
+
+export const updateProfile = async (userId: string, updates: Partial<Pick<User, 'name' | 'avatarUrl'>>) => {
+    const updateData: { [key: string]: any } = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.avatarUrl !== undefined) updateData.avatar_url = updates.avatarUrl;
+
+    const { error } = await supabase
+        .from(PROFILES_TABLE)
+        .update(updateData)
+        .eq('id', userId);
+    if (error) throw new Error(formatSupabaseError(error, 'updateProfile'));
+};
+
+// Roles can't be written through the profiles table; the RPC checks that the caller is an admin.
+export const updateUserRole = async (userId: string, role: UserRole) => {
+    const { error } = await supabase.rpc('set_user_role', { target_user_id: userId, new_role: role });
+    if (error) throw new Error(formatSupabaseError(error, 'updateUserRole'));
+};
+
 // --- Project Actions ---
 
 export const setupProjectsListener = (
@@ -99,9 +216,7 @@ export const updateProject = async (projectId: string, updates: Partial<Project>
         .update(updateData)
         .eq('id', projectId);
     
-    if (error) {
-        console.error(formatSupabaseError(error, 'updateProject'));
-    }
+    if (error) throw new Error(formatSupabaseError(error, 'updateProject'));
 };
 
 
@@ -135,10 +250,10 @@ export const setupMessagesListener = (
     };
 };
 
-export const sendMessage = async (user: string, text: string, avatarUrl: string) => {
+export const sendMessage = async (user: User, text: string) => {
     const { error } = await supabase
         .from(MEETING_CHAT_TABLE)
-        .insert({ user, text, avatarUrl });
+        .insert({ user: user.name, userId: user.id, text, avatarUrl: user.avatarUrl });
 
     if (error) console.error(formatSupabaseError(error, 'sendMessage'));
 };
@@ -155,7 +270,7 @@ export const initializeMeetingPresence = (user: User, onPresenceChange: (newStat
     const channel = supabase.channel(MEETING_ROOM_CHANNEL, {
         config: {
             presence: {
-                key: user.name,
+                key: user.id,
             },
         },
     });
@@ -167,7 +282,7 @@ export const initializeMeetingPresence = (user: User, onPresenceChange: (newStat
         })
         .subscribe(async (status) => {
             if (status === 'SUBSCRIBED') {
-                await channel.track({ user: user.name, avatarUrl: user.avatarUrl, is_typing: false });
+                await channel.track({ userId: user.id, user: user.name, avatarUrl: user.avatarUrl, is_typing: false });
             }
         });
 
@@ -179,17 +294,98 @@ export const updateMeetingPresence = (channel: RealtimeChannel, isTyping: boolea
     channel.track({ ...user, is_typing: isTyping });
 };
 
+export const updateMeetingPresenceUser = (channel: RealtimeChannel, user: User) => {
+    channel.track({ userId: user.id, user: user.name, avatarUrl: user.avatarUrl, is_typing: false });
+};
+
 export const leaveMeetingPresence = (channel: RealtimeChannel) => {
     supabase.removeChannel(channel);
 };
 
+// --- Learning Categories ---
+
+const mapLearningCategoryRow = (row: any): LearningCategory => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    icon: row.icon,
+    color: row.color,
+    archived: row.archived,
+    videos: [],
+});
+
+// Returns every track in display order, archived ones included; callers decide what to show.
+export const getLearningCategories = async (): Promise<LearningCategory[] | null> => {
+    const { data, error } = await supabase
+        .from(LEARNING_CATEGORIES_TABLE)
+        .select('id, title, description, icon, color, archived, position')
+        .order('position', { ascending: true });
+
+    if (error) {
+        console.error(formatSupabaseError(error, 'getLearningCategories'));
+        return null;
+    }
+    return (data || []).map(mapLearningCategoryRow);
+};
+
+export const createLearningCategory = async (category: Omit<LearningCategory, 'videos' | 'archived'>, position: number): Promise<LearningCategory> => {
+    const { data, error } = await supabase
+        .from(LEARNING_CATEGORIES_TABLE)
+        .insert({
+            id: category.id,
+            title: category.title,
+            description: category.description,
+            icon: category.icon,
+            color: category.color,
+            position,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'createLearningCategory'));
+    }
+    return mapLearningCategoryRow(data);
+};
+
+export const updateLearningCategory = async (categoryId: string, updates: Partial<Omit<LearningCategory, 'id' | 'videos'>>) => {
+    const { error } = await supabase
+        .from(LEARNING_CATEGORIES_TABLE)
+        .update(updates)
+        .eq('id', categoryId);
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'updateLearningCategory'));
+    }
+};
+
+export const setLearningCategoryArchived = (categoryId: string, archived: boolean) =>
+    updateLearningCategory(categoryId, { archived });
+
+
 // --- Learning Playlists ---
 
+const mapLearningVideoRow = (row: any): Video => ({
+    id: row.id,
+    title: row.title,
+    durationSeconds: row.duration_seconds ?? 0,
+    channelName: row.channel_name ?? undefined,
+    publishedAt: row.published_at ?? undefined,
+    viewCount: row.view_count ?? undefined,
+    description: row.description ?? undefined,
+    thumbnailUrl: row.thumbnail_url,
+    platform: row.platform,
+    sourceUrl: row.source_url ?? undefined,
+    section: row.section,
+    position: row.position,
+});
+
 export const getLearningPlaylists = async (): Promise<Record<string, Video[]> | null> => {
     // Fetches all learning videos and organizes them by category.
     const { data: videoRows, error } = await supabase
         .from(LEARNING_PLAYLISTS_TABLE)
-        .select('id, title, duration, thumbnail_url, platform, category_id');
+        .select('id, title, duration_seconds, channel_name, published_at, view_count, description, thumbnail_url, platform, source_url, category_id, position, section')
+        .order('position', { ascending: true });
 
     if (error) {
         // This error can occur if the table is empty. In that case, we return an empty object, which is valid.
@@ -207,13 +403,7 @@ export const getLearningPlaylists = async (): Promise<Record<string, Video[]> |
         const categoryId = row.category_id;
         if (!categoryId) return acc;
 
-        const video: Video = {
-            id: row.id,
-            title: row.title,
-            duration: row.duration,
-            thumbnailUrl: row.thumbnail_url,
-            platform: row.platform,
-        };
+        const video = mapLearningVideoRow(row);
 
         if (!acc[categoryId]) {
             acc[categoryId] = [];
@@ -226,36 +416,301 @@ export const getLearningPlaylists = async (): Promise<Record<string, Video[]> |
 };
 
 
-export const saveLearningPlaylists = async (playlists: Record<string, Video[]>) => {
-    const rowsToInsert = Object.entries(playlists).flatMap(([categoryId, videos]) =>
-        videos.map(video => ({
-            category_id: categoryId,
-            id: video.id, // YouTube video ID
+// Streams row-level changes so each client can patch its playlists instead of refetching everything.
+// DELETE payloads include category_id (every old column, in fact) because the table uses REPLICA IDENTITY FULL.
+export const setupLearningPlaylistsListener = (
+    callback: (change: LearningVideoChange) => void,
+    onError: (error: Error) => void
+) => {
+    const channel = supabase
+        .channel('public:learning_videos')
+        .on('postgres_changes', { event: '*', schema: 'public', table: LEARNING_PLAYLISTS_TABLE }, (payload) => {
+            if (payload.eventType === 'DELETE') {
+                const oldRow = payload.old as any;
+                if (oldRow.id && oldRow.category_id) {
+                    callback({ type: 'delete', categoryId: oldRow.category_id, videoId: oldRow.id });
+                }
+                return;
+            }
+            const newRow = payload.new as any;
+            const oldRow = payload.old as any;
+            // A video moved to another track shows up as an UPDATE; drop it from the old one first.
+            if (payload.eventType === 'UPDATE' && oldRow?.category_id && oldRow.category_id !== newRow.category_id) {
+                callback({ type: 'delete', categoryId: oldRow.category_id, videoId: oldRow.id });
+            }
+            callback({ type: 'upsert', categoryId: newRow.category_id, video: mapLearningVideoRow(newRow) });
+        })
+        .subscribe((status, err) => {
+            if (err) {
+                console.error("Subscription error in learning playlists listener:", err);
+                onError(err);
+            }
+        });
+
+    return () => {
+        supabase.removeChannel(channel);
+    };
+};
+
+
+// Applies one category's diff (removals, additions, new order) in a single transaction on the server.
+export const applyLearningPlaylistChanges = async (categoryId: string, changes: LearningPlaylistChanges) => {
+    const { error } = await supabase.rpc('apply_learning_playlist_changes', {
+        target_category_id: categoryId,
+        videos_to_add: (changes.added ?? []).map(video => ({
+            id: video.id, // Platform video ID (see Video.id)
             title: video.title,
-            duration: video.duration,
+            duration_seconds: video.durationSeconds,
+            channel_name: video.channelName ?? null,
+            published_at: video.publishedAt ?? null,
+            view_count: video.viewCount ?? null,
+            description: video.description ?? null,
             thumbnail_url: video.thumbnailUrl,
             platform: video.platform,
-        }))
-    );
+            source_url: video.sourceUrl ?? null,
+            section: video.section ?? null,
+        })),
+        video_ids_to_remove: changes.removedIds ?? [],
+        ordered_video_ids: changes.orderedIds ?? null,
+        video_sections: changes.sections ?? null,
+    });
 
-    const { error: deleteError } = await supabase
-        .from(LEARNING_PLAYLISTS_TABLE)
-        .delete()
-        .neq('id', `a-value-that-is-never-present-${Date.now()}`); 
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'applyLearningPlaylistChanges'));
+    }
+};
+
+
+// --- Learning Catalog (backup / restore) ---
 
-    if (deleteError) {
-        throw new Error(formatSupabaseError(deleteError, 'saveLearningPlaylists (delete step)'));
+// Every track, archived ones included, with its videos in playlist order.
+export const getLearningCatalog = async (): Promise<LearningCategory[]> => {
+    const [categories, playlists] = await Promise.all([getLearningCategories(), getLearningPlaylists()]);
+    if (!categories || !playlists) {
+        throw new Error('Não foi possível carregar o catálogo atual.');
     }
+    return categories.map(category => ({ ...category, videos: playlists[category.id] ?? [] }));
+};
+
+// Applies a validated catalog file in one transaction (see import_learning_catalog for merge vs. replace).
+export const importLearningCatalog = async (catalog: LearningCatalogFile, mode: CatalogImportMode) => {
+    const { error } = await supabase.rpc('import_learning_catalog', {
+        catalog,
+        replace_existing: mode === 'replace',
+    });
 
-    if (rowsToInsert.length > 0) {
-        const { error: insertError } = await supabase
-            .from(LEARNING_PLAYLISTS_TABLE)
-            .insert(rowsToInsert);
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'importLearningCatalog'));
+    }
+};
 
-        if (insertError) {
-            throw new Error(formatSupabaseError(insertError, 'saveLearningPlaylists (insert step)'));
-        }
+
+// --- Daily Importer ---
+
+// Settings keyed by track ID. Tracks without a saved row are absent; the importer uses its defaults for them.
+export const getImporterSettings = async (): Promise<Record<string, ImporterSettings>> => {
+    const { data, error } = await supabase
+        .from(IMPORTER_SETTINGS_TABLE)
+        .select('*');
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'getImporterSettings'));
+    }
+    return Object.fromEntries((data || []).map(row => {
+        const settings = mapImporterSettingsRow(row);
+        return [settings.categoryId, settings];
+    }));
+};
+
+export const saveImporterSettings = async (settings: ImporterSettings) => {
+    const { error } = await supabase
+        .from(IMPORTER_SETTINGS_TABLE)
+        .upsert({
+            category_id: settings.categoryId,
+            search_queries: settings.searchQueries,
+            max_new_videos: settings.maxNewVideos,
+            min_duration_seconds: settings.minDurationSeconds,
+            max_duration_seconds: settings.maxDurationSeconds,
+            blocked_channels: settings.blockedChannels,
+            required_keywords: settings.requiredKeywords,
+            updated_at: new Date().toISOString(),
+        });
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'saveImporterSettings'));
+    }
+};
+
+const mapImporterRunRow = (row: any): ImporterRun => ({
+    id: row.id,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    status: row.status,
+    foundCount: row.found_count,
+    insertedCount: row.inserted_count,
+    error: row.error,
+    queries: [...(row.importer_run_queries || [])]
+        .sort((a: any, b: any) => a.id - b.id)
+        .map((q: any) => ({
+            categoryId: q.category_id,
+            query: q.query,
+            provider: q.provider,
+            foundCount: q.found_count,
+            insertedCount: q.inserted_count,
+            error: q.error,
+        })),
+});
+
+// Most recent runs first, each with the searches it made.
+export const getImporterRuns = async (limit = 20): Promise<ImporterRun[]> => {
+    const { data, error } = await supabase
+        .from(IMPORTER_RUNS_TABLE)
+        .select('*, importer_run_queries(*)')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'getImporterRuns'));
     }
+    return (data || []).map(mapImporterRunRow);
+};
+
+// Runs the importer now, as the signed-in admin. A dry run returns what it would queue without writing anything.
+export const runDailyImporter = async (dryRun: boolean): Promise<ImporterRunResult> => {
+    const { data, error } = await supabase.functions.invoke(DAILY_IMPORTER_FUNCTION, { body: { dryRun } });
+
+    if (error) {
+        // Non-2xx answers carry the function's own message in the response body.
+        const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+        throw new Error(details?.error ?? formatSupabaseError(error, 'runDailyImporter'));
+    }
+    return data as ImporterRunResult;
+};
+
+const mapVideoCandidateRow = (row: any): VideoCandidate => ({
+    id: row.id,
+    categoryId: row.category_id,
+    video: {
+        id: row.video_id,
+        title: row.title,
+        durationSeconds: row.duration_seconds ?? 0,
+        thumbnailUrl: row.thumbnail_url,
+        platform: row.platform ?? 'youtube',
+        sourceUrl: row.source_url ?? undefined,
+        channelName: row.channel_name ?? undefined,
+        publishedAt: row.published_at ?? undefined,
+        viewCount: row.view_count ?? undefined,
+        description: row.description ?? undefined,
+    },
+    searchQuery: row.search_query,
+    createdAt: row.created_at,
+});
+
+// The review queue, oldest first.
+export const getPendingVideoCandidates = async (): Promise<VideoCandidate[]> => {
+    const { data, error } = await supabase
+        .from(VIDEO_CANDIDATES_TABLE)
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'getPendingVideoCandidates'));
+    }
+    return (data || []).map(mapVideoCandidateRow);
+};
+
+// Approved candidates are appended to their track; rejected ones stay on record so the importer skips them.
+export const reviewVideoCandidates = async (candidateIds: number[], approve: boolean): Promise<number> => {
+    const { data, error } = await supabase.rpc('review_learning_video_candidates', {
+        candidate_ids: candidateIds,
+        approve,
+    });
+
+    if (error) {
+        throw new Error(formatSupabaseError(error, 'reviewVideoCandidates'));
+    }
+    return data ?? 0;
+};
+
+
+// --- Video Progress ---
+
+const mapVideoProgressRow = (row: any): VideoProgress => ({
+    videoId: row.video_id,
+    watched: row.watched,
+    positionSeconds: Number(row.position_seconds) || 0,
+    completionPercent: Number(row.completion_percent) || 0,
+    updated_at: row.updated_at,
+});
+
+export const getVideoProgress = async (userId: string): Promise<Record<string, VideoProgress>> => {
+    const { data, error } = await supabase
+        .from(VIDEO_PROGRESS_TABLE)
+        .select('video_id, watched, position_seconds, completion_percent, updated_at')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error(formatSupabaseError(error, 'getVideoProgress'));
+        return {};
+    }
+
+    return (data || []).reduce((acc, row) => {
+        acc[row.video_id] = mapVideoProgressRow(row);
+        return acc;
+    }, {} as Record<string, VideoProgress>);
+};
+
+// Saves the signed-in user's progress as of `progress.updated_at`, the time of the change. The database keeps
+// whichever save is newest and returns that row, so it may differ from `progress` when a later save got there first.
+// `progressSeconds` is the new progress this change made, added to that day in video_watch_days.
+export const saveVideoProgress = async (progress: VideoProgress, progressSeconds = 0): Promise<VideoProgress> => {
+    const { data, error } = await supabase.rpc('save_video_progress', {
+        target_video_id: progress.videoId,
+        is_watched: progress.watched,
+        playback_position: progress.positionSeconds,
+        completion: progress.completionPercent,
+        changed_at: progress.updated_at,
+        progress_seconds: progressSeconds,
+    });
+
+    if (error) throw new Error(formatSupabaseError(error, 'saveVideoProgress'));
+    return mapVideoProgressRow(data);
+};
+
+// Days from `sinceDay` (YYYY-MM-DD) on; days without progress have no row.
+export const getWatchDays = async (userId: string, sinceDay: string): Promise<WatchDay[]> => {
+    const { data, error } = await supabase
+        .from(VIDEO_WATCH_DAYS_TABLE)
+        .select('day, seconds')
+        .eq('user_id', userId)
+        .gte('day', sinceDay);
+
+    if (error) {
+        console.error(formatSupabaseError(error, 'getWatchDays'));
+        return [];
+    }
+    return (data || []).map(row => ({ day: row.day, seconds: Number(row.seconds) || 0 }));
+};
+
+// One-time import of the watched list older versions kept in localStorage. Videos that already have progress
+// saved are left as they are. The rows are dated at the epoch: nobody knows when those videos were watched, and
+// they must not count towards the recent watch pace (utils/watchStats.ts) or win over a real save.
+export const importWatchedVideos = async (userId: string, videoIds: string[]) => {
+    if (videoIds.length === 0) return;
+    const { error } = await supabase
+        .from(VIDEO_PROGRESS_TABLE)
+        .upsert(videoIds.map(videoId => ({
+            user_id: userId,
+            video_id: videoId,
+            watched: true,
+            position_seconds: 0,
+            completion_percent: 100,
+            updated_at: new Date(0).toISOString(),
+        })), { onConflict: 'user_id,video_id', ignoreDuplicates: true });
+
+    if (error) throw new Error(formatSupabaseError(error, 'importWatchedVideos'));
 };
 
 
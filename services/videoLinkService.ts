@@ -0,0 +1,102 @@
+// services/videoLinkService.ts
+// Turns a pasted link into a Video, filling in title, author and thumbnail from each platform's oEmbed endpoint.
+import type { Video } from '../types';
+import type { ParsedVideoLink } from '../utils/videoPlatforms';
+import { PLACEHOLDER_THUMBNAIL, isHlsSource, platformLabels } from '../utils/videoPlatforms';
+import { fetchWithTimeout } from '../supabase/functions/_shared/videoSearch';
+
+const OEMBED_TIMEOUT_MS = 8000;
+const METADATA_TIMEOUT_MS = 10000;
+
+const oEmbedEndpoints: Partial<Record<Video['platform'], string>> = {
+    youtube: 'https://www.youtube.com/oembed?format=json&url=',
+    vimeo: 'https://vimeo.com/api/oembed.json?url=',
+    tiktok: 'https://www.tiktok.com/oembed?url=',
+    // Instagram's oEmbed requires an app token, so its posts keep the placeholder details.
+};
+
+const fetchOEmbed = async (link: ParsedVideoLink): Promise<any | null> => {
+    const endpoint = oEmbedEndpoints[link.platform];
+    if (!endpoint) return null;
+    // Shorts and youtu.be links are looked up through the canonical watch URL.
+    const target = link.platform === 'youtube' ? `https://www.youtube.com/watch?v=${link.id}` : link.sourceUrl;
+    try {
+        const response = await fetchWithTimeout(endpoint + encodeURIComponent(target), OEMBED_TIMEOUT_MS);
+        return response.ok ? await response.json() : null;
+    } catch (e) {
+        console.warn(`oEmbed lookup failed for ${target}:`, e);
+        return null;
+    }
+};
+
+// Loads just the file header to read the duration. HLS playlists are skipped: most browsers can't open them natively.
+const readFileDuration = (sourceUrl: string): Promise<number> => {
+    if (isHlsSource(sourceUrl)) return Promise.resolve(0);
+    return new Promise(resolve => {
+        const element = document.createElement('video');
+        const finish = (seconds: number) => {
+            clearTimeout(timer);
+            element.removeAttribute('src');
+            element.load();
+            resolve(isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : 0);
+        };
+        const timer = setTimeout(() => finish(0), METADATA_TIMEOUT_MS);
+        element.preload = 'metadata';
+        element.onloadedmetadata = () => finish(element.duration);
+        element.onerror = () => finish(0);
+        element.src = sourceUrl;
+    });
+};
+
+const fileNameFromUrl = (sourceUrl: string): string => {
+    const name = decodeURIComponent(new URL(sourceUrl).pathname.split('/').pop() || '');
+    return name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+};
+
+// Never throws: when a platform doesn't answer, the video is still returned with generic details.
+export const resolveVideoLink = async (link: ParsedVideoLink): Promise<Video> => {
+    const base: Video = {
+        id: link.id,
+        title: `Vídeo do ${platformLabels[link.platform]}`,
+        durationSeconds: 0,
+        thumbnailUrl: link.platform === 'youtube' ? `https://i.ytimg.com/vi/${link.id}/hqdefault.jpg` : PLACEHOLDER_THUMBNAIL,
+        platform: link.platform,
+        sourceUrl: link.sourceUrl,
+    };
+
+    if (link.platform === 'file') {
+        return { ...base, title: fileNameFromUrl(link.sourceUrl) || base.title, durationSeconds: await readFileDuration(link.sourceUrl) };
+    }
+
+    const data = await fetchOEmbed(link);
+    if (!data) return base;
+    // Vimeo reports "2013-05-09 10:37:41"; the others don't send a date.
+    const publishedAt = typeof data.upload_date === 'string' ? new Date(data.upload_date.replace(' ', 'T') + 'Z') : null;
+    return {
+        ...base,
+        title: data.title || base.title,
+        thumbnailUrl: data.thumbnail_url || base.thumbnailUrl,
+        durationSeconds: typeof data.duration === 'number' ? data.duration : 0,
+        channelName: data.author_name || undefined,
+        description: data.description || undefined,
+        publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt.toISOString() : undefined,
+    };
+};
+
+const BULK_RESOLVE_CONCURRENCY = 4;
+
+// Resolves many links with a few lookups in flight at a time, keeping the input order.
+export const resolveVideoLinks = async (links: ParsedVideoLink[], onProgress?: (done: number, total: number) => void): Promise<Video[]> => {
+    const videos: Video[] = new Array(links.length);
+    let next = 0;
+    let done = 0;
+    const worker = async () => {
+        while (next < links.length) {
+            const index = next++;
+            videos[index] = await resolveVideoLink(links[index]);
+            onProgress?.(++done, links.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(BULK_RESOLVE_CONCURRENCY, links.length) }, worker));
+    return videos;
+};
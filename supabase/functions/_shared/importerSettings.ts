@@ -0,0 +1,64 @@
+// supabase/functions/_shared/importerSettings.ts
+// Per-track importer rules, shared by the daily-video-importer and the admin settings form so the
+// form describes exactly what the importer does. Runtime-neutral, like videoSearch.ts.
+import type { ImporterSettings, Video } from './types.ts';
+
+export const DEFAULT_SEARCH_QUERY = 'tutoriais {categoria} {ano}';
+export const DEFAULT_MAX_NEW_VIDEOS = 5;
+export const MAX_NEW_VIDEOS_LIMIT = 50; // Mirrors the check constraint in learning_importer_settings
+
+export const getDefaultImporterSettings = (categoryId: string): ImporterSettings => ({
+    categoryId,
+    searchQueries: [],
+    maxNewVideos: DEFAULT_MAX_NEW_VIDEOS,
+    minDurationSeconds: null,
+    maxDurationSeconds: null,
+    blockedChannels: [],
+    requiredKeywords: [],
+});
+
+export const mapImporterSettingsRow = (row: any): ImporterSettings => ({
+    categoryId: row.category_id,
+    searchQueries: row.search_queries ?? [],
+    maxNewVideos: row.max_new_videos ?? DEFAULT_MAX_NEW_VIDEOS,
+    minDurationSeconds: row.min_duration_seconds ?? null,
+    maxDurationSeconds: row.max_duration_seconds ?? null,
+    blockedChannels: row.blocked_channels ?? [],
+    requiredKeywords: row.required_keywords ?? [],
+});
+
+// Case- and accent-insensitive, so "Programação" matches "programacao".
+const normalizeText = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// The queries to run for a track, with "{categoria}" and "{ano}" filled in.
+export const getSearchQueries = (settings: ImporterSettings, categoryTitle: string, now = new Date()): string[] => {
+    const templates = settings.searchQueries.map(q => q.trim()).filter(Boolean);
+    return (templates.length > 0 ? templates : [DEFAULT_SEARCH_QUERY]).map(template =>
+        template
+            .replace(/\{categoria\}/gi, categoryTitle)
+            .replace(/\{ano\}/gi, String(now.getFullYear()))
+    );
+};
+
+// Why a video would be skipped, or null when it passes every filter.
+// A duration bound can't be checked against an unknown (0) duration, so such videos are skipped too.
+export const getRejectionReason = (video: Video, settings: ImporterSettings): string | null => {
+    const { minDurationSeconds: min, maxDurationSeconds: max } = settings;
+    if ((min !== null || max !== null) && video.durationSeconds <= 0) return 'unknown duration';
+    if (min !== null && video.durationSeconds < min) return 'too short';
+    if (max !== null && video.durationSeconds > max) return 'too long';
+
+    const channel = normalizeText(video.channelName ?? '');
+    if (channel && settings.blockedChannels.some(blocked => normalizeText(blocked) === channel)) return 'blocked channel';
+
+    const keywords = settings.requiredKeywords.map(normalizeText).filter(Boolean);
+    if (keywords.length > 0) {
+        const title = normalizeText(video.title);
+        if (!keywords.some(keyword => title.includes(keyword))) return 'missing keyword';
+    }
+    return null;
+};
+
+export const filterImportCandidates = (videos: Video[], settings: ImporterSettings): Video[] =>
+    videos.filter(video => getRejectionReason(video, settings) === null);
@@ -0,0 +1,63 @@
+// supabase/functions/_shared/types.ts
+// Types the edge functions share with the app. They live here so they are bundled with the functions on deploy;
+// the app's types.ts re-exports them.
+
+export type VideoPlatform = 'youtube' | 'vimeo' | 'file' | 'tiktok' | 'instagram';
+
+export interface Video {
+  id: string; // Platform video ID (YouTube/Vimeo/TikTok ID, Instagram shortcode) or a hash of the file URL
+  title: string;
+  durationSeconds: number; // 0 when the provider didn't report it
+  thumbnailUrl: string;
+  platform: VideoPlatform;
+  sourceUrl?: string; // The link the video was added from; required to play 'file' videos (MP4/HLS)
+  channelName?: string;
+  publishedAt?: string; // ISO timestamp
+  viewCount?: number;
+  description?: string;
+  section?: string | null; // Module name inside the track, e.g. "Básico"
+  position?: number; // Sort key inside the track (learning_videos.position)
+}
+
+// How the daily importer searches and filters new videos for one track.
+export interface ImporterSettings {
+  categoryId: string;
+  searchQueries: string[]; // Empty uses the default query; "{categoria}" and "{ano}" expand to the track title and current year
+  maxNewVideos: number; // Per run
+  minDurationSeconds: number | null;
+  maxDurationSeconds: number | null;
+  blockedChannels: string[]; // Matched against the channel name, ignoring case and accents
+  requiredKeywords: string[]; // The title must contain at least one of them
+}
+
+// One search made during an importer run.
+export interface ImporterRunQuery {
+  categoryId: string;
+  query: string;
+  provider: string | null; // Instance that answered; null when every provider failed
+  foundCount: number;
+  insertedCount: number; // Queued for review after the track's filters and quota
+  error: string | null;
+}
+
+export interface YouTubeTrack {
+  id: string;
+  title: string;
+  artist: string;
+  thumbnailUrl: string;
+}
+
+export interface YouTubePlaylist {
+  id: string;
+  title: string;
+  thumbnailUrl: string;
+  videoCount: number;
+  uploaderName: string;
+}
+
+export interface YouTubeChannel {
+  id: string;
+  name: string;
+  thumbnailUrl: string;
+  description?: string;
+}
@@ -0,0 +1,557 @@
+// supabase/functions/_shared/videoSearch.ts
+// Invidious/Piped search shared by the Vite app (services/geminiService.ts) and the daily-video-importer
+// edge function. Keep it runtime-neutral: only fetch, AbortController and timers, no DOM or Deno APIs.
+import type { Video, YouTubeTrack, YouTubePlaylist, YouTubeChannel } from './types.ts';
+
+// Helper to add a timeout to fetch requests, preventing infinite loading.
+// The request is aborted (not just abandoned) on timeout or when the caller's signal fires.
+export const fetchWithTimeout = async (url: string, timeout = 5000, signal?: AbortSignal): Promise<Response> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error('Request timed out')), timeout);
+    const abortFromCaller = () => controller.abort(signal?.reason);
+    if (signal?.aborted) abortFromCaller();
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+        return await fetch(url, { signal: controller.signal });
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abortFromCaller);
+    }
+};
+
+// Providers report unknown counts and durations as -1 or leave them out.
+const toNonNegativeNumber = (value: unknown): number | undefined =>
+    typeof value === 'number' && isFinite(value) && value >= 0 ? Math.floor(value) : undefined;
+
+const toIsoDate = (epochMs: unknown): string | undefined =>
+    typeof epochMs === 'number' && epochMs > 0 ? new Date(epochMs).toISOString() : undefined;
+
+const toOptionalText = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Metadata fields as Invidious names them (`published` is in epoch seconds).
+const invidiousMetadata = (item: any): Pick<Video, 'durationSeconds' | 'channelName' | 'publishedAt' | 'viewCount' | 'description'> => ({
+    durationSeconds: toNonNegativeNumber(item.lengthSeconds) ?? 0,
+    channelName: toOptionalText(item.author),
+    publishedAt: toIsoDate(typeof item.published === 'number' ? item.published * 1000 : undefined),
+    viewCount: toNonNegativeNumber(item.viewCount),
+    description: toOptionalText(item.description),
+});
+
+// Metadata fields as Piped names them (`uploaded` is in epoch milliseconds).
+const pipedMetadata = (item: any): Pick<Video, 'durationSeconds' | 'channelName' | 'publishedAt' | 'viewCount' | 'description'> => ({
+    durationSeconds: toNonNegativeNumber(item.duration) ?? 0,
+    channelName: toOptionalText(item.uploaderName),
+    publishedAt: toIsoDate(item.uploaded),
+    viewCount: toNonNegativeNumber(item.views),
+    description: toOptionalText(item.shortDescription),
+});
+
+const shuffleArray = <T>(array: T[]): T[] => {
+    const newArray = [...array];
+    for (let i = newArray.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+    }
+    return newArray;
+};
+
+// Lets each runtime plug in its own provider bookkeeping (the app keeps a health registry, the importer doesn't).
+export interface ProviderHooks {
+    rank?: <P extends { instance: string }>(providers: P[]) => P[]; // Defaults to a shuffle
+    onSuccess?: (instance: string, latencyMs: number) => void;
+    onFailure?: (instance: string, error: unknown) => void;
+    onWin?: (instance: string) => void; // The provider whose results were returned
+}
+
+// Fetches JSON from one provider instance and reports the outcome to the hooks.
+// Requests cancelled because another provider already won are not held against the instance.
+const fetchProviderJson = async (instance: string, url: string, signal: AbortSignal, hooks: ProviderHooks, timeout?: number): Promise<any> => {
+    const startedAt = Date.now();
+    try {
+        const response = await fetchWithTimeout(url, timeout, signal);
+        if (!response.ok) throw new Error(`Response not OK: ${response.status}`);
+        const data = await response.json();
+        hooks.onSuccess?.(instance, Date.now() - startedAt);
+        return data;
+    } catch (e) {
+        if (!signal.aborted) hooks.onFailure?.(instance, e);
+        throw e;
+    }
+};
+
+const PROVIDER_RACE_CONCURRENCY = 3;
+
+// Keeps up to PROVIDER_RACE_CONCURRENCY providers in flight, in ranked order. The first non-empty
+// result wins and the other requests are aborted; a provider that fails or comes back empty frees
+// its slot for the next one in line. When the queue runs out, an empty answer resolves with [];
+// the race only rejects when every provider failed or timed out.
+function raceProviders<P extends { name: string; instance: string }, R>(
+    providers: P[],
+    request: (provider: P, signal: AbortSignal) => Promise<R[]>,
+    label: string,
+    failureMessage: string,
+    hooks: ProviderHooks
+): Promise<R[]> {
+    const queue = hooks.rank ? hooks.rank(providers) : shuffleArray(providers);
+    const controller = new AbortController();
+
+    return new Promise((resolve, reject) => {
+        let inFlight = 0;
+        let settled = false;
+        let emptyAnswer: P | null = null; // First provider that answered without results
+
+        const launchNext = () => {
+            if (settled) return;
+            if (queue.length === 0 && inFlight === 0) {
+                settled = true;
+                // Nothing to find is an answer, not an outage; only fail when no provider answered at all.
+                if (emptyAnswer) {
+                    hooks.onWin?.(emptyAnswer.instance);
+                    resolve([]);
+                } else {
+                    reject(new Error(failureMessage));
+                }
+                return;
+            }
+            while (inFlight < PROVIDER_RACE_CONCURRENCY && queue.length > 0) {
+                const provider = queue.shift()!;
+                inFlight++;
+                console.log(`Attempting ${label} with: ${provider.name}`);
+                request(provider, controller.signal)
+                    .then(results => {
+                        if (settled) return;
+                        if (results.length === 0) {
+                            emptyAnswer ??= provider;
+                            return;
+                        }
+                        settled = true;
+                        console.log(`Found ${results.length} results for ${label} with ${provider.name}`);
+                        hooks.onWin?.(provider.instance);
+                        controller.abort();
+                        resolve(results);
+                    })
+                    .catch(e => {
+                        if (!controller.signal.aborted) console.error(`Provider ${provider.name} failed:`, e);
+                    })
+                    .finally(() => {
+                        inFlight--;
+                        launchNext();
+                    });
+            }
+        };
+
+        launchNext();
+    });
+}
+
+
+// --- Video Search Providers ---
+
+interface VideoProvider {
+    name: string;
+    instance: string; // Base URL; the app keys its provider health registry on it
+    searchUrl: (query: string) => string;
+    parseResponse: (data: any, existingVideoIds: Set<string>) => Video[];
+}
+
+export const parseInvidiousVideoResponse = (data: any, existingVideoIds: Set<string> = new Set()): Video[] => {
+    if (!Array.isArray(data)) return [];
+    return data
+        .map((item: any): Partial<Video> => {
+            if (item.type !== 'video' || !item.videoId || !item.title) {
+                return {};
+            }
+            return {
+                id: item.videoId,
+                title: item.title,
+                ...invidiousMetadata(item),
+                thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
+                platform: 'youtube',
+            };
+        })
+        .filter((video): video is Video => {
+             return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
+        });
+};
+
+export const parsePipedVideoResponse = (data: any, existingVideoIds: Set<string> = new Set()): Video[] => {
+    if (!Array.isArray(data?.items)) return [];
+    return data.items
+        .map((item: any): Partial<Video> => {
+            if (item.type !== 'stream' || !item.url || !item.title) return {};
+            const videoIdMatch = item.url.match(/v=([^&]+)/);
+            if (!videoIdMatch || !videoIdMatch[1]) return {};
+            
+            const videoId = videoIdMatch[1];
+            return {
+                id: videoId,
+                title: item.title,
+                ...pipedMetadata(item),
+                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+                platform: 'youtube',
+            };
+        })
+        .filter((video): video is Video => {
+            return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
+        });
+};
+
+// Curated list of public instances (Updated for reliability on Vercel)
+export const invidiousApiInstances = [
+    'https://vid.puffyan.us',
+    'https://invidious.lunar.icu',
+    'https://invidious.protokoll.fi',
+    'https://iv.melmac.space',
+    'https://invidious.projectsegfau.lt',
+    'https://invidious.incogniweb.net',
+];
+
+export const pipedApiInstances = [
+    'https://pipedapi.kavin.rocks',
+    'https://pipedapi.smnz.de',
+    'https://pipedapi.adminforge.de',
+    'https://pipedapi.in.projectsegau.lt',
+    'https://pipedapi.frontend.la',
+];
+
+
+const videoProviders: VideoProvider[] = [
+    ...invidiousApiInstances.map(instance => ({
+        name: `Invidious (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=video&region=BR&sort_by=relevance`,
+        parseResponse: parseInvidiousVideoResponse
+    })),
+    ...pipedApiInstances.map(instance => ({
+        name: `Piped (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=videos`,
+        parseResponse: parsePipedVideoResponse
+    }))
+];
+
+export async function searchVideosFromProviders(searchQuery: string, existingVideoIds: Set<string>, hooks: ProviderHooks = {}): Promise<Video[]> {
+    return raceProviders(videoProviders, async (provider, signal) => {
+        const data = await fetchProviderJson(provider.instance, provider.searchUrl(searchQuery), signal, hooks);
+        return provider.parseResponse(data, existingVideoIds);
+    }, 'video search', 'Todos os provedores de busca de vídeo falharam.', hooks);
+}
+
+
+// --- Music Search Providers ---
+
+interface MusicProvider {
+    name: string;
+    instance: string;
+    searchUrl: (query: string) => string;
+    parseResponse: (data: any) => YouTubeTrack[];
+}
+
+export const sanitizeTitle = (title: string): string => {
+     return title.replace(/\[.*?\]/g, '').replace(/\(.*?\)/g, '').replace(/official video/i, '').replace(/music video/i, '').replace(/lyrics/i, '').trim();
+};
+
+export const parseInvidiousMusicResponse = (data: any): YouTubeTrack[] => {
+    if (!Array.isArray(data)) return [];
+    return data
+        .map((item: any): Partial<YouTubeTrack> => {
+            if (item.type !== 'video' || !item.videoId || !item.title) return {};
+            return {
+                id: item.videoId,
+                title: sanitizeTitle(item.title),
+                artist: item.author,
+                thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
+            };
+        })
+        .filter((track): track is YouTubeTrack => !!track.id && !!track.title && !!track.thumbnailUrl && track.thumbnailUrl.startsWith('http'));
+};
+
+export const parsePipedMusicResponse = (data: any): YouTubeTrack[] => {
+    if (!Array.isArray(data?.items)) return [];
+    return data.items
+        .map((item: any): Partial<YouTubeTrack> => {
+            if (item.type !== 'stream' || !item.url || !item.title) return {};
+            const videoIdMatch = item.url.match(/v=([^&]+)/);
+            if (!videoIdMatch || !videoIdMatch[1]) return {};
+            const videoId = videoIdMatch[1];
+            return {
+                id: videoId,
+                title: sanitizeTitle(item.title),
+                artist: item.uploaderName,
+                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+            };
+        })
+        .filter((track): track is YouTubeTrack => !!track.id && !!track.title && !!track.thumbnailUrl && track.thumbnailUrl.startsWith('http'));
+};
+
+
+const musicProviders: MusicProvider[] = [
+    ...invidiousApiInstances.map(instance => ({
+        name: `Invidious Music (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=video&features=music&sort_by=relevance`,
+        parseResponse: parseInvidiousMusicResponse
+    })),
+    ...pipedApiInstances.map(instance => ({
+        name: `Piped Music (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=music_songs`,
+        parseResponse: parsePipedMusicResponse
+    }))
+];
+
+
+export async function searchMusicFromProviders(searchQuery: string, hooks: ProviderHooks = {}): Promise<YouTubeTrack[]> {
+    return raceProviders(musicProviders, async (provider, signal) => {
+        const data = await fetchProviderJson(provider.instance, provider.searchUrl(searchQuery), signal, hooks);
+        return provider.parseResponse(data);
+    }, 'music search', 'Todos os provedores de busca de música falharam.', hooks);
+}
+
+// --- Playlist Search Providers ---
+
+interface PlaylistSearchProvider {
+    name: string;
+    instance: string;
+    searchUrl: (query: string) => string;
+    parseResponse: (data: any) => YouTubePlaylist[];
+}
+
+export const parseInvidiousPlaylistSearchResponse = (data: any): YouTubePlaylist[] => {
+    if (!Array.isArray(data)) return [];
+    return data
+        .map((item: any): Partial<YouTubePlaylist> => {
+            if (item.type !== 'playlist' || !item.playlistId || !item.title) return {};
+            
+            const firstVideo = item.videos?.[0];
+            const firstVideoThumbnail = firstVideo?.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url;
+            
+            return {
+                id: item.playlistId,
+                title: item.title,
+                // A playlist without a first video has nothing to show and is dropped, like one without a thumbnail.
+                thumbnailUrl: firstVideoThumbnail || (firstVideo?.videoId ? `https://i.ytimg.com/vi/${firstVideo.videoId}/hqdefault.jpg` : undefined),
+                videoCount: item.videoCount,
+                uploaderName: item.author,
+            };
+        })
+        .filter((playlist): playlist is YouTubePlaylist => !!playlist.id && !!playlist.title && !!playlist.thumbnailUrl);
+};
+
+export const parsePipedPlaylistSearchResponse = (data: any): YouTubePlaylist[] => {
+    if (!Array.isArray(data?.items)) return [];
+    return data.items
+        .map((item: any): Partial<YouTubePlaylist> => {
+            if (item.type !== 'playlist' || !item.url || !item.name) return {};
+            const playlistIdMatch = item.url.match(/list=([^&]+)/);
+            if (!playlistIdMatch || !playlistIdMatch[1]) return {};
+            
+            return {
+                id: playlistIdMatch[1],
+                title: item.name,
+                thumbnailUrl: item.thumbnail,
+                videoCount: item.videos,
+                uploaderName: item.uploaderName,
+            };
+        })
+        .filter((playlist): playlist is YouTubePlaylist => !!playlist.id && !!playlist.title && !!playlist.thumbnailUrl);
+};
+
+const playlistSearchProviders: PlaylistSearchProvider[] = [
+    ...invidiousApiInstances.map(instance => ({
+        name: `Invidious Playlist Search (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=playlist&region=BR`,
+        parseResponse: parseInvidiousPlaylistSearchResponse
+    })),
+    ...pipedApiInstances.map(instance => ({
+        name: `Piped Playlist Search (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=playlists`,
+        parseResponse: parsePipedPlaylistSearchResponse
+    }))
+];
+
+export async function searchPlaylistsFromProviders(searchQuery: string, hooks: ProviderHooks = {}): Promise<YouTubePlaylist[]> {
+    return raceProviders(playlistSearchProviders, async (provider, signal) => {
+        const data = await fetchProviderJson(provider.instance, provider.searchUrl(searchQuery), signal, hooks);
+        return provider.parseResponse(data);
+    }, 'playlist search', 'Todos os provedores de busca de playlist falharam.', hooks);
+}
+
+
+// --- Playlist Fetching Providers ---
+
+interface PlaylistProvider {
+    name: string;
+    instance: string;
+    playlistUrl: (playlistId: string) => string;
+    parseResponse: (data: any, existingVideoIds: Set<string>) => Video[];
+}
+
+export const parseInvidiousPlaylistResponse = (data: any, existingVideoIds: Set<string> = new Set()): Video[] => {
+    if (!Array.isArray(data?.videos)) return [];
+    return data.videos
+        .map((item: any): Partial<Video> => {
+            if (!item.videoId || !item.title) return {};
+            return {
+                id: item.videoId,
+                title: item.title,
+                ...invidiousMetadata(item),
+                thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
+                platform: 'youtube',
+            };
+        })
+        .filter((video): video is Video => {
+             return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
+        });
+};
+
+export const parsePipedPlaylistResponse = (data: any, existingVideoIds: Set<string> = new Set()): Video[] => {
+    if (!Array.isArray(data?.relatedStreams)) return [];
+    return data.relatedStreams
+        .map((item: any): Partial<Video> => {
+            if (item.type !== 'stream' || !item.url || !item.title) return {};
+            const videoIdMatch = item.url.match(/v=([^&]+)/);
+            if (!videoIdMatch || !videoIdMatch[1]) return {};
+            
+            const videoId = videoIdMatch[1];
+            return {
+                id: videoId,
+                title: item.title,
+                ...pipedMetadata(item),
+                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+                platform: 'youtube',
+            };
+        })
+        .filter((video): video is Video => {
+            return !!video.id && !existingVideoIds.has(video.id) && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http');
+        });
+};
+
+const playlistProviders: PlaylistProvider[] = [
+    ...invidiousApiInstances.map(instance => ({
+        name: `Invidious Playlist (${new URL(instance).hostname})`,
+        instance,
+        playlistUrl: (playlistId: string) => `${instance}/api/v1/playlists/${playlistId}`,
+        parseResponse: parseInvidiousPlaylistResponse
+    })),
+    ...pipedApiInstances.map(instance => ({
+        name: `Piped Playlist (${new URL(instance).hostname})`,
+        instance,
+        playlistUrl: (playlistId: string) => `${instance}/playlists/${playlistId}`,
+        parseResponse: parsePipedPlaylistResponse
+    }))
+];
+
+export async function getVideosFromPlaylistProviders(playlistId: string, existingVideoIds: Set<string>, hooks: ProviderHooks = {}): Promise<Video[]> {
+    return raceProviders(playlistProviders, async (provider, signal) => {
+        const data = await fetchProviderJson(provider.instance, provider.playlistUrl(playlistId), signal, hooks, 10000); // Longer timeout for playlists
+        return provider.parseResponse(data, existingVideoIds);
+    }, 'playlist fetch', 'Todos os provedores de busca de playlist falharam.', hooks);
+}
+
+
+// --- Channel Providers ---
+
+interface ChannelSearchProvider {
+    name: string;
+    instance: string;
+    searchUrl: (query: string) => string;
+    parseResponse: (data: any) => YouTubeChannel[];
+}
+
+// Invidious sometimes returns protocol-relative avatar URLs ("//yt3.ggpht.com/...").
+const absoluteUrl = (url: unknown): string | undefined =>
+    typeof url === 'string' && url ? (url.startsWith('//') ? `https:${url}` : url) : undefined;
+
+export const parseInvidiousChannelSearchResponse = (data: any): YouTubeChannel[] => {
+    if (!Array.isArray(data)) return [];
+    return data
+        .map((item: any): Partial<YouTubeChannel> => {
+            if (item.type !== 'channel' || !item.authorId || !item.author) return {};
+            const thumbnails = Array.isArray(item.authorThumbnails) ? item.authorThumbnails : [];
+            return {
+                id: item.authorId,
+                name: item.author,
+                thumbnailUrl: absoluteUrl(thumbnails[thumbnails.length - 1]?.url),
+                description: toOptionalText(item.description),
+            };
+        })
+        .filter((channel): channel is YouTubeChannel => !!channel.id && !!channel.name && !!channel.thumbnailUrl);
+};
+
+export const parsePipedChannelSearchResponse = (data: any): YouTubeChannel[] => {
+    if (!Array.isArray(data?.items)) return [];
+    return data.items
+        .map((item: any): Partial<YouTubeChannel> => {
+            if (item.type !== 'channel' || !item.url || !item.name) return {};
+            const channelIdMatch = item.url.match(/\/channel\/([\w-]+)/);
+            if (!channelIdMatch || !channelIdMatch[1]) return {};
+            return {
+                id: channelIdMatch[1],
+                name: item.name,
+                thumbnailUrl: absoluteUrl(item.thumbnail),
+                description: toOptionalText(item.description),
+            };
+        })
+        .filter((channel): channel is YouTubeChannel => !!channel.id && !!channel.name && !!channel.thumbnailUrl);
+};
+
+const channelSearchProviders: ChannelSearchProvider[] = [
+    ...invidiousApiInstances.map(instance => ({
+        name: `Invidious Channel Search (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=channel&region=BR`,
+        parseResponse: parseInvidiousChannelSearchResponse
+    })),
+    ...pipedApiInstances.map(instance => ({
+        name: `Piped Channel Search (${new URL(instance).hostname})`,
+        instance,
+        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=channels`,
+        parseResponse: parsePipedChannelSearchResponse
+    }))
+];
+
+export async function searchChannelsFromProviders(searchQuery: string, hooks: ProviderHooks = {}): Promise<YouTubeChannel[]> {
+    return raceProviders(channelSearchProviders, async (provider, signal) => {
+        const data = await fetchProviderJson(provider.instance, provider.searchUrl(searchQuery), signal, hooks);
+        return provider.parseResponse(data);
+    }, 'channel search', 'Todos os provedores de busca de canal falharam.', hooks);
+}
+
+interface ChannelVideosProvider {
+    name: string;
+    instance: string;
+    channelUrl: (channelId: string) => string;
+    parseResponse: (data: any, existingVideoIds: Set<string>) => Video[];
+}
+
+// Newer Invidious versions wrap the uploads in `{ videos }`; older ones return the bare array.
+export const parseInvidiousChannelVideosResponse = (data: any, existingVideoIds: Set<string> = new Set()): Video[] =>
+    parseInvidiousPlaylistResponse({ videos: Array.isArray(data) ? data : data?.videos }, existingVideoIds);
+
+const channelVideosProviders: ChannelVideosProvider[] = [
+    ...invidiousApiInstances.map(instance => ({
+        name: `Invidious Channel (${new URL(instance).hostname})`,
+        instance,
+        channelUrl: (channelId: string) => `${instance}/api/v1/channels/${channelId}/videos`,
+        parseResponse: parseInvidiousChannelVideosResponse
+    })),
+    ...pipedApiInstances.map(instance => ({
+        name: `Piped Channel (${new URL(instance).hostname})`,
+        instance,
+        channelUrl: (channelId: string) => `${instance}/channel/${channelId}`,
+        parseResponse: parsePipedPlaylistResponse // Channels list their uploads in `relatedStreams`, like playlists
+    }))
+];
+
+// A channel's most recent uploads, newest first.
+export async function getVideosFromChannelProviders(channelId: string, existingVideoIds: Set<string>, hooks: ProviderHooks = {}): Promise<Video[]> {
+    return raceProviders(channelVideosProviders, async (provider, signal) => {
+        const data = await fetchProviderJson(provider.instance, provider.channelUrl(channelId), signal, hooks, 10000);
+        return provider.parseResponse(data, existingVideoIds);
+    }, 'channel fetch', 'Todos os provedores de busca de canal falharam.', hooks);
+}
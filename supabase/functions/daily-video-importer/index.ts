@@ -1,151 +1,153 @@
 // supabase/functions/daily-video-importer/index.ts
+// Runs once a day from pg_cron (see supabase/migrations/20251028000000_daily_importer_schedule.sql) and on demand
+// from the AdminPanel. Callers must present the service role key, the IMPORTER_SECRET shared secret in the
+// x-importer-secret header, or an admin's session. All database work then goes through the service role.
+// The gateway's JWT check is off for this function (supabase/config.toml) so secret-only callers reach the handler;
+// deploying without the config needs `supabase functions deploy daily-video-importer --no-verify-jwt`.
 
 // Fix: Declare the Deno global to resolve type errors in environments where the reference directive fails.
 declare const Deno: any;
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
-
-// --- Types (mirrored from the frontend for consistency) ---
-interface Video {
-  id: string; // youtube video ID
-  title: string;
-  duration: string; // e.g. "10:32"
-  thumbnailUrl: string;
-  platform: 'youtube';
-}
-
-type IconName = 'Fire' | 'Chart' | 'Dollar' | 'Cart' | 'Wrench' | 'Dumbbell' | 'Heart';
+import { searchVideosFromProviders } from '../_shared/videoSearch.ts'
+import { filterImportCandidates, getDefaultImporterSettings, getSearchQueries, mapImporterSettingsRow } from '../_shared/importerSettings.ts'
+import type { ImporterRunQuery, ImporterSettings, Video } from '../_shared/types.ts'
 
 interface LearningCategory {
   id: string; // e.g. "ia"
   title: string;
 }
 
-// --- Hardcoded Categories (Source of Truth for the Job) ---
-const categories: LearningCategory[] = [
-    { id: 'ia', title: 'Inteligência Artificial' },
-    { id: 'marketing-digital', title: 'Marketing Digital' },
-    { id: 'mercado-financeiro', title: 'Mercado Financeiro' },
-    { id: 'vendas-produtos-digitais', title: 'Vendas e Produtos Digitais' },
-    { id: 'ferramentas-automacao', title: 'Ferramentas e Automação' },
-    { id: 'academia-fitness', title: 'Academia e Fitness' },
-    { id: 'psicologia-desenvolvimento', title: 'Psicologia e Desenvolvimento' }
-];
-
-// --- Resilient Video Search Service (adapted for Deno) ---
-// This logic is copied and adapted from services/geminiService.ts
-
-const fetchWithTimeout = (url: string, timeout = 5000): Promise<Response> => {
-  return new Promise((resolve, reject) => {
-    const timer = setTimeout(() => reject(new Error('Request timed out')), timeout);
-    fetch(url)
-      .then(response => {
-        clearTimeout(timer);
-        resolve(response);
-      })
-      .catch(err => {
-        clearTimeout(timer);
-        reject(err);
-      });
+interface ImportCandidate {
+  categoryId: string;
+  query: string;
+  video: Video;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
   });
-};
 
-const formatSecondsDuration = (seconds: number): string => {
-  if (isNaN(seconds) || seconds < 0) return "0:00";
-  const totalSeconds = Math.floor(seconds);
-  const displayMinutes = Math.floor(totalSeconds / 60);
-  const displaySeconds = totalSeconds % 60;
-  return `${displayMinutes}:${displaySeconds.toString().padStart(2, '0')}`;
-};
+// --- Authentication ---
 
-const shuffleArray = <T>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+// Compares in constant time so the secret can't be guessed byte by byte from response timings.
+const secretsMatch = (provided: string, expected: string): boolean => {
+  const a = new TextEncoder().encode(provided);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
   }
-  return newArray;
+  return diff === 0;
 };
 
-interface VideoProvider {
-  name: string;
-  searchUrl: (query: string) => string;
-  parseResponse: (data: any) => Video[];
-}
+// Resolves who is calling: the schedule (or another trusted backend), an admin, or nobody.
+// Returns the HTTP status to answer with when the caller isn't allowed.
+const authorize = async (req: Request, serviceClient: any): Promise<{ userId: string | null } | { status: number }> => {
+  const importerSecret = Deno.env.get('IMPORTER_SECRET');
+  const providedSecret = req.headers.get('x-importer-secret');
+  if (importerSecret && providedSecret && secretsMatch(providedSecret, importerSecret)) return { userId: null };
 
-const parseInvidiousVideoResponse = (data: any): Video[] => {
-  if (!Array.isArray(data)) return [];
-  return data
-    .map((item: any): Partial<Video> => {
-      if (item.type !== 'video' || !item.videoId || !item.title) return {};
-      return {
-        id: item.videoId,
-        title: item.title,
-        duration: formatSecondsDuration(item.lengthSeconds),
-        thumbnailUrl: item.videoThumbnails?.find((t: any) => t.quality === 'hqdefault')?.url || `https://i.ytimg.com/vi/${item.videoId}/hqdefault.jpg`,
-        platform: 'youtube',
-      };
-    })
-    .filter((video): video is Video => !!video.id && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http'));
-};
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return { status: 401 };
+  if (secretsMatch(token, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')) return { userId: null };
+
+  const { data: { user } } = await serviceClient.auth.getUser(token);
+  if (!user) return { status: 401 };
 
-const parsePipedVideoResponse = (data: any): Video[] => {
-    if (!data.items || !Array.isArray(data.items)) return [];
-    return data.items
-        .map((item: any): Partial<Video> => {
-            if (item.type !== 'stream' || !item.url || !item.title) return {};
-            const videoIdMatch = item.url.match(/v=([^&]+)/);
-            if (!videoIdMatch || !videoIdMatch[1]) return {};
-            const videoId = videoIdMatch[1];
-            return {
-                id: videoId,
-                title: item.title,
-                duration: formatSecondsDuration(item.duration),
-                thumbnailUrl: item.thumbnail || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
-                platform: 'youtube',
-            };
-        })
-        .filter((video): video is Video => !!video.id && !!video.title && !!video.thumbnailUrl && video.thumbnailUrl.startsWith('http'));
+  const { data: profile } = await serviceClient
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  return profile?.role === 'admin' ? { userId: user.id } : { status: 403 };
 };
 
-const invidiousApiInstances = [
-    'https://vid.puffyan.us', 'https://invidious.lunar.icu', 'https://invidious.protokoll.fi',
-    'https://iv.melmac.space', 'https://invidious.projectsegfau.lt', 'https://invidious.incogniweb.net',
-];
-const pipedApiInstances = [
-    'https://pipedapi.kavin.rocks', 'https://pipedapi.smnz.de', 'https://pipedapi.adminforge.de',
-    'https://pipedapi.in.projectsegau.lt', 'https://pipedapi.frontend.la',
-];
-
-const videoProviders: VideoProvider[] = [
-    ...invidiousApiInstances.map(instance => ({
-        name: `Invidious (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/api/v1/search?q=${encodeURIComponent(query)}&type=video&region=BR&sort_by=relevance`,
-        parseResponse: parseInvidiousVideoResponse
-    })),
-    ...pipedApiInstances.map(instance => ({
-        name: `Piped (${new URL(instance).hostname})`,
-        searchUrl: (query: string) => `${instance}/search?q=${encodeURIComponent(query)}&filter=videos`,
-        parseResponse: parsePipedVideoResponse
-    }))
-];
-
-async function searchVideosFromProviders(searchQuery: string): Promise<Video[]> {
-  const shuffledProviders = shuffleArray(videoProviders);
-  for (const provider of shuffledProviders) {
-    try {
-      const response = await fetchWithTimeout(provider.searchUrl(searchQuery));
-      if (!response.ok) throw new Error(`Response not OK: ${response.status}`);
-      const data = await response.json();
-      const videos = provider.parseResponse(data);
-      if (videos.length > 0) return videos;
-    } catch (e) {
-      console.error(`Provider ${provider.name} failed:`, e.message);
+// --- Import ---
+
+// Searches every active track with its settings. Writes nothing; the caller decides what to keep.
+const findCandidates = async (supabaseClient: any): Promise<{ candidates: ImportCandidate[]; queries: ImporterRunQuery[] }> => {
+  // 0. Load the active tracks from the same table the app uses
+  const { data: categories, error: categoriesError } = await supabaseClient
+    .from('learning_categories')
+    .select('id, title')
+    .eq('archived', false)
+    .order('position', { ascending: true });
+
+  if (categoriesError) throw categoriesError;
+  console.log(`Loaded ${categories.length} active categories.`);
+
+  // Per-track search and filter settings; tracks without a row use the defaults
+  const { data: settingsRows, error: settingsError } = await supabaseClient
+    .from('learning_importer_settings')
+    .select('*');
+
+  if (settingsError) throw settingsError;
+  const settingsByCategory = new Map<string, ImporterSettings>(
+    settingsRows.map(row => [row.category_id, mapImporterSettingsRow(row)])
+  );
+
+  // 1. Skip videos already published or already suggested (rejected ones included)
+  const [{ data: existingVideos, error: fetchError }, { data: queued, error: queuedError }] = await Promise.all([
+    supabaseClient.from('learning_videos').select('id'),
+    supabaseClient.from('learning_video_candidates').select('video_id'),
+  ]);
+
+  if (fetchError) throw fetchError;
+  if (queuedError) throw queuedError;
+
+  const existingVideoIds = new Set<string>([...existingVideos.map(v => v.id), ...queued.map(c => c.video_id)]);
+  console.log(`Found ${existingVideoIds.size} videos already published or queued.`);
+
+  const candidates: ImportCandidate[] = [];
+  const queries: ImporterRunQuery[] = [];
+
+  // 2. Iterate over each category and find new videos
+  for (const category of categories as LearningCategory[]) {
+    const settings = settingsByCategory.get(category.id) ?? getDefaultImporterSettings(category.id);
+    let foundForCategory = 0;
+
+    // Queries run in order until the track's quota for this run is filled
+    for (const searchQuery of getSearchQueries(settings, category.title)) {
+      if (foundForCategory >= settings.maxNewVideos) break;
+      console.log(`Searching for category "${category.title}" with query: "${searchQuery}"`);
+
+      let foundVideos: Video[] = [];
+      let provider: string | null = null;
+      let searchError: string | null = null;
+      try {
+        foundVideos = await searchVideosFromProviders(searchQuery, existingVideoIds, { onWin: instance => { provider = instance; } });
+      } catch (e) {
+        searchError = e.message;
+        console.error(`Search "${searchQuery}" failed for "${category.title}":`, e.message);
+      }
+
+      // Already-imported videos are filtered out by the parsers.
+      const accepted = filterImportCandidates(foundVideos, settings).slice(0, settings.maxNewVideos - foundForCategory);
+      console.log(`Keeping ${accepted.length} of ${foundVideos.length} results for "${category.title}".`);
+      for (const video of accepted) {
+        existingVideoIds.add(video.id); // Later queries and tracks must not pick it again
+        candidates.push({ categoryId: category.id, query: searchQuery, video });
+      }
+      foundForCategory += accepted.length;
+
+      queries.push({
+        categoryId: category.id,
+        query: searchQuery,
+        provider,
+        foundCount: foundVideos.length,
+        insertedCount: accepted.length,
+        error: searchError,
+      });
     }
   }
-  return []; // Return empty array instead of throwing
-}
+
+  return { candidates, queries };
+};
 
 // --- Main Edge Function Logic ---
 
@@ -155,82 +157,104 @@ Deno.serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
-  try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
-    )
-
-    console.log("Daily video importer job started.");
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
 
-    // 1. Get all existing video IDs to avoid duplicates
-    const { data: existingVideos, error: fetchError } = await supabaseClient
-      .from('learning_videos')
-      .select('id');
+  const caller = await authorize(req, supabaseClient);
+  if ('status' in caller) {
+    return jsonResponse({ error: caller.status === 403 ? 'Only admins can run the importer.' : 'Unauthorized' }, caller.status);
+  }
 
-    if (fetchError) throw fetchError;
+  // The schedule posts an empty body; the AdminPanel sends { dryRun: true } to preview without writing.
+  const body = await req.json().catch(() => ({}));
+  const dryRun = body?.dryRun === true;
+  let runId: number | null = null;
 
-    const existingVideoIds = new Set(existingVideos.map(v => v.id));
-    console.log(`Found ${existingVideoIds.size} existing videos in the database.`);
+  try {
+    console.log(`Daily video importer job started${dryRun ? ' (dry run)' : ''}.`);
 
-    const allVideosToInsert = [];
+    if (dryRun) {
+      const { candidates, queries } = await findCandidates(supabaseClient);
+      return jsonResponse({ message: `Dry run found ${candidates.length} new videos.`, dryRun, runId, candidates, queries }, 200);
+    }
 
-    // 2. Iterate over each category and find new videos
-    for (const category of categories) {
-      const currentYear = new Date().getFullYear();
-      const searchQuery = `tutoriais ${category.title} ${currentYear}`;
-      console.log(`Searching for category "${category.title}" with query: "${searchQuery}"`);
+    // Open the run log first so even a run that fails early leaves a record
+    const { data: run, error: runError } = await supabaseClient
+      .from('importer_runs')
+      .insert({ triggered_by: caller.userId })
+      .select('id')
+      .single();
 
-      const foundVideos = await searchVideosFromProviders(searchQuery);
+    if (runError) throw runError;
+    runId = run.id;
 
-      const newVideos = foundVideos
-        .filter(video => !existingVideoIds.has(video.id))
-        .slice(0, 5); // Limit to 5 new videos per category per day to avoid spam
+    const { candidates, queries } = await findCandidates(supabaseClient);
 
-      if (newVideos.length > 0) {
-        console.log(`Found ${newVideos.length} new videos for "${category.title}".`);
-        const videosToInsert = newVideos.map(video => ({
-          category_id: category.id,
-          id: video.id,
+    // 3. Queue the finds for review and close the run log
+    if (candidates.length > 0) {
+      console.log(`Queueing ${candidates.length} videos for review.`);
+      const { error: insertError } = await supabaseClient
+        .from('learning_video_candidates')
+        .insert(candidates.map(({ categoryId, query, video }) => ({
+          run_id: runId,
+          category_id: categoryId,
+          video_id: video.id,
           title: video.title,
-          duration: video.duration,
+          duration_seconds: video.durationSeconds,
+          channel_name: video.channelName ?? null,
+          published_at: video.publishedAt ?? null,
+          view_count: video.viewCount ?? null,
+          description: video.description ?? null,
           thumbnail_url: video.thumbnailUrl,
           platform: video.platform,
-        }));
-        allVideosToInsert.push(...videosToInsert);
-      } else {
-        console.log(`No new videos found for "${category.title}".`);
-      }
-    }
-
-    // 3. Batch insert all new videos into the database
-    if (allVideosToInsert.length > 0) {
-      console.log(`Attempting to insert ${allVideosToInsert.length} new videos in total.`);
-      const { error: insertError } = await supabaseClient
-        .from('learning_videos')
-        .insert(allVideosToInsert);
+          search_query: query,
+        })));
 
       if (insertError) throw insertError;
+    }
 
-      return new Response(JSON.stringify({
-        message: `Successfully added ${allVideosToInsert.length} new videos.`
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      });
+    if (queries.length > 0) {
+      const { error: logError } = await supabaseClient
+        .from('importer_run_queries')
+        .insert(queries.map(q => ({
+          run_id: runId,
+          category_id: q.categoryId,
+          query: q.query,
+          provider: q.provider,
+          found_count: q.foundCount,
+          inserted_count: q.insertedCount,
+          error: q.error,
+        })));
+
+      if (logError) console.error("Could not save the query log:", logError.message);
     }
 
-    return new Response(JSON.stringify({ message: "Job completed. No new videos to add." }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+    await supabaseClient
+      .from('importer_runs')
+      .update({
+        status: 'succeeded',
+        finished_at: new Date().toISOString(),
+        found_count: queries.reduce((sum, q) => sum + q.foundCount, 0),
+        inserted_count: candidates.length,
+      })
+      .eq('id', runId);
+
+    const message = candidates.length > 0
+      ? `Queued ${candidates.length} new videos for review.`
+      : "Job completed. No new videos to add.";
+
+    return jsonResponse({ message, dryRun, runId, candidates, queries }, 200);
 
   } catch (error) {
     console.error("Error in daily-video-importer function:", error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
-    });
+    if (runId !== null) {
+      await supabaseClient
+        .from('importer_runs')
+        .update({ status: 'failed', finished_at: new Date().toISOString(), error: error.message })
+        .eq('id', runId);
+    }
+    return jsonResponse({ error: error.message, runId }, 500);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,100 @@
+-- supabase/migrations/20251020000000_auth_profiles.sql
+-- Real accounts on top of Supabase Auth, replacing the hardcoded users in data.ts.
+
+-- --- Profiles (one row per auth user) ---
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  name text not null,
+  avatar_url text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Profiles are visible to signed-in users"
+  on public.profiles for select
+  to authenticated
+  using (true);
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  to authenticated
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+-- Create the profile as soon as someone signs up, using the name passed in the sign-up metadata.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, name, avatar_url)
+  values (
+    new.id,
+    coalesce(new.raw_user_meta_data ->> 'name', split_part(new.email, '@', 1)),
+    'https://placehold.co/100x100/E50914/FFFFFF?text=' || upper(left(coalesce(new.raw_user_meta_data ->> 'name', new.email), 1))
+  );
+  perform public.claim_legacy_user_data(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- --- Stable user IDs on user-owned data ---
+
+alter table public.meeting_messages
+  add column if not exists "userId" uuid references auth.users (id) on delete set null;
+
+alter table public.projects
+  add column if not exists "ownerId" uuid references auth.users (id) on delete set null;
+
+-- Collaborators now hold user IDs instead of display names.
+comment on column public.projects.collaborators is 'Array of auth user IDs';
+
+-- --- Backfill of rows written before accounts existed ---
+-- Those rows only carry the display name (projects."createdBy", meeting_messages."user", collaborator names).
+-- A profile claims them by name, and only while no other profile shares that name; anything still unmatched
+-- is claimed when its owner signs up, and ProjectsPage falls back to the name until then.
+
+create or replace function public.claim_legacy_user_data(profile_id uuid)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  profile_name text;
+begin
+  select name into profile_name from public.profiles where id = profile_id;
+  if profile_name is null or (select count(*) from public.profiles where name = profile_name) > 1 then
+    return;
+  end if;
+
+  update public.projects set "ownerId" = profile_id
+  where "ownerId" is null and "createdBy" = profile_name;
+
+  update public.meeting_messages set "userId" = profile_id
+  where "userId" is null and "user" = profile_name;
+
+  update public.projects set collaborators = array_replace(collaborators, profile_name, profile_id::text)
+  where profile_name = any(collaborators);
+end;
+$$;
+
+revoke execute on function public.claim_legacy_user_data(uuid) from public, anon, authenticated;
+
+-- Accounts created before the sign-up trigger existed get their profile here, then every profile claims its rows.
+insert into public.profiles (id, name, avatar_url)
+select
+  u.id,
+  coalesce(u.raw_user_meta_data ->> 'name', split_part(u.email, '@', 1)),
+  'https://placehold.co/100x100/E50914/FFFFFF?text=' || upper(left(coalesce(u.raw_user_meta_data ->> 'name', u.email), 1))
+from auth.users u
+on conflict (id) do nothing;
+
+select public.claim_legacy_user_data(id) from public.profiles;
@@ -0,0 +1,111 @@
+-- supabase/migrations/20251020010000_roles_and_policies.sql
+-- Roles (admin, editor, member) on profiles, enforced with row-level security.
+-- utils/permissions.ts mirrors these rules for the UI.
+
+alter table public.profiles
+  add column if not exists role text not null default 'member'
+  check (role in ('admin', 'editor', 'member'));
+
+-- Users may edit their own name and avatar, but never their role.
+revoke update on public.profiles from authenticated;
+grant update (name, avatar_url) on public.profiles to authenticated;
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select coalesce((select role from public.profiles where id = auth.uid()), 'member');
+$$;
+
+create or replace function public.set_user_role(target_user_id uuid, new_role text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if public.current_user_role() <> 'admin' then
+    raise exception 'Only admins can change roles' using errcode = '42501';
+  end if;
+  if new_role not in ('admin', 'editor', 'member') then
+    raise exception 'Invalid role: %', new_role using errcode = '22023';
+  end if;
+  update public.profiles set role = new_role where id = target_user_id;
+end;
+$$;
+
+grant execute on function public.set_user_role(uuid, text) to authenticated;
+
+-- --- Meeting chat: everyone can talk, only admins can delete ---
+
+alter table public.meeting_messages enable row level security;
+
+create policy "Signed-in users can read messages"
+  on public.meeting_messages for select
+  to authenticated
+  using (true);
+
+create policy "Users send messages as themselves"
+  on public.meeting_messages for insert
+  to authenticated
+  with check ("userId" = auth.uid());
+
+create policy "Admins can delete messages"
+  on public.meeting_messages for delete
+  to authenticated
+  using (public.current_user_role() = 'admin');
+
+-- --- Music playlist: editors and admins curate ---
+
+alter table public.music_playlist enable row level security;
+
+create policy "Signed-in users can read the playlist"
+  on public.music_playlist for select
+  to authenticated
+  using (true);
+
+create policy "Editors can add songs"
+  on public.music_playlist for insert
+  to authenticated
+  with check (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can delete songs"
+  on public.music_playlist for delete
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can upload music files"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'music' and public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can delete music files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'music' and public.current_user_role() in ('admin', 'editor'));
+
+-- --- Learning videos: editors and admins curate ---
+-- The daily importer must call with the service role, which bypasses these policies.
+
+alter table public.learning_videos enable row level security;
+
+create policy "Signed-in users can read learning videos"
+  on public.learning_videos for select
+  to authenticated
+  using (true);
+
+create policy "Editors can add learning videos"
+  on public.learning_videos for insert
+  to authenticated
+  with check (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can update learning videos"
+  on public.learning_videos for update
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can remove learning videos"
+  on public.learning_videos for delete
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
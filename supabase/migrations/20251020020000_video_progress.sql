@@ -0,0 +1,33 @@
+-- supabase/migrations/20251020020000_video_progress.sql
+-- Per-user watch progress, replacing the arc7hive_watchedVideos key in localStorage.
+
+create table if not exists public.video_progress (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  video_id text not null,
+  watched boolean not null default false,
+  position_seconds numeric not null default 0,
+  completion_percent numeric not null default 0 check (completion_percent between 0 and 100),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, video_id)
+);
+
+create index if not exists video_progress_user_updated_idx
+  on public.video_progress (user_id, updated_at desc);
+
+alter table public.video_progress enable row level security;
+
+create policy "Users read their own progress"
+  on public.video_progress for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users write their own progress"
+  on public.video_progress for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own progress"
+  on public.video_progress for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
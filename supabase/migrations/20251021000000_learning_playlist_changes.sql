@@ -0,0 +1,83 @@
+-- supabase/migrations/20251021000000_learning_playlist_changes.sql
+-- Incremental playlist edits. Replaces the client-side delete-all/insert-all in saveLearningPlaylists,
+-- which could wipe the catalog if the insert failed and let concurrent editors overwrite each other.
+
+-- --- Explicit ordering inside a category ---
+
+alter table public.learning_videos
+  add column if not exists position integer;
+
+-- Keep the order the rows were stored in so existing playlists look the same after the upgrade.
+update public.learning_videos lv
+set position = ordered.rn
+from (
+  select ctid, row_number() over (partition by category_id order by ctid) - 1 as rn
+  from public.learning_videos
+) ordered
+where lv.ctid = ordered.ctid and lv.position is null;
+
+create index if not exists learning_videos_category_position_idx
+  on public.learning_videos (category_id, position);
+
+-- New rows (from the app or the daily importer) go to the end of their category unless a position is given.
+create or replace function public.learning_videos_default_position()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.position is null then
+    select coalesce(max(position) + 1, 0) into new.position
+    from public.learning_videos
+    where category_id = new.category_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists learning_videos_set_position on public.learning_videos;
+create trigger learning_videos_set_position
+  before insert on public.learning_videos
+  for each row execute function public.learning_videos_default_position();
+
+-- --- Transactional diff: remove, add and reorder in one call ---
+-- Runs as the caller, so the learning_videos policies still apply; the role check just gives a clear error.
+
+create or replace function public.apply_learning_playlist_changes(
+  target_category_id text,
+  videos_to_add jsonb default '[]'::jsonb,
+  video_ids_to_remove text[] default '{}',
+  ordered_video_ids text[] default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_user_role() not in ('admin', 'editor') then
+    raise exception 'Only editors and admins can change learning playlists' using errcode = '42501';
+  end if;
+
+  delete from public.learning_videos
+  where category_id = target_category_id
+    and id = any(video_ids_to_remove);
+
+  -- Videos another editor already added are skipped instead of failing the whole batch.
+  insert into public.learning_videos (id, category_id, title, duration, thumbnail_url, platform)
+  select item ->> 'id', target_category_id, item ->> 'title', item ->> 'duration', item ->> 'thumbnail_url', item ->> 'platform'
+  from jsonb_array_elements(videos_to_add) with ordinality as added(item, ord)
+  where not exists (
+    select 1 from public.learning_videos lv
+    where lv.category_id = target_category_id and lv.id = added.item ->> 'id'
+  )
+  order by added.ord;
+
+  if ordered_video_ids is not null then
+    update public.learning_videos lv
+    set position = (ordered.ord - 1)::integer
+    from unnest(ordered_video_ids) with ordinality as ordered(video_id, ord)
+    where lv.category_id = target_category_id and lv.id = ordered.video_id;
+  end if;
+end;
+$$;
+
+grant execute on function public.apply_learning_playlist_changes(text, jsonb, text[], text[]) to authenticated;
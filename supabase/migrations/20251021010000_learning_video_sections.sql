@@ -0,0 +1,57 @@
+-- supabase/migrations/20251021010000_learning_video_sections.sql
+-- Named modules ("Básico", "Avançado", ...) inside a learning track, stored per row next to its position.
+
+alter table public.learning_videos
+  add column if not exists section text;
+
+-- Same diff as before, plus per-video module assignments. Dropped first because the signature changes.
+drop function if exists public.apply_learning_playlist_changes(text, jsonb, text[], text[]);
+
+create or replace function public.apply_learning_playlist_changes(
+  target_category_id text,
+  videos_to_add jsonb default '[]'::jsonb,
+  video_ids_to_remove text[] default '{}',
+  ordered_video_ids text[] default null,
+  video_sections jsonb default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_user_role() not in ('admin', 'editor') then
+    raise exception 'Only editors and admins can change learning playlists' using errcode = '42501';
+  end if;
+
+  delete from public.learning_videos
+  where category_id = target_category_id
+    and id = any(video_ids_to_remove);
+
+  -- Videos another editor already added are skipped instead of failing the whole batch.
+  insert into public.learning_videos (id, category_id, title, duration, thumbnail_url, platform, section)
+  select item ->> 'id', target_category_id, item ->> 'title', item ->> 'duration', item ->> 'thumbnail_url', item ->> 'platform', item ->> 'section'
+  from jsonb_array_elements(videos_to_add) with ordinality as added(item, ord)
+  where not exists (
+    select 1 from public.learning_videos lv
+    where lv.category_id = target_category_id and lv.id = added.item ->> 'id'
+  )
+  order by added.ord;
+
+  if ordered_video_ids is not null then
+    update public.learning_videos lv
+    set position = (ordered.ord - 1)::integer
+    from unnest(ordered_video_ids) with ordinality as ordered(video_id, ord)
+    where lv.category_id = target_category_id and lv.id = ordered.video_id;
+  end if;
+
+  -- A JSON null clears the module; empty names are treated the same way.
+  if video_sections is not null then
+    update public.learning_videos lv
+    set section = nullif(trim(assigned.section), '')
+    from jsonb_each_text(video_sections) as assigned(video_id, section)
+    where lv.category_id = target_category_id and lv.id = assigned.video_id;
+  end if;
+end;
+$$;
+
+grant execute on function public.apply_learning_playlist_changes(text, jsonb, text[], text[], jsonb) to authenticated;
@@ -0,0 +1,49 @@
+-- supabase/migrations/20251022000000_learning_categories.sql
+-- Learning tracks move from data.ts and the importer's hardcoded list into one table.
+-- icon and color follow the IconName and CategoryColor unions in types.ts.
+
+create table if not exists public.learning_categories (
+  id text primary key,
+  title text not null,
+  description text not null default '',
+  icon text not null default 'BookOpen',
+  color text not null default 'red'
+    check (color in ('red', 'orange', 'green', 'cyan', 'blue', 'indigo', 'yellow', 'rose')),
+  position integer not null default 0,
+  archived boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+-- Seed with the tracks that used to live in data.ts.
+insert into public.learning_categories (id, title, description, icon, color, position) values
+  ('ia', 'Inteligência Artificial', 'Aprenda sobre IA, machine learning e como usar ferramentas de IA no dia a dia', 'Fire', 'red', 0),
+  ('marketing-digital', 'Marketing Digital', 'Estratégias de marketing digital, redes sociais e vendas online', 'Chart', 'orange', 1),
+  ('mercado-financeiro', 'Mercado Financeiro', 'Investimentos, ações, criptomoedas e educação financeira', 'Dollar', 'green', 2),
+  ('vendas-produtos-digitais', 'Vendas e Produtos Digitais', 'Aprenda a vender online, criar ebooks, infoprodutos e aumentar suas vendas', 'Cart', 'blue', 3),
+  ('ferramentas-automacao', 'Ferramentas e Automação', 'Domine Lovable, n8n, Make, Zapier e outras ferramentas de automação', 'Wrench', 'indigo', 4),
+  ('academia-fitness', 'Academia e Fitness', 'Treino, nutrição, ganho de massa e emagrecimento para resultados reais', 'Dumbbell', 'yellow', 5),
+  ('psicologia-desenvolvimento', 'Psicologia e Desenvolvimento', '48 Leis do Poder, estratégias de guerra, mentalidade vencedora e desenvolvimento pessoal', 'Heart', 'rose', 6)
+on conflict (id) do nothing;
+
+-- Tracks are archived rather than deleted, so existing videos keep a valid category.
+alter table public.learning_videos
+  add constraint learning_videos_category_id_fkey
+  foreign key (category_id) references public.learning_categories (id) on update cascade
+  not valid;
+
+alter table public.learning_categories enable row level security;
+
+create policy "Signed-in users can read learning categories"
+  on public.learning_categories for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add learning categories"
+  on public.learning_categories for insert
+  to authenticated
+  with check (public.current_user_role() = 'admin');
+
+create policy "Admins can update learning categories"
+  on public.learning_categories for update
+  to authenticated
+  using (public.current_user_role() = 'admin');
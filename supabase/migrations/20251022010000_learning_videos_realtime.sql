@@ -0,0 +1,16 @@
+-- supabase/migrations/20251022010000_learning_videos_realtime.sql
+-- Broadcast learning_videos changes so open clients can patch their playlists (setupLearningPlaylistsListener).
+
+-- DELETE events need the old category_id, not just the primary key.
+alter table public.learning_videos replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'learning_videos'
+  ) then
+    alter publication supabase_realtime add table public.learning_videos;
+  end if;
+end;
+$$;
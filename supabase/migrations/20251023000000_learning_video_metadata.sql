@@ -0,0 +1,81 @@
+-- supabase/migrations/20251023000000_learning_video_metadata.sql
+-- Channel, publish date, view count and description per video, and durations as seconds so track lengths can be summed.
+
+alter table public.learning_videos
+  add column if not exists duration_seconds integer not null default 0,
+  add column if not exists channel_name text,
+  add column if not exists published_at timestamptz,
+  add column if not exists view_count bigint,
+  add column if not exists description text;
+
+-- "10:32" -> 632, "1:02:03" -> 3723. Anything else stays 0.
+update public.learning_videos lv
+set duration_seconds = (
+  select sum(part.value::integer * power(60, part.total - part.ord))::integer
+  from (
+    select value, ord, count(*) over () as total
+    from unnest(string_to_array(lv.duration, ':')) with ordinality as parts(value, ord)
+  ) part
+)
+where lv.duration ~ '^\d+(:\d{1,2}){1,2}$';
+
+alter table public.learning_videos
+  drop column if exists duration;
+
+-- Same signature as before; only the inserted columns change.
+create or replace function public.apply_learning_playlist_changes(
+  target_category_id text,
+  videos_to_add jsonb default '[]'::jsonb,
+  video_ids_to_remove text[] default '{}',
+  ordered_video_ids text[] default null,
+  video_sections jsonb default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_user_role() not in ('admin', 'editor') then
+    raise exception 'Only editors and admins can change learning playlists' using errcode = '42501';
+  end if;
+
+  delete from public.learning_videos
+  where category_id = target_category_id
+    and id = any(video_ids_to_remove);
+
+  -- Videos another editor already added are skipped instead of failing the whole batch.
+  insert into public.learning_videos (
+    id, category_id, title, duration_seconds, channel_name, published_at, view_count, description,
+    thumbnail_url, platform, section
+  )
+  select
+    item ->> 'id', target_category_id, item ->> 'title',
+    coalesce((item ->> 'duration_seconds')::integer, 0),
+    item ->> 'channel_name',
+    (item ->> 'published_at')::timestamptz,
+    (item ->> 'view_count')::bigint,
+    item ->> 'description',
+    item ->> 'thumbnail_url', item ->> 'platform', item ->> 'section'
+  from jsonb_array_elements(videos_to_add) with ordinality as added(item, ord)
+  where not exists (
+    select 1 from public.learning_videos lv
+    where lv.category_id = target_category_id and lv.id = added.item ->> 'id'
+  )
+  order by added.ord;
+
+  if ordered_video_ids is not null then
+    update public.learning_videos lv
+    set position = (ordered.ord - 1)::integer
+    from unnest(ordered_video_ids) with ordinality as ordered(video_id, ord)
+    where lv.category_id = target_category_id and lv.id = ordered.video_id;
+  end if;
+
+  -- A JSON null clears the module; empty names are treated the same way.
+  if video_sections is not null then
+    update public.learning_videos lv
+    set section = nullif(trim(assigned.section), '')
+    from jsonb_each_text(video_sections) as assigned(video_id, section)
+    where lv.category_id = target_category_id and lv.id = assigned.video_id;
+  end if;
+end;
+$$;
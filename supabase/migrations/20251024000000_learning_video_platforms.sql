@@ -0,0 +1,75 @@
+-- supabase/migrations/20251024000000_learning_video_platforms.sql
+-- Learning tracks accept Vimeo, TikTok and Instagram posts and direct MP4/HLS files next to YouTube videos.
+
+alter table public.learning_videos
+  add column if not exists source_url text;
+
+alter table public.learning_videos
+  drop constraint if exists learning_videos_platform_check;
+
+alter table public.learning_videos
+  add constraint learning_videos_platform_check
+  check (platform in ('youtube', 'vimeo', 'file', 'tiktok', 'instagram'));
+
+-- Direct files are identified by a hash of their URL, so the URL itself is the only way to play them.
+alter table public.learning_videos
+  add constraint learning_videos_file_source_check
+  check (platform <> 'file' or source_url is not null);
+
+-- Same signature as before; only the inserted columns change.
+create or replace function public.apply_learning_playlist_changes(
+  target_category_id text,
+  videos_to_add jsonb default '[]'::jsonb,
+  video_ids_to_remove text[] default '{}',
+  ordered_video_ids text[] default null,
+  video_sections jsonb default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_user_role() not in ('admin', 'editor') then
+    raise exception 'Only editors and admins can change learning playlists' using errcode = '42501';
+  end if;
+
+  delete from public.learning_videos
+  where category_id = target_category_id
+    and id = any(video_ids_to_remove);
+
+  -- Videos another editor already added are skipped instead of failing the whole batch.
+  insert into public.learning_videos (
+    id, category_id, title, duration_seconds, channel_name, published_at, view_count, description,
+    thumbnail_url, platform, source_url, section
+  )
+  select
+    item ->> 'id', target_category_id, item ->> 'title',
+    coalesce((item ->> 'duration_seconds')::integer, 0),
+    item ->> 'channel_name',
+    (item ->> 'published_at')::timestamptz,
+    (item ->> 'view_count')::bigint,
+    item ->> 'description',
+    item ->> 'thumbnail_url', item ->> 'platform', item ->> 'source_url', item ->> 'section'
+  from jsonb_array_elements(videos_to_add) with ordinality as added(item, ord)
+  where not exists (
+    select 1 from public.learning_videos lv
+    where lv.category_id = target_category_id and lv.id = added.item ->> 'id'
+  )
+  order by added.ord;
+
+  if ordered_video_ids is not null then
+    update public.learning_videos lv
+    set position = (ordered.ord - 1)::integer
+    from unnest(ordered_video_ids) with ordinality as ordered(video_id, ord)
+    where lv.category_id = target_category_id and lv.id = ordered.video_id;
+  end if;
+
+  -- A JSON null clears the module; empty names are treated the same way.
+  if video_sections is not null then
+    update public.learning_videos lv
+    set section = nullif(trim(assigned.section), '')
+    from jsonb_each_text(video_sections) as assigned(video_id, section)
+    where lv.category_id = target_category_id and lv.id = assigned.video_id;
+  end if;
+end;
+$$;
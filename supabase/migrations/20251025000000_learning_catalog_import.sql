@@ -0,0 +1,118 @@
+-- supabase/migrations/20251025000000_learning_catalog_import.sql
+-- Restores a catalog backup (AdminPanel > Catálogo) in one transaction, so a bad file can't leave tracks half-imported.
+-- `catalog` is the exported JSON: { "categories": [{ ...track, "videos": [...] }] }, tracks and videos in display order.
+--   merge:   tracks and videos in the file are created or updated; everything else is kept, after them.
+--   replace: the catalog ends up exactly as in the file; videos missing from it are deleted and tracks missing
+--            from it are archived (not deleted, so they can be restored from the Trilhas panel).
+
+create or replace function public.import_learning_catalog(
+  catalog jsonb,
+  replace_existing boolean default false
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  incoming_count integer;
+begin
+  if public.current_user_role() <> 'admin' then
+    raise exception 'Only admins can import the learning catalog' using errcode = '42501';
+  end if;
+
+  create temporary table incoming_categories on commit drop as
+  select c.item ->> 'id' as id, c.item, (c.ord - 1)::integer as position
+  from jsonb_array_elements(catalog -> 'categories') with ordinality as c(item, ord);
+
+  create temporary table incoming_videos on commit drop as
+  select ic.id as category_id, v.item ->> 'id' as id, v.item, (v.ord - 1)::integer as position
+  from incoming_categories ic
+  cross join lateral jsonb_array_elements(coalesce(ic.item -> 'videos', '[]'::jsonb)) with ordinality as v(item, ord);
+
+  select count(*) into incoming_count from incoming_categories;
+
+  -- --- Tracks ---
+
+  update public.learning_categories lc
+  set title = ic.item ->> 'title',
+      description = coalesce(ic.item ->> 'description', ''),
+      icon = ic.item ->> 'icon',
+      color = ic.item ->> 'color',
+      archived = coalesce((ic.item ->> 'archived')::boolean, false),
+      position = ic.position
+  from incoming_categories ic
+  where lc.id = ic.id;
+
+  insert into public.learning_categories (id, title, description, icon, color, archived, position)
+  select ic.id, ic.item ->> 'title', coalesce(ic.item ->> 'description', ''), ic.item ->> 'icon', ic.item ->> 'color',
+         coalesce((ic.item ->> 'archived')::boolean, false), ic.position
+  from incoming_categories ic
+  where not exists (select 1 from public.learning_categories lc where lc.id = ic.id);
+
+  -- Tracks that aren't in the file move behind the imported ones, keeping their relative order.
+  update public.learning_categories lc
+  set position = incoming_count + lc.position,
+      archived = lc.archived or replace_existing
+  where not exists (select 1 from incoming_categories ic where ic.id = lc.id);
+
+  -- --- Videos ---
+
+  if replace_existing then
+    delete from public.learning_videos lv
+    where not exists (
+      select 1 from incoming_videos iv where iv.category_id = lv.category_id and iv.id = lv.id
+    );
+  end if;
+
+  update public.learning_videos lv
+  set title = iv.item ->> 'title',
+      duration_seconds = coalesce((iv.item ->> 'durationSeconds')::integer, 0),
+      channel_name = iv.item ->> 'channelName',
+      published_at = (iv.item ->> 'publishedAt')::timestamptz,
+      view_count = (iv.item ->> 'viewCount')::bigint,
+      description = iv.item ->> 'description',
+      thumbnail_url = iv.item ->> 'thumbnailUrl',
+      platform = iv.item ->> 'platform',
+      source_url = iv.item ->> 'sourceUrl',
+      section = nullif(trim(iv.item ->> 'section'), '')
+  from incoming_videos iv
+  where lv.category_id = iv.category_id and lv.id = iv.id;
+
+  insert into public.learning_videos (
+    id, category_id, title, duration_seconds, channel_name, published_at, view_count, description,
+    thumbnail_url, platform, source_url, section, position
+  )
+  select
+    iv.id, iv.category_id, iv.item ->> 'title',
+    coalesce((iv.item ->> 'durationSeconds')::integer, 0),
+    iv.item ->> 'channelName',
+    (iv.item ->> 'publishedAt')::timestamptz,
+    (iv.item ->> 'viewCount')::bigint,
+    iv.item ->> 'description',
+    iv.item ->> 'thumbnailUrl', iv.item ->> 'platform', iv.item ->> 'sourceUrl',
+    nullif(trim(iv.item ->> 'section'), ''),
+    iv.position
+  from incoming_videos iv
+  where not exists (
+    select 1 from public.learning_videos lv where lv.category_id = iv.category_id and lv.id = iv.id
+  );
+
+  -- File order first, then (merge only) the videos the file didn't mention, in their previous order.
+  update public.learning_videos lv
+  set position = ranked.new_position
+  from (
+    select existing.category_id, existing.id,
+           (row_number() over (
+             partition by existing.category_id
+             order by iv.position nulls last, existing.position
+           ) - 1)::integer as new_position
+    from public.learning_videos existing
+    left join incoming_videos iv on iv.category_id = existing.category_id and iv.id = existing.id
+    where existing.category_id in (select id from incoming_categories)
+  ) ranked
+  where lv.category_id = ranked.category_id and lv.id = ranked.id
+    and lv.position is distinct from ranked.new_position;
+end;
+$$;
+
+grant execute on function public.import_learning_catalog(jsonb, boolean) to authenticated;
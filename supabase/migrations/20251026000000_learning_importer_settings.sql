@@ -0,0 +1,33 @@
+-- supabase/migrations/20251026000000_learning_importer_settings.sql
+-- Per-track settings for the daily-video-importer. A track without a row uses the importer defaults
+-- (one "tutoriais <title> <year>" query, 5 new videos per run, no filters).
+
+create table if not exists public.learning_importer_settings (
+  category_id text primary key references public.learning_categories (id) on update cascade on delete cascade,
+  search_queries text[] not null default '{}', -- Empty means the default query; "{categoria}" and "{ano}" are expanded
+  max_new_videos integer not null default 5 check (max_new_videos between 0 and 50),
+  min_duration_seconds integer check (min_duration_seconds >= 0),
+  max_duration_seconds integer check (max_duration_seconds >= 0),
+  blocked_channels text[] not null default '{}',
+  required_keywords text[] not null default '{}', -- The title must contain at least one of them
+  updated_at timestamptz not null default now(),
+  constraint learning_importer_settings_duration_range
+    check (min_duration_seconds is null or max_duration_seconds is null or min_duration_seconds <= max_duration_seconds)
+);
+
+alter table public.learning_importer_settings enable row level security;
+
+create policy "Signed-in users can read importer settings"
+  on public.learning_importer_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add importer settings"
+  on public.learning_importer_settings for insert
+  to authenticated
+  with check (public.current_user_role() = 'admin');
+
+create policy "Admins can update importer settings"
+  on public.learning_importer_settings for update
+  to authenticated
+  using (public.current_user_role() = 'admin');
@@ -0,0 +1,154 @@
+-- supabase/migrations/20251027000000_importer_runs_and_review_queue.sql
+-- The daily importer no longer publishes straight into learning_videos. Every run is logged in importer_runs
+-- (one importer_run_queries row per search) and its finds wait in learning_video_candidates until an admin
+-- approves or rejects them.
+
+create table if not exists public.importer_runs (
+  id bigint generated always as identity primary key,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  found_count integer not null default 0,
+  inserted_count integer not null default 0, -- Candidates added to the review queue
+  error text,
+  triggered_by uuid default auth.uid()
+);
+
+create index if not exists importer_runs_started_at_idx on public.importer_runs (started_at desc);
+
+create table if not exists public.importer_run_queries (
+  id bigint generated always as identity primary key,
+  run_id bigint not null references public.importer_runs (id) on delete cascade,
+  category_id text not null,
+  query text not null,
+  provider text, -- Instance that answered; null when every provider failed
+  found_count integer not null default 0,
+  inserted_count integer not null default 0,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists importer_run_queries_run_id_idx on public.importer_run_queries (run_id);
+
+create table if not exists public.learning_video_candidates (
+  id bigint generated always as identity primary key,
+  run_id bigint references public.importer_runs (id) on delete set null,
+  category_id text not null references public.learning_categories (id) on update cascade on delete cascade,
+  video_id text not null,
+  title text not null,
+  duration_seconds integer not null default 0,
+  channel_name text,
+  published_at timestamptz,
+  view_count bigint,
+  description text,
+  thumbnail_url text not null default '',
+  platform text not null default 'youtube',
+  source_url text,
+  search_query text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  -- Rejected videos stay here so later runs don't suggest them again.
+  unique (category_id, video_id)
+);
+
+create index if not exists learning_video_candidates_pending_idx
+  on public.learning_video_candidates (created_at)
+  where status = 'pending';
+
+alter table public.importer_runs enable row level security;
+alter table public.importer_run_queries enable row level security;
+alter table public.learning_video_candidates enable row level security;
+
+-- The importer (supabase/functions/daily-video-importer) always writes with the service role, which bypasses
+-- these policies; only admins, the schedule's shared secret or the service key can invoke it. The policies below
+-- cover what signed-in users reach directly: editors read the run history and the queue, admins review it.
+create policy "Editors can read importer runs"
+  on public.importer_runs for select
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can log importer runs"
+  on public.importer_runs for insert
+  to authenticated
+  with check (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can finish importer runs"
+  on public.importer_runs for update
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can read importer run queries"
+  on public.importer_run_queries for select
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can log importer run queries"
+  on public.importer_run_queries for insert
+  to authenticated
+  with check (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can read video candidates"
+  on public.learning_video_candidates for select
+  to authenticated
+  using (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Editors can queue video candidates"
+  on public.learning_video_candidates for insert
+  to authenticated
+  with check (public.current_user_role() in ('admin', 'editor'));
+
+create policy "Admins can review video candidates"
+  on public.learning_video_candidates for update
+  to authenticated
+  using (public.current_user_role() = 'admin');
+
+-- Approves (publishing into the candidate's track, after the existing videos) or rejects pending candidates.
+-- Candidates that were already reviewed are left alone. Returns how many were updated.
+create or replace function public.review_learning_video_candidates(
+  candidate_ids bigint[],
+  approve boolean
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  reviewed_count integer;
+begin
+  if public.current_user_role() <> 'admin' then
+    raise exception 'Only admins can review imported videos' using errcode = '42501';
+  end if;
+
+  if approve then
+    insert into public.learning_videos (
+      id, category_id, title, duration_seconds, channel_name, published_at, view_count, description,
+      thumbnail_url, platform, source_url
+    )
+    select
+      c.video_id, c.category_id, c.title, c.duration_seconds, c.channel_name, c.published_at, c.view_count,
+      c.description, c.thumbnail_url, c.platform, c.source_url
+    from public.learning_video_candidates c
+    where c.id = any(candidate_ids)
+      and c.status = 'pending'
+      and not exists (
+        select 1 from public.learning_videos lv
+        where lv.category_id = c.category_id and lv.id = c.video_id
+      )
+    order by c.created_at, c.id;
+  end if;
+
+  update public.learning_video_candidates
+  set status = case when approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = any(candidate_ids)
+    and status = 'pending';
+
+  get diagnostics reviewed_count = row_count;
+  return reviewed_count;
+end;
+$$;
+
+grant execute on function public.review_learning_video_candidates(bigint[], boolean) to authenticated;
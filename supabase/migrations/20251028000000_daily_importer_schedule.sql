@@ -0,0 +1,28 @@
+-- supabase/migrations/20251028000000_daily_importer_schedule.sql
+-- Runs daily-video-importer every day at 06:00 UTC (03:00 in Brasília) through pg_cron and pg_net.
+-- The job reads the project URL and the service role key from Vault, so neither lives in the repo.
+-- Create both secrets once per project before the first run:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+-- cron.schedule replaces an existing job with the same name, so re-running this is safe.
+select cron.schedule(
+  'daily-video-importer',
+  '0 6 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+           || '/functions/v1/daily-video-importer',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    -- Searching every track can take a while; the run log in importer_runs records the outcome either way.
+    timeout_milliseconds := 150000
+  );
+  $$
+);
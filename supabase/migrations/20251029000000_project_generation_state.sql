@@ -0,0 +1,8 @@
+-- supabase/migrations/20251029000000_project_generation_state.sql
+-- Ebooks are saved as drafts while their sections are still being written. The settings and approved outline are
+-- kept on the project until the last section is done, so an interrupted generation can be resumed later.
+
+alter table public.projects
+  add column if not exists "generationState" jsonb;
+
+comment on column public.projects."generationState" is 'Generation settings and outline of an ebook that is still being written; null once complete';
@@ -0,0 +1,29 @@
+-- supabase/migrations/20251029010000_first_admin_bootstrap.sql
+-- Only admins can call set_user_role, and every profile starts as 'member', so nobody could ever become the first
+-- admin. While no admin exists, the next profile created is made admin; an existing project without one promotes
+-- its oldest profile right away. Later admins are appointed from the AdminPanel (see README for the manual SQL).
+
+create or replace function public.promote_first_admin()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  -- Two simultaneous first sign-ups must not both become admin.
+  perform pg_advisory_xact_lock(hashtext('public.promote_first_admin'));
+  if not exists (select 1 from public.profiles where role = 'admin') then
+    new.role := 'admin';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists promote_first_admin on public.profiles;
+create trigger promote_first_admin
+  before insert on public.profiles
+  for each row execute function public.promote_first_admin();
+
+update public.profiles
+set role = 'admin'
+where id = (select id from public.profiles order by created_at asc limit 1)
+  and not exists (select 1 from public.profiles where role = 'admin');
@@ -0,0 +1,29 @@
+-- supabase/migrations/20251030000000_video_progress_ordered_saves.sql
+-- Saves one video's progress unless a newer save already landed. updated_at is the time the client made the
+-- change, so a slow position save can't overwrite a later "watched" after the fact. Returns the row as stored,
+-- which is the newer one when this save was skipped. Runs as the caller, so the video_progress policies apply.
+
+create or replace function public.save_video_progress(
+  target_video_id text,
+  is_watched boolean,
+  playback_position numeric,
+  completion numeric,
+  changed_at timestamptz
+)
+returns public.video_progress
+language sql
+set search_path = public
+as $$
+  insert into public.video_progress as vp (user_id, video_id, watched, position_seconds, completion_percent, updated_at)
+  values (auth.uid(), target_video_id, is_watched, playback_position, completion, changed_at)
+  on conflict (user_id, video_id) do update
+    set watched = excluded.watched,
+        position_seconds = excluded.position_seconds,
+        completion_percent = excluded.completion_percent,
+        updated_at = excluded.updated_at
+    where excluded.updated_at >= vp.updated_at;
+
+  select * from public.video_progress where user_id = auth.uid() and video_id = target_video_id;
+$$;
+
+grant execute on function public.save_video_progress(text, boolean, numeric, numeric, timestamptz) to authenticated;
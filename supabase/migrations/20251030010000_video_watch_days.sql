@@ -0,0 +1,66 @@
+-- supabase/migrations/20251030010000_video_watch_days.sql
+-- Seconds of new progress per user and day, which the dashboard's watch pace (utils/watchStats.ts) is based on.
+-- video_progress only knows how far each video got and when it was last touched, so re-opening an old video or
+-- ticking it as watched would count its whole length again; here only the progress made on that day is added.
+
+create table if not exists public.video_watch_days (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  day date not null,
+  seconds numeric not null default 0 check (seconds >= 0),
+  primary key (user_id, day)
+);
+
+alter table public.video_watch_days enable row level security;
+
+create policy "Users read their own watch days"
+  on public.video_watch_days for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- save_video_progress runs as the caller and needs these two; nothing else in the app writes here.
+create policy "Users log their own watch days"
+  on public.video_watch_days for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users add to their own watch days"
+  on public.video_watch_days for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Same as before, plus the seconds of new progress this save records, added to the UTC day of the change.
+-- They are logged even when a newer save already landed: the viewing happened either way.
+drop function if exists public.save_video_progress(text, boolean, numeric, numeric, timestamptz);
+
+create or replace function public.save_video_progress(
+  target_video_id text,
+  is_watched boolean,
+  playback_position numeric,
+  completion numeric,
+  changed_at timestamptz,
+  progress_seconds numeric default 0
+)
+returns public.video_progress
+language sql
+set search_path = public
+as $$
+  insert into public.video_watch_days as wd (user_id, day, seconds)
+  select auth.uid(), (changed_at at time zone 'utc')::date, progress_seconds
+  where progress_seconds > 0
+  on conflict (user_id, day) do update
+    set seconds = wd.seconds + excluded.seconds;
+
+  insert into public.video_progress as vp (user_id, video_id, watched, position_seconds, completion_percent, updated_at)
+  values (auth.uid(), target_video_id, is_watched, playback_position, completion, changed_at)
+  on conflict (user_id, video_id) do update
+    set watched = excluded.watched,
+        position_seconds = excluded.position_seconds,
+        completion_percent = excluded.completion_percent,
+        updated_at = excluded.updated_at
+    where excluded.updated_at >= vp.updated_at;
+
+  select * from public.video_progress where user_id = auth.uid() and video_id = target_video_id;
+$$;
+
+grant execute on function public.save_video_progress(text, boolean, numeric, numeric, timestamptz, numeric) to authenticated;
@@ -0,0 +1,114 @@
+// tests/ebookParser.test.ts
+import { describe, expect, it } from 'vitest';
+import { parseEbookJson, parseEbookOutlineJson, repairTruncatedJson } from '../utils/ebookParser';
+
+const ebook = {
+  title: 'Finanças para Iniciantes',
+  introduction: 'Por que cuidar do dinheiro.',
+  chapters: [
+    { title: 'Capítulo 1: Orçamento', icon: 'Dollar', content: 'Anote tudo o que entra e sai.' },
+    { title: 'Reserva de emergência', icon: 'Foguete', content: 'Guarde seis meses de gastos.' },
+  ],
+  conclusion: 'Comece hoje.',
+};
+const ebookText = JSON.stringify(ebook, null, 2);
+
+describe('repairTruncatedJson', () => {
+  it('drops a string that was cut off and closes the object', () => {
+    expect(repairTruncatedJson('{"title": "Livro", "introduction": "Era uma vez')).toBe('{"title": "Livro"}');
+  });
+
+  it('drops a key or number that was still being written', () => {
+    expect(repairTruncatedJson('{"title": "Livro", "intro')).toBe('{"title": "Livro"}');
+    expect(repairTruncatedJson('{"title": "Livro", "pages": 12')).toBe('{"title": "Livro"}');
+  });
+
+  it('closes arrays and objects that were cut off in the middle of a chapter list', () => {
+    expect(repairTruncatedJson('{"chapters": [{"title": "A", "content": "x"}, {"title": "B", "con'))
+      .toBe('{"chapters": [{"title": "A", "content": "x"}, {"title": "B"}]}');
+    expect(repairTruncatedJson('["a", "b", "c')).toBe('["a", "b"]');
+  });
+
+  it('ignores anything after the root value closes', () => {
+    expect(repairTruncatedJson('{"title": "Livro"} Espero ter ajudado!')).toBe('{"title": "Livro"}');
+  });
+
+  it('returns null for a broken structure or text without JSON', () => {
+    expect(repairTruncatedJson('{"chapters": [}')).toBeNull();
+    expect(repairTruncatedJson('sem json aqui')).toBeNull();
+  });
+});
+
+describe('parseEbookJson', () => {
+  it('parses a complete ebook, numbering chapters and falling back to the default icon', () => {
+    expect(parseEbookJson(ebookText)).toEqual({
+      title: 'Finanças para Iniciantes',
+      introduction: 'Por que cuidar do dinheiro.',
+      chapters: [
+        { title: 'Capítulo 1: Orçamento', icon: 'Dollar', content: 'Anote tudo o que entra e sai.' },
+        { title: 'Capítulo 2: Reserva de emergência', icon: 'BookOpen', content: 'Guarde seis meses de gastos.' },
+      ],
+      conclusion: 'Comece hoje.',
+      truncated: false,
+    });
+  });
+
+  it('reads JSON wrapped in a ```json fence with text around it', () => {
+    const parsed = parseEbookJson(`Aqui está o seu ebook:\n\`\`\`json\n${ebookText}\n\`\`\``);
+
+    expect(parsed.title).toBe('Finanças para Iniciantes');
+    expect(parsed.chapters).toHaveLength(2);
+    expect(parsed.truncated).toBe(false);
+  });
+
+  it('takes a bare array as the chapter list, continuing the existing numbering', () => {
+    const parsed = parseEbookJson(JSON.stringify(ebook.chapters), { fallbackTitle: 'Meu ebook', firstChapterNumber: 4 });
+
+    expect(parsed.title).toBe('Meu ebook');
+    expect(parsed.chapters.map(c => c.title)).toEqual(['Capítulo 4: Orçamento', 'Capítulo 5: Reserva de emergência']);
+  });
+
+  it('keeps the complete chapters of a response cut off inside a chapter', () => {
+    const cut = ebookText.slice(0, ebookText.indexOf('seis meses'));
+    const parsed = parseEbookJson(cut);
+
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.chapters.map(c => c.title)).toEqual(['Capítulo 1: Orçamento']);
+    expect(parsed.conclusion).toBe('');
+  });
+
+  it('keeps the introduction of a response cut off inside the chapter list', () => {
+    const parsed = parseEbookJson('{"title": "Livro", "introduction": "Olá.", "chapters": [');
+
+    expect(parsed).toMatchObject({ title: 'Livro', introduction: 'Olá.', chapters: [], truncated: true });
+  });
+
+  it.each([
+    ['an empty response', ''],
+    ['a refusal without JSON', 'Desculpe, não posso ajudar com isso.'],
+    ['a broken structure', '{"title": "Livro", "chapters": [}'],
+  ])('throws a readable error for %s', (_, text) => {
+    expect(() => parseEbookJson(text)).toThrow('A resposta da IA não veio em um formato válido. Tente novamente.');
+  });
+});
+
+describe('parseEbookOutlineJson', () => {
+  it('parses the outline, stripping the chapter numbers the model adds', () => {
+    const text = '{"title": "Excel", "chapters": [{"title": "Capítulo 1 - Fórmulas", "summary": "SOMA e SE.", "icon": "chart"}, {"summary": "Sem título"}]}';
+
+    expect(parseEbookOutlineJson(text, 'Planilhas')).toEqual({
+      title: 'Excel',
+      chapters: [{ title: 'Fórmulas', summary: 'SOMA e SE.', icon: 'Chart' }],
+    });
+  });
+
+  it('keeps the chapters that arrived before the response was cut off', () => {
+    const parsed = parseEbookOutlineJson('{"chapters": [{"title": "Fórmulas", "summary": "SOMA"}, {"title": "Gráf', 'Planilhas');
+
+    expect(parsed).toEqual({ title: 'Planilhas', chapters: [{ title: 'Fórmulas', summary: 'SOMA', icon: 'BookOpen' }] });
+  });
+
+  it('throws a readable error when there is no JSON to read', () => {
+    expect(() => parseEbookOutlineJson('Não entendi o pedido.')).toThrow('A resposta da IA não veio em um formato válido.');
+  });
+});
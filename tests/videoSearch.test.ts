@@ -0,0 +1,244 @@
+// tests/videoSearch.test.ts
+import { readFileSync } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  parseInvidiousVideoResponse,
+  parsePipedVideoResponse,
+  parseInvidiousMusicResponse,
+  parsePipedMusicResponse,
+  parseInvidiousPlaylistSearchResponse,
+  parsePipedPlaylistSearchResponse,
+  parseInvidiousPlaylistResponse,
+  parsePipedPlaylistResponse,
+  parseInvidiousChannelSearchResponse,
+  parsePipedChannelSearchResponse,
+  parseInvidiousChannelVideosResponse,
+  searchVideosFromProviders,
+} from '../supabase/functions/_shared/videoSearch';
+
+// Trimmed responses in the shapes Invidious and Piped instances return, edge cases included.
+const loadFixture = (name: string): any =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+// What instances send back when they are rate limited, misconfigured or cut off mid-response.
+const malformedResponses: [string, unknown][] = [
+  ['null', null],
+  ['an empty object', {}],
+  ['an HTML error page', '<html>502 Bad Gateway</html>'],
+  ['an error object', { error: 'Could not extract video info' }],
+];
+
+describe('video search parsers', () => {
+  it('parses an Invidious search, skipping non-videos and items without a title', () => {
+    const videos = parseInvidiousVideoResponse(loadFixture('invidious-video-search'));
+
+    expect(videos.map(v => v.id)).toEqual(['rfscVS0vtbw', 'liveStream01']);
+    expect(videos[0]).toEqual({
+      id: 'rfscVS0vtbw',
+      title: 'Curso de Python para Iniciantes',
+      durationSeconds: 2710,
+      channelName: 'Curso em Vídeo',
+      publishedAt: '2023-11-14T22:13:20.000Z',
+      viewCount: 1520344,
+      description: 'Aprenda Python do zero.',
+      thumbnailUrl: 'https://i.ytimg.com/vi/rfscVS0vtbw/hqdefault.jpg',
+      platform: 'youtube',
+    });
+  });
+
+  it('treats unknown Invidious counts as missing and falls back to the YouTube thumbnail', () => {
+    const live = parseInvidiousVideoResponse(loadFixture('invidious-video-search'))[1];
+
+    expect(live.durationSeconds).toBe(0);
+    expect(live.viewCount).toBeUndefined();
+    expect(live.publishedAt).toBeUndefined();
+    expect(live.thumbnailUrl).toBe('https://i.ytimg.com/vi/liveStream01/hqdefault.jpg');
+  });
+
+  it('parses a Piped search, reading the video ID from the watch URL', () => {
+    const videos = parsePipedVideoResponse(loadFixture('piped-video-search'));
+
+    expect(videos.map(v => v.id)).toEqual(['8jLOx1hD3_o', 'shortNoData']);
+    expect(videos[0]).toMatchObject({
+      title: 'Excel Básico ao Avançado',
+      durationSeconds: 5400,
+      channelName: 'Hashtag Treinamentos',
+      publishedAt: '2023-11-14T22:13:19.000Z',
+      viewCount: 98000,
+      description: 'Aula completa de Excel.',
+      thumbnailUrl: 'https://pipedproxy.kavin.rocks/vi/8jLOx1hD3_o/hqdefault.jpg',
+    });
+    expect(videos[1]).toMatchObject({
+      durationSeconds: 0,
+      channelName: undefined,
+      viewCount: undefined,
+      thumbnailUrl: 'https://i.ytimg.com/vi/shortNoData/hqdefault.jpg',
+    });
+  });
+
+  it('leaves out videos that are already imported', () => {
+    const existing = new Set(['rfscVS0vtbw', '8jLOx1hD3_o']);
+
+    expect(parseInvidiousVideoResponse(loadFixture('invidious-video-search'), existing).map(v => v.id)).toEqual(['liveStream01']);
+    expect(parsePipedVideoResponse(loadFixture('piped-video-search'), existing).map(v => v.id)).toEqual(['shortNoData']);
+  });
+
+  it.each(malformedResponses)('returns no videos for %s', (_, response) => {
+    expect(parseInvidiousVideoResponse(response)).toEqual([]);
+    expect(parsePipedVideoResponse(response)).toEqual([]);
+  });
+});
+
+describe('music search parsers', () => {
+  it('cleans Invidious titles and drops tracks without an absolute thumbnail', () => {
+    expect(parseInvidiousMusicResponse(loadFixture('invidious-music-search'))).toEqual([
+      {
+        id: 'cAbc123Music',
+        title: 'Anitta - Envolver',
+        artist: 'Anitta',
+        thumbnailUrl: 'https://i.ytimg.com/vi/cAbc123Music/hqdefault.jpg',
+      },
+    ]);
+  });
+
+  it('parses Piped songs and skips albums', () => {
+    expect(parsePipedMusicResponse(loadFixture('piped-music-search'))).toEqual([
+      {
+        id: 'gHi789Songs',
+        title: 'Aquarela',
+        artist: 'Toquinho - Topic',
+        thumbnailUrl: 'https://pipedproxy.kavin.rocks/vi/gHi789Songs/hqdefault.jpg',
+      },
+    ]);
+  });
+
+  it.each(malformedResponses)('returns no tracks for %s', (_, response) => {
+    expect(parseInvidiousMusicResponse(response)).toEqual([]);
+    expect(parsePipedMusicResponse(response)).toEqual([]);
+  });
+});
+
+describe('playlist parsers', () => {
+  it('parses an Invidious playlist search, dropping playlists with nothing to show', () => {
+    expect(parseInvidiousPlaylistSearchResponse(loadFixture('invidious-playlist-search'))).toEqual([
+      {
+        id: 'PLmarketing0001',
+        title: 'Curso de Marketing Digital',
+        thumbnailUrl: 'https://i.ytimg.com/vi/aula1video01/hqdefault.jpg',
+        videoCount: 42,
+        uploaderName: 'Escola de Marketing',
+      },
+    ]);
+  });
+
+  it('parses a Piped playlist search', () => {
+    expect(parsePipedPlaylistSearchResponse(loadFixture('piped-playlist-search'))).toEqual([
+      {
+        id: 'PLfinancas0001',
+        title: 'Finanças Pessoais',
+        thumbnailUrl: 'https://pipedproxy.kavin.rocks/vi/fin001/hqdefault.jpg',
+        videoCount: 18,
+        uploaderName: 'Me Poupe!',
+      },
+    ]);
+  });
+
+  it('parses the videos of an Invidious playlist, skipping private entries', () => {
+    const videos = parseInvidiousPlaylistResponse(loadFixture('invidious-playlist'));
+
+    expect(videos.map(v => [v.id, v.durationSeconds])).toEqual([['aula1video01', 600], ['aula2video02', 845]]);
+    expect(videos[1].thumbnailUrl).toBe('https://i.ytimg.com/vi/aula2video02/hqdefault.jpg');
+  });
+
+  it('parses the videos of a Piped playlist', () => {
+    const videos = parsePipedPlaylistResponse(loadFixture('piped-playlist'), new Set(['fin001video']));
+
+    expect(videos).toEqual([
+      {
+        id: 'fin002video',
+        title: 'Reserva de emergência',
+        durationSeconds: 900,
+        channelName: 'Me Poupe!',
+        publishedAt: undefined,
+        viewCount: undefined,
+        description: undefined,
+        thumbnailUrl: 'https://i.ytimg.com/vi/fin002video/hqdefault.jpg',
+        platform: 'youtube',
+      },
+    ]);
+  });
+
+  it.each(malformedResponses)('returns nothing for %s', (_, response) => {
+    expect(parseInvidiousPlaylistSearchResponse(response)).toEqual([]);
+    expect(parsePipedPlaylistSearchResponse(response)).toEqual([]);
+    expect(parseInvidiousPlaylistResponse(response)).toEqual([]);
+    expect(parsePipedPlaylistResponse(response)).toEqual([]);
+  });
+});
+
+describe('channel parsers', () => {
+  it('parses an Invidious channel search, using the largest avatar', () => {
+    expect(parseInvidiousChannelSearchResponse(loadFixture('invidious-channel-search'))).toEqual([
+      {
+        id: 'UCrWvhVmt0Qac3HgsjQK62FQ',
+        name: 'Curso em Vídeo',
+        thumbnailUrl: 'https://yt3.ggpht.com/avatar=s176',
+        description: 'Cursos gratuitos de tecnologia.',
+      },
+    ]);
+  });
+
+  it('parses a Piped channel search, skipping URLs without a channel ID', () => {
+    expect(parsePipedChannelSearchResponse(loadFixture('piped-channel-search'))).toEqual([
+      {
+        id: 'UCafFexaRoRylOKdzGBU6Pgg',
+        name: 'Hashtag Treinamentos',
+        thumbnailUrl: 'https://pipedproxy.kavin.rocks/avatar.jpg',
+        description: undefined,
+      },
+    ]);
+  });
+
+  it('parses Invidious channel uploads in both the wrapped and the bare format', () => {
+    const response = loadFixture('invidious-channel-videos');
+
+    expect(parseInvidiousChannelVideosResponse(response).map(v => v.id)).toEqual(['jsCourse0001']);
+    expect(parseInvidiousChannelVideosResponse(response.videos).map(v => v.id)).toEqual(['jsCourse0001']);
+  });
+
+  it('parses Piped channel uploads like a playlist', () => {
+    expect(parsePipedPlaylistResponse(loadFixture('piped-channel')).map(v => v.id)).toEqual(['pbiUpload01']);
+  });
+
+  it.each(malformedResponses)('returns nothing for %s', (_, response) => {
+    expect(parseInvidiousChannelSearchResponse(response)).toEqual([]);
+    expect(parsePipedChannelSearchResponse(response)).toEqual([]);
+    expect(parseInvidiousChannelVideosResponse(response)).toEqual([]);
+  });
+});
+
+describe('searchVideosFromProviders', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves with no videos when the providers answer without results', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ items: [] }))));
+    const onWin = vi.fn();
+
+    await expect(searchVideosFromProviders('nada novo', new Set(), { onWin })).resolves.toEqual([]);
+    expect(onWin).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects only when every provider fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+
+    await expect(searchVideosFromProviders('fora do ar', new Set())).rejects.toThrow('Todos os provedores de busca de vídeo falharam.');
+  });
+});
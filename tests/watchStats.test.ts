@@ -0,0 +1,89 @@
+// tests/watchStats.test.ts
+import { describe, expect, it } from 'vitest';
+import type { Video, VideoProgress } from '../types';
+import { getPaceWindowStart, getRuntimeStats, getWatchPace, toWatchDay } from '../utils/watchStats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2025-10-30T15:00:00Z');
+
+const video = (id: string, durationSeconds: number): Video => ({
+  id,
+  title: id,
+  durationSeconds,
+  thumbnailUrl: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+  platform: 'youtube',
+});
+
+const progress = (videoId: string, changes: Partial<VideoProgress> = {}): VideoProgress => ({
+  videoId,
+  watched: false,
+  positionSeconds: 0,
+  completionPercent: 0,
+  updated_at: new Date(now).toISOString(),
+  ...changes,
+});
+
+describe('getWatchPace', () => {
+  it('averages the progress of the last two weeks over fourteen days', () => {
+    const days = [
+      { day: '2025-10-30', seconds: 1800 },
+      { day: '2025-10-20', seconds: 3600 },
+      { day: '2025-10-17', seconds: 1200 }, // First day of the window
+    ];
+
+    expect(getWatchPace(days, now)).toBe((1800 + 3600 + 1200) / 14);
+  });
+
+  it('leaves out days before the window', () => {
+    expect(getWatchPace([{ day: '2025-10-16', seconds: 36000 }, { day: '1970-01-01', seconds: 99999 }], now)).toBe(0);
+  });
+
+  it('is zero without any recent progress', () => {
+    expect(getWatchPace([], now)).toBe(0);
+  });
+});
+
+describe('getPaceWindowStart', () => {
+  it('starts thirteen days before today, in UTC', () => {
+    expect(getPaceWindowStart(now)).toBe('2025-10-17');
+    expect(toWatchDay(Date.parse('2025-10-30T23:30:00-03:00'))).toBe('2025-10-31');
+  });
+});
+
+describe('getRuntimeStats', () => {
+  const videos = [video('a', 600), video('b', 1200), video('c', 1800)];
+
+  it('counts watched videos as fully seen and others up to their furthest point', () => {
+    const stats = getRuntimeStats(videos, {
+      a: progress('a', { watched: true, completionPercent: 100 }),
+      b: progress('b', { completionPercent: 50 }),
+    }, 600, now);
+
+    expect(stats).toMatchObject({ totalCount: 3, watchedCount: 1, totalSeconds: 3600, remainingSeconds: 2400 });
+    expect(stats.estimatedCompletion).toEqual(new Date(now + 4 * DAY_MS));
+  });
+
+  it('rounds the days left up', () => {
+    expect(getRuntimeStats(videos, {}, 1000, now).estimatedCompletion).toEqual(new Date(now + 4 * DAY_MS));
+  });
+
+  it('counts a video listed in two tracks once', () => {
+    const stats = getRuntimeStats([...videos, video('a', 600)], {}, 0, now);
+
+    expect(stats.totalCount).toBe(3);
+    expect(stats.totalSeconds).toBe(3600);
+  });
+
+  it('has no estimate without a pace or when nothing is left', () => {
+    expect(getRuntimeStats(videos, {}, 0, now).estimatedCompletion).toBeNull();
+
+    const allWatched = Object.fromEntries(videos.map(v => [v.id, progress(v.id, { watched: true })]));
+    const stats = getRuntimeStats(videos, allWatched, 600, now);
+    expect(stats.remainingSeconds).toBe(0);
+    expect(stats.estimatedCompletion).toBeNull();
+  });
+
+  it('never counts more than a video lasts', () => {
+    expect(getRuntimeStats([video('a', 600)], { a: progress('a', { completionPercent: 150 }) }, 60, now).remainingSeconds).toBe(0);
+  });
+});
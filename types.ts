@@ -1,43 +1,113 @@
+// Types shared with the edge functions are defined next to them so they deploy with the functions.
+import type { Video, VideoPlatform, ImporterSettings, ImporterRunQuery, YouTubeTrack, YouTubePlaylist, YouTubeChannel } from './supabase/functions/_shared/types';
+export type { Video, VideoPlatform, ImporterSettings, ImporterRunQuery, YouTubeTrack, YouTubePlaylist, YouTubeChannel };
+
 // Fix: Consolidate all IconName definitions here to serve as the single source of truth and remove circular dependencies.
 // All icon names are now defined in this one place.
 export type IconName = 
   // Base Icons
   'Fire' | 'Chart' | 'Heart' | 'ChevronLeft' | 'Play' | 'Plus' | 'Check' | 'Share' |
   // App-specific Icons from original type
-  'Dumbbell' | 'Wrench' | 'Cart' | 'Dollar' | 'Brain' | 'X' | 'Send' | 'Gear' | 'UsersGroup' | 'Upload' | 'BookOpen' | 'Download' | 'Pencil' | 'Pause' | 'SkipBack' | 'SkipForward' | 'Trash' | 'Search' | 'Film' | 'Sparkles' | 'Info' | 'VolumeUp' | 'VolumeOff';
+  'Dumbbell' | 'Wrench' | 'Cart' | 'Dollar' | 'Brain' | 'X' | 'Send' | 'Gear' | 'UsersGroup' | 'Upload' | 'BookOpen' | 'Download' | 'Pencil' | 'Pause' | 'SkipBack' | 'SkipForward' | 'Trash' | 'Search' | 'Film' | 'Sparkles' | 'Info' | 'VolumeUp' | 'VolumeOff' | 'Bars';
 
+export type UserRole = 'admin' | 'editor' | 'member';
 
 export interface User {
+  id: string; // Supabase Auth user ID (auth.users.id)
   name: string;
-  password?: string;
+  email?: string;
   avatarUrl: string; // Added for profile pictures
+  role: UserRole;
 }
 
 export interface OnlineUser {
+    id: string;
     name: string;
     avatarUrl: string;
 }
 
-export interface Video {
-  id: string; // youtube video ID
-  title: string;
-  duration: string; // e.g. "10:32"
-  thumbnailUrl: string;
-  platform: 'youtube';
-}
+export type CategoryColor = 'red' | 'orange' | 'green' | 'cyan' | 'blue' | 'indigo' | 'yellow' | 'rose';
 
 export interface LearningCategory {
   id: string; // e.g. "frontend-dev"
   title: string;
   description: string;
   icon: IconName;
-  color: 'red' | 'orange' | 'green' | 'cyan' | 'blue' | 'indigo' | 'yellow' | 'rose';
+  color: CategoryColor;
+  archived?: boolean; // Archived tracks are hidden from the dashboard but keep their videos
   videos: Video[];
 }
 
+// A diff against one category's playlist, applied atomically on the server.
+export interface LearningPlaylistChanges {
+  added?: Video[];
+  removedIds?: string[];
+  orderedIds?: string[]; // Full desired order of the category's video IDs
+  sections?: Record<string, string | null>; // Video ID -> new module name (null clears it)
+}
+
+// Versioned backup of the whole learning catalog: every track (archived ones too) with its videos in playlist order.
+export interface LearningCatalogFile {
+  format: 'arc7hive-learning-catalog';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  categories: LearningCategory[];
+}
+
+export type CatalogImportMode = 'merge' | 'replace';
+
+export interface ImporterRun {
+  id: number;
+  startedAt: string; // ISO timestamp
+  finishedAt: string | null;
+  status: 'running' | 'succeeded' | 'failed';
+  foundCount: number;
+  insertedCount: number;
+  error: string | null;
+  queries: ImporterRunQuery[];
+}
+
+// What daily-video-importer answers. A dry run searches but writes nothing, so runId is null.
+export interface ImporterRunResult {
+  message: string;
+  dryRun: boolean;
+  runId: number | null;
+  candidates: { categoryId: string; query: string; video: Video }[];
+  queries: ImporterRunQuery[];
+}
+
+// A video the importer found, waiting for an admin to publish or discard it.
+export interface VideoCandidate {
+  id: number;
+  categoryId: string;
+  video: Video;
+  searchQuery: string | null;
+  createdAt: string;
+}
+
+// A single learning_videos row change pushed over realtime.
+export type LearningVideoChange =
+  | { type: 'upsert'; categoryId: string; video: Video }
+  | { type: 'delete'; categoryId: string; videoId: string };
+
 export interface NextVideoInfo {
   video: Video;
   category: LearningCategory;
+  progress?: VideoProgress; // Present when the video was already started
+}
+
+export interface VideoProgress {
+  videoId: string;
+  watched: boolean;
+  positionSeconds: number; // Last playback position
+  completionPercent: number; // 0-100, furthest share of the video viewed
+  updated_at: string;
+}
+
+// Seconds of new progress on one day, across every video (table video_watch_days)
+export interface WatchDay {
+  day: string; // UTC date, YYYY-MM-DD
+  seconds: number;
 }
 
 export interface Chapter {
@@ -53,22 +123,58 @@ export interface Project {
     introduction: string;
     chapters: Chapter[];
     conclusion: string;
-    createdBy: string;
+    createdBy: string; // Display name of the owner
+    ownerId: string | null; // Supabase Auth user ID of the owner; null on projects its owner has not claimed yet
     avatarUrl?: string; // Optional to match database schema
     created_at: string; // Changed from number to string for Supabase ISO timestamp
     coverImageUrl?: string; // URL for the AI-generated cover image
     // --- New Fields for Collaboration & Monetization ---
-    collaborators?: string[]; // Array of user names
+    collaborators?: string[]; // Array of user IDs
     status?: 'draft' | 'published';
     price?: number;
     publicDescription?: string;
+    generationState?: EbookGenerationState | null; // Set until ProjectGenerationPage has written every section
 }
 
+export type EbookTone = 'didactic' | 'conversational' | 'professional' | 'inspirational';
+export type EbookAudienceLevel = 'beginner' | 'intermediate' | 'advanced';
+export type EbookLanguage = 'pt-BR' | 'en' | 'es';
+
 export interface ProjectGenerationConfig {
     topic: string;
-    chapters: number;
+    chapters: number; // Equals outline.length when an outline is given
+    wordsPerChapter: number; // Target length; the model treats it as approximate
+    tone: EbookTone;
+    audience: EbookAudienceLevel;
+    language: EbookLanguage;
+    outline?: string[]; // Chapter titles chosen by the user, in order
 }
 
+// Approved before any chapter is written; `summary` tells each chapter call what to cover.
+export interface EbookOutlineChapter {
+    title: string; // Without the chapter number
+    summary: string;
+    icon: IconName;
+}
+
+export interface EbookOutline {
+    title: string;
+    chapters: EbookOutlineChapter[];
+}
+
+// What an interrupted generation needs to pick up where it stopped; finished sections are read back from the project.
+export interface EbookGenerationState {
+    config: ProjectGenerationConfig;
+    outline: EbookOutline;
+    chapterIndices: number[]; // Outline index of each chapter saved in the project, in the same order
+}
+
+// One generation call of the outline-first flow.
+export type EbookSection =
+    | { kind: 'introduction' }
+    | { kind: 'chapter'; index: number } // Index into EbookOutline.chapters
+    | { kind: 'conclusion' };
+
 export interface QuizQuestion {
     question: string;
     options: string[];
@@ -100,7 +206,6 @@ export interface ShortFormVideoScript {
     fullNarrationAudioUrl?: string; // Data URL for the generated TTS audio
 }
 
-
 export interface SocialMediaIdea {
     title: string;
     script: string;
@@ -115,6 +220,7 @@ export interface ChatMessage {
 export interface MeetingMessage {
     id: number; // Changed from string to number for Supabase primary key
     user: string;
+    userId: string | null; // Supabase Auth user ID of the sender; null on messages from before accounts existed
     text: string;
     created_at: string; // Changed from timestamp: string for Supabase ISO timestamp
     avatarUrl: string; 
@@ -128,26 +234,17 @@ export interface Song {
   storagePath: string; // Full path in Firebase Storage for deletion
 }
 
-export interface YouTubeTrack {
-  id: string;
-  title: string;
-  artist: string;
-  thumbnailUrl: string;
-}
-
-export interface YouTubePlaylist {
-  id: string;
-  title: string;
-  thumbnailUrl: string;
-  videoCount: number;
-  uploaderName: string;
-}
-
-export interface YouTubeChannel {
-  id: string;
-  name: string;
-  thumbnailUrl: string;
-  description?: string;
+// Health of one Invidious/Piped instance, shared by every search that goes through it.
+export interface ProviderHealth {
+  instance: string; // Base URL, e.g. "https://pipedapi.kavin.rocks"
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null; // Moving average over successful requests
+  lastSuccessAt: number | null; // Epoch ms
+  lastFailureAt: number | null;
+  lastError: string | null;
+  cooldownUntil: number | null; // Skipped until this time while failing
 }
 
 export interface Notification {
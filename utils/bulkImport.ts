@@ -0,0 +1,103 @@
+// utils/bulkImport.ts
+
+export interface BulkVideoEntry {
+  url: string;
+  title?: string; // Overrides the title the platform reports
+  section?: string; // Module to place the video in
+}
+
+const URL_KEYS = ['url', 'link', 'href', 'video'];
+const TITLE_KEYS = ['title', 'titulo', 'título', 'name', 'nome'];
+const SECTION_KEYS = ['section', 'module', 'modulo', 'módulo'];
+
+const looksLikeUrl = (value: string) => /^https?:\/\//i.test(value.trim());
+
+const pickField = (record: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const [key, value] of Object.entries(record)) {
+    if (keys.includes(key.trim().toLowerCase()) && typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+// Accepts `["https://...", ...]`, `[{ "url": "...", "title": "...", "section": "..." }, ...]` or `{ "videos": [...] }`.
+function parseJsonList(text: string): BulkVideoEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`JSON inválido: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const items = Array.isArray(data) ? data : (data as { videos?: unknown })?.videos;
+  if (!Array.isArray(items)) {
+    throw new Error('O JSON deve ser uma lista de links ou de objetos com o campo "url".');
+  }
+  return items.flatMap((item): BulkVideoEntry[] => {
+    if (typeof item === 'string') return [{ url: item.trim() }];
+    if (item && typeof item === 'object') {
+      const record = item as Record<string, unknown>;
+      const url = pickField(record, URL_KEYS);
+      return url ? [{ url, title: pickField(record, TITLE_KEYS), section: pickField(record, SECTION_KEYS) }] : [];
+    }
+    return [];
+  });
+}
+
+// Splits one CSV line, honoring double-quoted fields ("a, b" and "" escapes).
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// CSV with an optional header row (url/link, title/titulo, section/modulo). Without a header, the first cell that
+// looks like a link is used. A plain list of links, one per line, is a valid one-column CSV.
+function parseCsvList(text: string): BulkVideoEntry[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+  // Spreadsheets exported with a Brazilian locale separate columns with ";".
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const rows = lines.map(line => splitCsvLine(line, delimiter));
+
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const urlColumn = header.findIndex(cell => URL_KEYS.includes(cell));
+  if (urlColumn !== -1) {
+    const titleColumn = header.findIndex(cell => TITLE_KEYS.includes(cell));
+    const sectionColumn = header.findIndex(cell => SECTION_KEYS.includes(cell));
+    return rows.slice(1).map(row => ({
+      url: row[urlColumn] ?? '',
+      title: titleColumn !== -1 ? row[titleColumn] || undefined : undefined,
+      section: sectionColumn !== -1 ? row[sectionColumn] || undefined : undefined,
+    }));
+  }
+  return rows.map(row => ({ url: row.find(looksLikeUrl) ?? row[0] }));
+}
+
+// Reads pasted or uploaded text as JSON when it starts like JSON, otherwise as CSV. Throws on malformed JSON.
+export function parseBulkVideoList(text: string): BulkVideoEntry[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const entries = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJsonList(trimmed) : parseCsvList(trimmed);
+  return entries.filter(entry => entry.url);
+}
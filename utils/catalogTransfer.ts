@@ -0,0 +1,172 @@
+// utils/catalogTransfer.ts
+import type { CatalogImportMode, LearningCatalogFile, LearningCategory, Video } from '../types';
+import { platformLabels } from './videoPlatforms';
+
+export const CATALOG_FORMAT = 'arc7hive-learning-catalog';
+// Bump when the file layout changes in a way older importers can't read, and teach parseCatalogFile to upgrade.
+export const CATALOG_FORMAT_VERSION = 1;
+
+export interface CategoryDiff {
+  id: string;
+  title: string;
+  status: 'new' | 'updated' | 'unchanged' | 'archived';
+  addedVideos: Video[];
+  updatedVideos: Video[];
+  removedVideos: Video[];
+  reordered: boolean;
+}
+
+export interface CatalogDiff {
+  categories: CategoryDiff[]; // Only tracks the import would touch
+  addedVideos: number;
+  updatedVideos: number;
+  removedVideos: number;
+}
+
+// The playlist order is the array order, so the server-side position isn't written to the file.
+export function buildCatalogFile(categories: LearningCategory[]): LearningCatalogFile {
+  return {
+    format: CATALOG_FORMAT,
+    version: CATALOG_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    categories: categories.map(category => ({
+      ...category,
+      archived: !!category.archived,
+      videos: category.videos.map(({ position: _position, ...video }) => video),
+    })),
+  };
+}
+
+export function getCatalogFileName(date = new Date()): string {
+  return `arc7hive-catalogo-${date.toISOString().slice(0, 10)}.json`;
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+function validateVideo(raw: any, path: string): Video {
+  if (!raw || typeof raw !== 'object') throw new Error(`${path}: o vídeo deve ser um objeto.`);
+  if (!isNonEmptyString(raw.id)) throw new Error(`${path}: campo "id" ausente.`);
+  if (!isNonEmptyString(raw.title)) throw new Error(`${path}: campo "title" ausente.`);
+  if (!(raw.platform in platformLabels)) throw new Error(`${path}: plataforma "${raw.platform}" não suportada.`);
+  if (raw.platform === 'file' && !isNonEmptyString(raw.sourceUrl)) throw new Error(`${path}: vídeos de arquivo precisam de "sourceUrl".`);
+  return {
+    ...raw,
+    durationSeconds: typeof raw.durationSeconds === 'number' && raw.durationSeconds >= 0 ? Math.floor(raw.durationSeconds) : 0,
+    thumbnailUrl: typeof raw.thumbnailUrl === 'string' ? raw.thumbnailUrl : '',
+    section: isNonEmptyString(raw.section) ? raw.section.trim() : null,
+  };
+}
+
+function validateCategory(raw: any, path: string): LearningCategory {
+  if (!raw || typeof raw !== 'object') throw new Error(`${path}: a trilha deve ser um objeto.`);
+  if (!isNonEmptyString(raw.id)) throw new Error(`${path}: campo "id" ausente.`);
+  if (!isNonEmptyString(raw.title)) throw new Error(`${path}: campo "title" ausente.`);
+  if (!isNonEmptyString(raw.icon) || !isNonEmptyString(raw.color)) throw new Error(`${path}: campos "icon" e "color" são obrigatórios.`);
+  if (!Array.isArray(raw.videos)) throw new Error(`${path}: campo "videos" deve ser uma lista.`);
+
+  const videos = raw.videos.map((video: unknown, i: number) => validateVideo(video, `${path}.videos[${i}]`));
+  const seen = new Set<string>();
+  for (const video of videos) {
+    if (seen.has(video.id)) throw new Error(`${path}: o vídeo "${video.id}" aparece mais de uma vez.`);
+    seen.add(video.id);
+  }
+  return {
+    id: raw.id,
+    title: raw.title,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    icon: raw.icon,
+    color: raw.color,
+    archived: !!raw.archived,
+    videos,
+  };
+}
+
+// Validates an exported file before anything reaches the server. Error messages point at the offending entry.
+export function parseCatalogFile(text: string): LearningCatalogFile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  if (data?.format !== CATALOG_FORMAT) throw new Error('Este arquivo não é um catálogo exportado pelo ARC7HIVE.');
+  if (typeof data.version !== 'number' || data.version > CATALOG_FORMAT_VERSION) {
+    throw new Error(`Versão do catálogo (${data.version}) não suportada. Atualize o aplicativo para importá-lo.`);
+  }
+  if (!Array.isArray(data.categories)) throw new Error('Campo "categories" ausente.');
+
+  const categories = data.categories.map((category: unknown, i: number) => validateCategory(category, `categories[${i}]`));
+  const seen = new Set<string>();
+  for (const category of categories) {
+    if (seen.has(category.id)) throw new Error(`A trilha "${category.id}" aparece mais de uma vez.`);
+    seen.add(category.id);
+  }
+  return { format: CATALOG_FORMAT, version: data.version, exportedAt: String(data.exportedAt ?? ''), categories };
+}
+
+const videoFields: (keyof Video)[] = ['title', 'durationSeconds', 'thumbnailUrl', 'platform', 'sourceUrl', 'channelName', 'publishedAt', 'viewCount', 'description'];
+
+const isVideoChanged = (current: Video, incoming: Video): boolean =>
+  (current.section || null) !== (incoming.section || null) ||
+  videoFields.some(field => (current[field] ?? null) !== (incoming[field] ?? null));
+
+const isCategoryChanged = (current: LearningCategory, incoming: LearningCategory): boolean =>
+  current.title !== incoming.title ||
+  current.description !== incoming.description ||
+  current.icon !== incoming.icon ||
+  current.color !== incoming.color ||
+  !!current.archived !== !!incoming.archived;
+
+// What import_learning_catalog would do to the current catalog, computed locally for the dry run.
+export function diffCatalog(current: LearningCategory[], incoming: LearningCategory[], mode: CatalogImportMode): CatalogDiff {
+  const currentById = new Map(current.map(c => [c.id, c]));
+  const incomingIds = new Set(incoming.map(c => c.id));
+  const categories: CategoryDiff[] = [];
+
+  for (const category of incoming) {
+    const existing = currentById.get(category.id);
+    const existingVideos = new Map((existing?.videos ?? []).map(v => [v.id, v]));
+    const incomingVideoIds = new Set(category.videos.map(v => v.id));
+
+    const addedVideos = category.videos.filter(v => !existingVideos.has(v.id));
+    const updatedVideos = category.videos.filter(v => existingVideos.has(v.id) && isVideoChanged(existingVideos.get(v.id)!, v));
+    const removedVideos = mode === 'replace' ? (existing?.videos ?? []).filter(v => !incomingVideoIds.has(v.id)) : [];
+
+    // Relative order of the videos that exist both before and after the import.
+    const finalIds = mode === 'replace'
+      ? category.videos.map(v => v.id)
+      : [...category.videos.map(v => v.id), ...(existing?.videos ?? []).map(v => v.id).filter(id => !incomingVideoIds.has(id))];
+    const finalSet = new Set(finalIds);
+    const before = (existing?.videos ?? []).map(v => v.id).filter(id => finalSet.has(id));
+    const after = finalIds.filter(id => existingVideos.has(id));
+    const reordered = before.some((id, i) => id !== after[i]);
+
+    const status = !existing ? 'new' : isCategoryChanged(existing, category) ? 'updated' : 'unchanged';
+    if (status !== 'unchanged' || addedVideos.length || updatedVideos.length || removedVideos.length || reordered) {
+      categories.push({ id: category.id, title: category.title, status, addedVideos, updatedVideos, removedVideos, reordered });
+    }
+  }
+
+  if (mode === 'replace') {
+    for (const category of current) {
+      if (incomingIds.has(category.id)) continue;
+      if (category.archived && category.videos.length === 0) continue;
+      categories.push({
+        id: category.id,
+        title: category.title,
+        status: 'archived',
+        addedVideos: [],
+        updatedVideos: [],
+        removedVideos: category.videos,
+        reordered: false,
+      });
+    }
+  }
+
+  return {
+    categories,
+    addedVideos: categories.reduce((sum, c) => sum + c.addedVideos.length, 0),
+    updatedVideos: categories.reduce((sum, c) => sum + c.updatedVideos.length, 0),
+    removedVideos: categories.reduce((sum, c) => sum + c.removedVideos.length, 0),
+  };
+}
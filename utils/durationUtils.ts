@@ -0,0 +1,14 @@
+// utils/durationUtils.ts
+
+// Formats a number of seconds as "m:ss" (or "h:mm:ss" past an hour).
+export function formatSeconds(seconds: number): string {
+  if (isNaN(seconds) || seconds < 0) return "0:00";
+  const totalSeconds = Math.floor(seconds);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,40 @@
+// utils/ebookOptions.ts
+import type { EbookAudienceLevel, EbookLanguage, EbookTone } from '../types';
+
+export const MIN_EBOOK_CHAPTERS = 3;
+export const MAX_EBOOK_CHAPTERS = 20;
+export const MIN_WORDS_PER_CHAPTER = 300;
+export const MAX_WORDS_PER_CHAPTER = 3000;
+
+export const DEFAULT_EBOOK_CHAPTERS = 10;
+export const DEFAULT_WORDS_PER_CHAPTER = 800;
+
+// `label` is shown in CreateProjectModal; `instruction` is what the prompt asks of the model.
+export const ebookTones: Record<EbookTone, { label: string; instruction: string }> = {
+  didactic: { label: 'Didático', instruction: 'didático, explicando passo a passo com exemplos' },
+  conversational: { label: 'Conversacional', instruction: 'conversacional e próximo, falando diretamente com o leitor' },
+  professional: { label: 'Profissional', instruction: 'profissional e objetivo, como um material corporativo' },
+  inspirational: { label: 'Inspirador', instruction: 'inspirador e motivacional, com histórias e chamadas à ação' },
+};
+
+export const ebookAudienceLevels: Record<EbookAudienceLevel, { label: string; instruction: string }> = {
+  beginner: { label: 'Iniciante', instruction: 'iniciantes, sem conhecimento prévio; defina cada termo técnico' },
+  intermediate: { label: 'Intermediário', instruction: 'leitores que já conhecem o básico e querem se aprofundar' },
+  advanced: { label: 'Avançado', instruction: 'especialistas; pule o básico e vá direto a técnicas e nuances' },
+};
+
+export const ebookLanguages: Record<EbookLanguage, { label: string; instruction: string }> = {
+  'pt-BR': { label: 'Português (Brasil)', instruction: 'português do Brasil' },
+  en: { label: 'Inglês', instruction: 'inglês' },
+  es: { label: 'Espanhol', instruction: 'espanhol' },
+};
+
+// One chapter per line; list markers and "Capítulo 1:" style prefixes are dropped.
+export function parseOutline(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line
+      .replace(/^\s*(?:[-*•]|\d+[.)]|cap[ií]tulo\s*\d+\s*[:.\-–—])\s*/i, '')
+      .trim())
+    .filter(Boolean);
+}
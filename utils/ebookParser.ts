@@ -0,0 +1,151 @@
+// utils/ebookParser.ts
+import type { Chapter, EbookOutline, IconName } from '../types';
+
+// Icons the ebook prompts offer for chapters; anything else the model returns falls back to DEFAULT_CHAPTER_ICON.
+export const EBOOK_CHAPTER_ICONS: IconName[] = [
+  'BookOpen', 'Brain', 'Chart', 'Dollar', 'Fire', 'Heart', 'Sparkles', 'Wrench', 'Film', 'Dumbbell', 'Cart', 'UsersGroup', 'Pencil',
+];
+const DEFAULT_CHAPTER_ICON: IconName = 'BookOpen';
+
+export interface ParsedEbook {
+  title: string;
+  introduction: string;
+  chapters: Chapter[];
+  conclusion: string;
+  truncated: boolean; // The JSON was cut off (or malformed) and had to be repaired; trailing parts may be missing
+}
+
+interface ParseOptions {
+  fallbackTitle?: string;
+  firstChapterNumber?: number; // Lets extensions continue the existing numbering
+}
+
+// Finds the last point where every value so far is complete and closes the open objects and arrays there.
+// Safe points are right after an opening bracket or a finished string value, before a comma and after a
+// closing bracket, so a member that was still being written (key, string or number) is dropped, not half-kept.
+export function repairTruncatedJson(text: string): string | null {
+  const stack: string[] = [];
+  let inString = false;
+  let stringIsValue = false;
+  let escaped = false;
+  let previous = ''; // Last character outside strings, ignoring whitespace
+  let safeEnd = -1;
+  let safeStack: string[] = [];
+
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeStack = [...stack];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        if (stringIsValue) markSafe(i + 1);
+        previous = '"';
+      }
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+    if (char === '"') {
+      inString = true;
+      stringIsValue = previous === ':' || stack[stack.length - 1] === ']';
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      markSafe(i + 1);
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null; // Not truncation; the structure itself is broken
+      markSafe(i + 1);
+      if (stack.length === 0) return text.slice(0, i + 1);
+    } else if (char === ',') {
+      markSafe(i);
+    }
+    previous = char;
+  }
+
+  if (safeEnd < 0) return null;
+  return text.slice(0, safeEnd) + safeStack.reverse().join('');
+}
+
+// Models sometimes wrap JSON in a markdown fence or add a sentence before it.
+const extractJsonText = (text: string): string | null => {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.search(/[{[]/);
+  return start >= 0 ? unfenced.slice(start) : null;
+};
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// "Capítulo 3: Mercados" -> "Mercados"; the numbering is added back consistently below.
+const stripChapterPrefix = (title: string): string =>
+  title.replace(/^(cap[ií]tulo|chapter)\s*\d+\s*[:.\-–—]\s*/i, '').trim();
+
+// `index` is zero-based.
+export const formatChapterTitle = (title: string, index: number): string => `Capítulo ${index + 1}: ${title}`;
+
+const toIcon = (value: unknown): IconName => {
+  const name = asText(value);
+  return EBOOK_CHAPTER_ICONS.find(icon => icon.toLowerCase() === name.toLowerCase()) ?? DEFAULT_CHAPTER_ICON;
+};
+
+// Parses the model's JSON, repairing it if it was cut off. Throws when nothing usable can be recovered
+// (no JSON at all, or a structure that is broken rather than truncated).
+const parseLenientJson = (text: string): { data: any; truncated: boolean } => {
+  const jsonText = extractJsonText(text);
+  if (jsonText) {
+    try {
+      return { data: JSON.parse(jsonText), truncated: false };
+    } catch {
+      const repaired = repairTruncatedJson(jsonText);
+      try {
+        if (repaired) return { data: JSON.parse(repaired), truncated: true };
+      } catch {
+        // Falls through to the error below.
+      }
+    }
+  }
+  throw new Error('A resposta da IA não veio em um formato válido. Tente novamente.');
+};
+
+// Parses the JSON the ebook prompts ask for ({ title, introduction, chapters: [{ title, icon, content }], conclusion }).
+// Truncated or partly malformed output is repaired where possible, chapters without a title or content are
+// dropped, and whatever is left is returned; throws (see parseLenientJson) when the text cannot be read at all.
+export function parseEbookJson(text: string, options: ParseOptions = {}): ParsedEbook {
+  const { fallbackTitle = '', firstChapterNumber = 1 } = options;
+  const { data, truncated } = parseLenientJson(text);
+
+  // A bare array is taken as the chapter list.
+  const root = Array.isArray(data) ? { chapters: data } : data && typeof data === 'object' ? data : {};
+  const rawChapters: unknown[] = Array.isArray(root.chapters) ? root.chapters : [];
+
+  const chapters = rawChapters
+    .filter((raw): raw is Record<string, unknown> => !!raw && typeof raw === 'object')
+    .map(raw => ({ title: stripChapterPrefix(asText(raw.title)), icon: toIcon(raw.icon), content: asText(raw.content) }))
+    .filter(chapter => chapter.title && chapter.content)
+    .map((chapter, i) => ({ ...chapter, title: formatChapterTitle(chapter.title, firstChapterNumber - 1 + i) }));
+
+  return {
+    title: asText(root.title) || fallbackTitle,
+    introduction: asText(root.introduction),
+    chapters,
+    conclusion: asText(root.conclusion),
+    truncated,
+  };
+}
+
+// Parses the outline JSON ({ title, chapters: [{ title, summary, icon }] }). Throws like parseEbookJson;
+// the caller treats an outline without chapters as a failed generation.
+export function parseEbookOutlineJson(text: string, fallbackTitle = ''): EbookOutline {
+  const { data } = parseLenientJson(text);
+
+  const rawChapters: unknown[] = Array.isArray(data?.chapters) ? data.chapters : [];
+  const chapters = rawChapters
+    .filter((raw): raw is Record<string, unknown> => !!raw && typeof raw === 'object')
+    .map(raw => ({ title: stripChapterPrefix(asText(raw.title)), summary: asText(raw.summary), icon: toIcon(raw.icon) }))
+    .filter(chapter => chapter.title);
+
+  return { title: asText(data?.title) || fallbackTitle, chapters };
+}
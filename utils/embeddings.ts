@@ -0,0 +1,66 @@
+// utils/embeddings.ts
+
+// Identifies vectors from localEmbedding in the persisted index; bump when the algorithm or dimensions change.
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-v1';
+const LOCAL_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+  'a', 'o', 'as', 'os', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'no', 'na', 'nos', 'nas', 'um', 'uma',
+  'para', 'por', 'com', 'como', 'que', 'se', 'ao', 'the', 'and', 'of', 'to', 'in', 'for', 'on', 'with', 'how',
+]);
+
+// "Introdução ao React!" -> ["introducao", "react"]
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+// FNV-1a. Hashes features into vector slots and fingerprints indexed texts.
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic embedding for when no AI key is configured: whole words plus character trigrams
+// (so "componente" and "componentes" land close) hashed into a fixed-size, L2-normalized vector.
+export function localEmbedding(text: string): number[] {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = hashString(feature);
+    vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+  for (const token of tokenize(text)) {
+    add(`w:${token}`, 1);
+    const padded = ` ${token} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+  return normalize(vector);
+}
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,29 @@
+// utils/permissions.ts
+import type { User, UserRole } from '../types';
+
+export type Permission =
+    | 'open-admin-panel'
+    | 'manage-styles'
+    | 'manage-music'
+    | 'manage-videos'
+    | 'manage-roles'
+    | 'manage-categories'
+    | 'clear-meeting-chat';
+
+// Mirrors the row-level policies in supabase/migrations; the database is the real gate, this only shapes the UI.
+const rolePermissions: Record<UserRole, Permission[]> = {
+    admin: ['open-admin-panel', 'manage-styles', 'manage-music', 'manage-videos', 'manage-roles', 'manage-categories', 'clear-meeting-chat'],
+    editor: ['open-admin-panel', 'manage-music', 'manage-videos'],
+    member: [],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+    admin: 'Administrador',
+    editor: 'Editor',
+    member: 'Membro',
+};
+
+export const hasPermission = (user: User | null, permission: Permission): boolean => {
+    if (!user) return false;
+    return rolePermissions[user.role]?.includes(permission) ?? false;
+};
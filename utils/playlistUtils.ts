@@ -0,0 +1,84 @@
+// utils/playlistUtils.ts
+import type { LearningCategory, LearningPlaylistChanges, LearningVideoChange, Video } from '../types';
+
+export interface VideoSectionGroup {
+  section: string | null; // null for videos outside any module
+  videos: Video[];
+}
+
+// Groups consecutive videos that share a module, keeping the playlist order.
+export function groupVideosBySection(videos: Video[]): VideoSectionGroup[] {
+  const groups: VideoSectionGroup[] = [];
+  for (const video of videos) {
+    const section = video.section || null;
+    const last = groups[groups.length - 1];
+    if (last && last.section === section) {
+      last.videos.push(video);
+    } else {
+      groups.push({ section, videos: [video] });
+    }
+  }
+  return groups;
+}
+
+// Distinct module names in playlist order.
+export function getSectionNames(videos: Video[]): string[] {
+  return [...new Set(videos.map(v => v.section).filter((s): s is string => !!s))];
+}
+
+// Moves a video so it sits before `beforeVideoId` (or at the end of `section` when omitted) and assigns it that module.
+export function moveVideo(videos: Video[], videoId: string, section: string | null, beforeVideoId?: string): Video[] {
+  const moving = videos.find(v => v.id === videoId);
+  if (!moving) return videos;
+
+  const rest = videos.filter(v => v.id !== videoId);
+  const updated = { ...moving, section };
+  let index = beforeVideoId ? rest.findIndex(v => v.id === beforeVideoId) : -1;
+  if (index === -1) {
+    // After the last video of the module, or at the very end for a new module.
+    const lastInSection = rest.map(v => v.section || null).lastIndexOf(section);
+    index = lastInSection === -1 ? rest.length : lastInSection + 1;
+  }
+  return [...rest.slice(0, index), updated, ...rest.slice(index)];
+}
+
+// Renames a module on every video that belongs to it.
+export function renameSection(videos: Video[], from: string, to: string | null): Video[] {
+  return videos.map(v => (v.section === from ? { ...v, section: to } : v));
+}
+
+// The server-side diff between two orderings of the same playlist.
+export function getReorderChanges(before: Video[], after: Video[]): LearningPlaylistChanges {
+  const previousSections = new Map(before.map(v => [v.id, v.section || null]));
+  const sections: Record<string, string | null> = {};
+  for (const video of after) {
+    const section = video.section || null;
+    if (previousSections.get(video.id) !== section) {
+      sections[video.id] = section;
+    }
+  }
+  return {
+    orderedIds: after.map(v => v.id),
+    sections: Object.keys(sections).length > 0 ? sections : undefined,
+  };
+}
+
+// Applies a realtime row change to the tracks, keeping each playlist sorted by position.
+export function applyLearningVideoChange(categories: LearningCategory[], change: LearningVideoChange): LearningCategory[] {
+  return categories.map(cat => {
+    if (cat.id !== change.categoryId) return cat;
+    if (change.type === 'delete') {
+      return cat.videos.some(v => v.id === change.videoId)
+        ? { ...cat, videos: cat.videos.filter(v => v.id !== change.videoId) }
+        : cat;
+    }
+    const videos = [...cat.videos.filter(v => v.id !== change.video.id), change.video];
+    videos.sort((a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER));
+    return { ...cat, videos };
+  });
+}
+
+// Stamps each video with its index so local edits sort the same way the server will.
+export function withPositions(videos: Video[]): Video[] {
+  return videos.map((v, i) => (v.position === i ? v : { ...v, position: i }));
+}
@@ -0,0 +1,28 @@
+// utils/videoMetadata.ts
+import type { Video } from '../types';
+
+const viewCountFormatter = new Intl.NumberFormat('pt-BR', { notation: 'compact', maximumFractionDigits: 1 });
+const publishedDateFormatter = new Intl.DateTimeFormat('pt-BR', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// 12000 -> "12 mil visualizações", 1234567 -> "1,2 mi de visualizações"
+export function formatViewCount(viewCount: number): string {
+  if (viewCount === 1) return '1 visualização';
+  const compact = viewCountFormatter.format(viewCount);
+  return /(mi|bi|tri)$/.test(compact) ? `${compact} de visualizações` : `${compact} visualizações`;
+}
+
+// "2024-01-03T12:00:00.000Z" -> "3 de jan. de 2024"
+export function formatPublishedDate(publishedAt: string): string | null {
+  const date = new Date(publishedAt);
+  return isNaN(date.getTime()) ? null : publishedDateFormatter.format(date);
+}
+
+// "Canal • 1,2 mi de visualizações • 3 de jan. de 2024", skipping whatever the provider didn't report.
+export function formatVideoByline(video: Video): string {
+  const parts: string[] = [];
+  if (video.channelName) parts.push(video.channelName);
+  if (video.viewCount !== undefined) parts.push(formatViewCount(video.viewCount));
+  const published = video.publishedAt ? formatPublishedDate(video.publishedAt) : null;
+  if (published) parts.push(published);
+  return parts.join(' • ');
+}
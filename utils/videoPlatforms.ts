@@ -0,0 +1,89 @@
+// utils/videoPlatforms.ts
+import type { Video, VideoPlatform } from '../types';
+
+export interface ParsedVideoLink {
+  platform: VideoPlatform;
+  id: string;
+  sourceUrl: string;
+}
+
+export const platformLabels: Record<VideoPlatform, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+  file: 'Arquivo de vídeo',
+  tiktok: 'TikTok',
+  instagram: 'Instagram',
+};
+
+// Shown for videos whose platform doesn't expose a thumbnail (direct files, Instagram).
+export const PLACEHOLDER_THUMBNAIL = "data:image/svg+xml;charset=UTF-8,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 160 90'%3E%3Crect width='160' height='90' fill='%23141414'/%3E%3Cpath d='M68 30 L96 45 L68 60 Z' fill='%23E50914'/%3E%3C/svg%3E";
+
+const VIDEO_FILE_PATTERN = /\.(mp4|m4v|webm|mov|m3u8)$/i;
+
+// FNV-1a: a short, stable ID for a file URL so the same link can't be added to a track twice.
+const hashUrl = (url: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Recognizes YouTube, Vimeo, TikTok and Instagram links and direct MP4/WebM/HLS files. Returns null for anything else.
+export function parseVideoLink(input: string): ParsedVideoLink | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^(www\.|m\.)/, '');
+  const path = url.pathname;
+  const sourceUrl = url.toString();
+
+  if (host === 'youtube.com' || host === 'music.youtube.com' || host === 'youtu.be') {
+    const id = host === 'youtu.be'
+      ? path.slice(1)
+      : url.searchParams.get('v') ?? path.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1];
+    return id && /^[\w-]{11}$/.test(id) ? { platform: 'youtube', id, sourceUrl } : null;
+  }
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    // vimeo.com/76979871, vimeo.com/channels/staffpicks/76979871, player.vimeo.com/video/76979871
+    const id = path.split('/').filter(segment => /^\d+$/.test(segment)).pop();
+    return id ? { platform: 'vimeo', id, sourceUrl } : null;
+  }
+  if (host === 'tiktok.com') {
+    // Short vm.tiktok.com links only resolve through a redirect, so the full /@user/video/<id> URL is required.
+    const id = path.match(/\/video\/(\d+)/)?.[1];
+    return id ? { platform: 'tiktok', id, sourceUrl } : null;
+  }
+  if (host === 'instagram.com') {
+    const id = path.match(/^\/(?:p|reel|reels|tv)\/([\w-]+)/)?.[1];
+    return id ? { platform: 'instagram', id, sourceUrl } : null;
+  }
+  if (VIDEO_FILE_PATTERN.test(path)) {
+    return { platform: 'file', id: `file-${hashUrl(sourceUrl)}`, sourceUrl };
+  }
+  return null;
+}
+
+export const isHlsSource = (sourceUrl: string): boolean => /\.m3u8$/i.test(new URL(sourceUrl).pathname);
+
+// Where "Compartilhar" and "abrir no site" should point for each platform.
+export function getVideoWatchUrl(video: Video): string {
+  switch (video.platform) {
+    case 'vimeo':
+      return `https://vimeo.com/${video.id}`;
+    case 'instagram':
+      return `https://www.instagram.com/p/${video.id}/`;
+    case 'tiktok':
+    case 'file':
+      return video.sourceUrl ?? '';
+    case 'youtube':
+    default:
+      return `https://www.youtube.com/watch?v=${video.id}`;
+  }
+}
@@ -0,0 +1,73 @@
+// utils/watchStats.ts
+import type { Video, VideoProgress, WatchDay } from '../types';
+
+const PACE_WINDOW_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RuntimeStats {
+  totalCount: number;
+  watchedCount: number;
+  totalSeconds: number;
+  remainingSeconds: number;
+  estimatedCompletion: Date | null; // null when done or when there is no recent pace to go by
+}
+
+// How much of a video counts as seen: all of it once watched, otherwise the furthest point reached.
+const getSeenSeconds = (video: Video, progress: VideoProgress | undefined): number => {
+  if (!progress) return 0;
+  if (progress.watched) return video.durationSeconds;
+  return Math.min(video.durationSeconds, (video.durationSeconds * progress.completionPercent) / 100);
+};
+
+// The UTC day of a timestamp, as video_watch_days stores it.
+export const toWatchDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+// First day of the pace window: the last two weeks, today included.
+export const getPaceWindowStart = (now = Date.now()): string => toWatchDay(now - (PACE_WINDOW_DAYS - 1) * DAY_MS);
+
+// Average seconds of new progress per day over the pace window. Only progress made on those days counts, so
+// re-watching a finished video or ticking it as watched doesn't speed the estimate up.
+export function getWatchPace(watchDays: WatchDay[], now = Date.now()): number {
+  const since = getPaceWindowStart(now);
+  const seconds = watchDays.filter(d => d.day >= since).reduce((total, d) => total + d.seconds, 0);
+  return seconds / PACE_WINDOW_DAYS;
+}
+
+// Totals for a list of videos; repeated IDs (the same video in two tracks) are counted once.
+export function getRuntimeStats(
+  videos: Video[],
+  videoProgress: Record<string, VideoProgress>,
+  secondsPerDay: number,
+  now = Date.now()
+): RuntimeStats {
+  const unique = [...new Map(videos.map(v => [v.id, v])).values()];
+  let totalSeconds = 0;
+  let remainingSeconds = 0;
+  let watchedCount = 0;
+  for (const video of unique) {
+    const progress = videoProgress[video.id];
+    if (progress?.watched) watchedCount++;
+    totalSeconds += video.durationSeconds;
+    remainingSeconds += video.durationSeconds - getSeenSeconds(video, progress);
+  }
+  remainingSeconds = Math.max(0, Math.round(remainingSeconds));
+  const estimatedCompletion = remainingSeconds > 0 && secondsPerDay > 0
+    ? new Date(now + Math.ceil(remainingSeconds / secondsPerDay) * DAY_MS)
+    : null;
+  return { totalCount: unique.length, watchedCount, totalSeconds, remainingSeconds, estimatedCompletion };
+}
+
+// 12600 -> "3h 30min", 2700 -> "45min"
+export function formatRuntime(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}min`;
+  return minutes > 0 ? `${hours}h ${minutes}min` : `${hours}h`;
+}
+
+const estimateFormatter = new Intl.DateTimeFormat('pt-BR', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function formatEstimatedCompletion(date: Date): string {
+  return estimateFormatter.format(date);
+}